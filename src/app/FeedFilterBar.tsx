@@ -0,0 +1,202 @@
+"use client";
+
+import React from "react";
+import { DEFAULT_CATEGORY_COLOR, hexToRgba, priorityColor, type ColorMap } from "@/lib/options";
+import type { Location } from "@/lib/locations";
+import { SHIFTS, SHIFT_START_HOURS } from "@/lib/shifts";
+import { HANDOFF_STATUSES } from "@/lib/handoffs/status";
+import {
+  STATUS_FILTER_LABELS,
+  countFeedFilters,
+  toggleFeedFilter,
+  EMPTY_FEED_FILTERS,
+  type FeedFilterKey,
+  type FeedFilters,
+} from "@/lib/handoffs/filters";
+
+export type FilterOption = { value: string; label: string };
+
+type Props = {
+  filters: FeedFilters;
+  onChange: (next: FeedFilters) => void;
+  categories: FilterOption[];
+  priorities: FilterOption[];
+  locations: Location[];
+  categoryColors: ColorMap;
+  priorityColors: ColorMap;
+};
+
+const pad2 = (n: number) => String(n).padStart(2, "0");
+
+function shiftHours(s: (typeof SHIFTS)[number]) {
+  const i = SHIFTS.indexOf(s);
+  const end = SHIFT_START_HOURS[SHIFTS[(i + 1) % SHIFTS.length]];
+  return `${pad2(SHIFT_START_HOURS[s])}–${pad2(end)}`;
+}
+
+function Chip({
+  label,
+  title,
+  on,
+  color,
+  onClick,
+}: {
+  label: string;
+  title?: string;
+  on: boolean;
+  color?: string;
+  onClick: () => void;
+}) {
+  const c = color ?? "#ffffff";
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      title={title}
+      aria-pressed={on}
+      style={{
+        padding: "6px 10px",
+        borderRadius: 999,
+        border: `1px solid ${hexToRgba(c, on ? 0.7 : 0.2)}`,
+        background: on ? hexToRgba(c, 0.2) : "rgba(255,255,255,0.03)",
+        color: "#fff",
+        cursor: "pointer",
+        fontSize: 12,
+        fontWeight: on ? 850 : 650,
+        opacity: on ? 1 : 0.8,
+      }}
+    >
+      {label}
+    </button>
+  );
+}
+
+function Group({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div style={{ marginTop: 10 }}>
+      <div style={{ fontSize: 11, fontWeight: 900, opacity: 0.6, letterSpacing: 0.4, marginBottom: 6 }}>
+        {title.toUpperCase()}
+      </div>
+      <div style={{ display: "flex", gap: 6, flexWrap: "wrap" }}>{children}</div>
+    </div>
+  );
+}
+
+/** Multi-select filter chips for the feed; the page owns state and the URL */
+export default function FeedFilterBar({
+  filters,
+  onChange,
+  categories,
+  priorities,
+  locations,
+  categoryColors,
+  priorityColors,
+}: Props) {
+  const toggle = <K extends FeedFilterKey>(key: K, value: FeedFilters[K][number]) =>
+    onChange(toggleFeedFilter(filters, key, value));
+
+  // Inactive locations only while a link still selects them
+  const locationCodes = [
+    ...locations.filter((l) => l.active).map((l) => l.code),
+    ...filters.location.filter((code) => !locations.some((l) => l.active && l.code === code)),
+  ];
+
+  return (
+    <div
+      style={{
+        border: "1px solid rgba(255,255,255,0.12)",
+        borderRadius: 12,
+        padding: "2px 12px 12px",
+        background: "rgba(255,255,255,0.03)",
+      }}
+    >
+      <Group title="Status">
+        {HANDOFF_STATUSES.map((s) => (
+          <Chip
+            key={s}
+            label={STATUS_FILTER_LABELS[s]}
+            on={filters.status.includes(s)}
+            color={s === "needs_followup" ? "#ffbe3c" : undefined}
+            onClick={() => toggle("status", s)}
+          />
+        ))}
+      </Group>
+
+      <Group title="Priority">
+        {priorities.map((p) => (
+          <Chip
+            key={p.value}
+            label={p.label}
+            on={filters.priority.includes(p.value)}
+            color={priorityColor(p.value, priorityColors)}
+            onClick={() => toggle("priority", p.value)}
+          />
+        ))}
+      </Group>
+
+      <Group title="Category">
+        {categories.map((c) => (
+          <Chip
+            key={c.value}
+            label={c.label}
+            on={filters.category.includes(c.value)}
+            color={categoryColors[c.value] ?? DEFAULT_CATEGORY_COLOR}
+            onClick={() => toggle("category", c.value)}
+          />
+        ))}
+      </Group>
+
+      <Group title="Created during shift">
+        {SHIFTS.map((s) => (
+          <Chip
+            key={s}
+            label={s}
+            title={`Created ${shiftHours(s)} (your local time)`}
+            on={filters.shift.includes(s)}
+            onClick={() => toggle("shift", s)}
+          />
+        ))}
+      </Group>
+
+      <Group title="Location">
+        {locationCodes.length === 0 ? (
+          <span style={{ fontSize: 12, opacity: 0.6 }}>No locations set up.</span>
+        ) : (
+          locationCodes.map((code) => {
+            const loc = locations.find((l) => l.code === code);
+            return (
+              <Chip
+                key={code}
+                label={code}
+                title={loc?.name}
+                on={filters.location.includes(code)}
+                onClick={() => toggle("location", code)}
+              />
+            );
+          })
+        )}
+      </Group>
+
+      {countFeedFilters(filters) > 0 && (
+        <button
+          type="button"
+          onClick={() => onChange(EMPTY_FEED_FILTERS)}
+          style={{
+            marginTop: 12,
+            padding: "6px 10px",
+            borderRadius: 10,
+            border: "1px solid rgba(255,255,255,0.14)",
+            background: "transparent",
+            color: "#fff",
+            cursor: "pointer",
+            fontSize: 12,
+            fontWeight: 750,
+            opacity: 0.85,
+          }}
+        >
+          Clear filters
+        </button>
+      )}
+    </div>
+  );
+}
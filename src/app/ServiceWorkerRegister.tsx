@@ -0,0 +1,12 @@
+"use client";
+
+import { useEffect } from "react";
+import { registerServiceWorker } from "@/lib/push/client";
+
+/** Registers public/sw.js once per page load (offline shell + push) */
+export default function ServiceWorkerRegister() {
+  useEffect(() => {
+    registerServiceWorker();
+  }, []);
+  return null;
+}
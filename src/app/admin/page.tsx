@@ -0,0 +1,1066 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { supabase } from "@/lib/supabaseClient";
+import { ROLES, can, normRole, roleLabel, type Role } from "@/lib/roles";
+import { SHIFTS } from "@/lib/shifts";
+import { DEFAULT_CATEGORY_COLOR, type OptionKind, type OptionRow } from "@/lib/options";
+import type { Location } from "@/lib/locations";
+import type { HandoffTemplate } from "@/lib/handoffs/templates";
+import type { SupplyItem } from "@/lib/items";
+import { FIELD_TYPES, type FieldDef, type FieldType } from "@/lib/handoffs/fields";
+
+type AdminUser = {
+  user_id: string;
+  display_name: string | null;
+  email: string | null;
+  role: string;
+  shift: string | null;
+  active: boolean;
+};
+
+type AuditRow = {
+  id: string;
+  created_at: string;
+  actor_display_name_snapshot: string | null;
+  action: string;
+  target_type: string;
+  target_id: string | null;
+  before: unknown;
+  after: unknown;
+};
+
+const btn: React.CSSProperties = {
+  padding: "8px 12px",
+  borderRadius: 10,
+  border: "1px solid #333",
+  background: "transparent",
+  color: "#fff",
+  cursor: "pointer",
+  opacity: 0.95,
+  fontWeight: 800,
+};
+
+const input: React.CSSProperties = {
+  padding: "8px 10px",
+  borderRadius: 8,
+  border: "1px solid #333",
+  background: "transparent",
+  color: "#fff",
+};
+
+const section: React.CSSProperties = {
+  marginTop: 18,
+  padding: 14,
+  borderRadius: 12,
+  border: "1px solid #333",
+};
+
+const EMPTY_OPTION: OptionRow = {
+  value: "",
+  label: "",
+  color: DEFAULT_CATEGORY_COLOR,
+  sort_order: 100,
+  active: true,
+};
+
+const EMPTY_LOCATION: Location = {
+  code: "",
+  name: "",
+  building: null,
+  floor: null,
+  active: true,
+  sort_order: 100,
+};
+
+const EMPTY_TEMPLATE: HandoffTemplate = {
+  id: "",
+  name: "",
+  category: "",
+  summary: "",
+  priority: null,
+  location_code: null,
+  is_preset: false,
+  sort_order: 100,
+  active: true,
+};
+
+type ImportResult = {
+  dry_run: boolean;
+  upserted: number;
+  valid: number;
+  errors: { row: number; error: string }[];
+};
+
+function fmtTime(iso: string) {
+  try {
+    return new Date(iso).toLocaleString();
+  } catch {
+    return iso;
+  }
+}
+
+function auditDiff(before: unknown, after: unknown) {
+  const b = before && typeof before === "object" ? (before as Record<string, unknown>) : {};
+  const a = after && typeof after === "object" ? (after as Record<string, unknown>) : {};
+  return Object.keys(a)
+    .filter((k) => JSON.stringify(b[k]) !== JSON.stringify(a[k]))
+    .map((k) => `${k}: ${b[k] === undefined ? "—" : String(b[k])} → ${String(a[k])}`)
+    .join(", ");
+}
+
+export default function AdminPage() {
+  const router = useRouter();
+
+  const [loading, setLoading] = useState(true);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [toast, setToast] = useState<string | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const [myId, setMyId] = useState<string | null>(null);
+  const [role, setRole] = useState<Role>("tech");
+  const [users, setUsers] = useState<AdminUser[]>([]);
+  const [categories, setCategories] = useState<OptionRow[]>([]);
+  const [priorities, setPriorities] = useState<OptionRow[]>([]);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [locationDraft, setLocationDraft] = useState<Location>(EMPTY_LOCATION);
+  const [fieldsOpen, setFieldsOpen] = useState<string | null>(null); // category whose schema is expanded
+  const [templates, setTemplates] = useState<HandoffTemplate[]>([]);
+  const [templateDraft, setTemplateDraft] = useState<HandoffTemplate>(EMPTY_TEMPLATE);
+  const [items, setItems] = useState<SupplyItem[]>([]);
+  const [itemQuery, setItemQuery] = useState("");
+  const [itemCsv, setItemCsv] = useState("");
+  const [importResult, setImportResult] = useState<ImportResult | null>(null);
+  const [audit, setAudit] = useState<AuditRow[]>([]);
+  const [draft, setDraft] = useState<Record<OptionKind, OptionRow>>({
+    category: EMPTY_OPTION,
+    priority: EMPTY_OPTION,
+  });
+
+  async function authHeader() {
+    const { data: sess } = await supabase.auth.getSession();
+    const token = sess.session?.access_token;
+    return token ? { Authorization: `Bearer ${token}` } : null;
+  }
+
+  async function load() {
+    setLoading(true);
+    setErrorMsg(null);
+
+    const { data: sess } = await supabase.auth.getSession();
+    const uid = sess.session?.user?.id ?? null;
+    setMyId(uid);
+    if (!uid) {
+      setLoading(false);
+      router.push("/auth");
+      return;
+    }
+
+    const { data: prof } = await supabase
+      .from("profiles")
+      .select("role")
+      .eq("user_id", uid)
+      .maybeSingle();
+    const r = normRole(prof?.role);
+    setRole(r);
+
+    if (!can(r, "admin.users")) {
+      setLoading(false);
+      return;
+    }
+
+    const headers = await authHeader();
+    if (!headers) return;
+
+    const [ures, ores, lres, tres] = await Promise.all([
+      fetch("/api/admin/users", { headers }),
+      fetch("/api/admin/options", { headers }),
+      fetch("/api/admin/locations", { headers }),
+      fetch("/api/admin/templates", { headers }),
+    ]);
+    const uj = await ures.json().catch(() => ({}));
+    const oj = await ores.json().catch(() => ({}));
+    const lj = await lres.json().catch(() => ({}));
+    const tj = await tres.json().catch(() => ({}));
+
+    if (!ures.ok) setErrorMsg(uj?.error || "Failed to load users");
+    else setUsers(uj.users ?? []);
+
+    if (!ores.ok) setErrorMsg(oj?.error || "Failed to load options");
+    else {
+      setCategories(oj.categories ?? []);
+      setPriorities(oj.priorities ?? []);
+      setAudit(oj.audit ?? []);
+    }
+
+    if (!lres.ok) setErrorMsg(lj?.error || "Failed to load locations");
+    else setLocations(lj.locations ?? []);
+
+    if (!tres.ok) setErrorMsg(tj?.error || "Failed to load templates");
+    else setTemplates(tj.templates ?? []);
+
+    setLoading(false);
+  }
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  async function patchUser(user_id: string, patch: Partial<Pick<AdminUser, "role" | "shift" | "active">>) {
+    setErrorMsg(null);
+    const headers = await authHeader();
+    if (!headers) return;
+
+    setBusy(user_id);
+    const res = await fetch("/api/admin/users", {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify({ user_id, ...patch }),
+    });
+    const j = await res.json().catch(() => ({}));
+    setBusy(null);
+
+    if (!res.ok) {
+      setErrorMsg(j?.error || "Update failed");
+      return;
+    }
+
+    setToast("✅ User updated");
+    setTimeout(() => setToast(null), 1800);
+    await load();
+  }
+
+  async function saveOption(kind: OptionKind, row: OptionRow) {
+    setErrorMsg(null);
+    const headers = await authHeader();
+    if (!headers) return;
+
+    setBusy(`${kind}:${row.value}`);
+    const res = await fetch("/api/admin/options", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify({ kind, ...row }),
+    });
+    const j = await res.json().catch(() => ({}));
+    setBusy(null);
+
+    if (!res.ok) {
+      setErrorMsg(j?.error || "Save failed");
+      return;
+    }
+
+    setDraft((d) => ({ ...d, [kind]: EMPTY_OPTION }));
+    setToast(`✅ Saved ${kind} ${row.value}`);
+    setTimeout(() => setToast(null), 1800);
+    await load();
+  }
+
+  async function saveLocation(row: Location) {
+    setErrorMsg(null);
+    const headers = await authHeader();
+    if (!headers) return;
+
+    setBusy(`location:${row.code}`);
+    const res = await fetch("/api/admin/locations", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify(row),
+    });
+    const j = await res.json().catch(() => ({}));
+    setBusy(null);
+
+    if (!res.ok) {
+      setErrorMsg(j?.error || "Save failed");
+      return;
+    }
+
+    setLocationDraft(EMPTY_LOCATION);
+    setToast(`✅ Saved location ${j.location?.code ?? row.code}`);
+    setTimeout(() => setToast(null), 1800);
+    await load();
+  }
+
+  function editLocation(code: string, patch: Partial<Location>) {
+    setLocations((rows) => rows.map((r) => (r.code === code ? { ...r, ...patch } : r)));
+  }
+
+  function locationFields(row: Location, onChange: (patch: Partial<Location>) => void) {
+    return (
+      <>
+        <input
+          value={row.name}
+          onChange={(e) => onChange({ name: e.target.value })}
+          placeholder="Display name"
+          style={{ ...input, width: 180 }}
+        />
+        <input
+          value={row.building ?? ""}
+          onChange={(e) => onChange({ building: e.target.value })}
+          placeholder="Building"
+          style={{ ...input, width: 110 }}
+        />
+        <input
+          value={row.floor ?? ""}
+          onChange={(e) => onChange({ floor: e.target.value })}
+          placeholder="Floor"
+          style={{ ...input, width: 60 }}
+        />
+        <input
+          type="number"
+          value={row.sort_order}
+          onChange={(e) => onChange({ sort_order: Number(e.target.value) })}
+          style={{ ...input, width: 70 }}
+          title="Sort order"
+        />
+        <label style={{ fontSize: 12, opacity: 0.85 }}>
+          <input
+            type="checkbox"
+            checked={row.active}
+            onChange={(e) => onChange({ active: e.target.checked })}
+          />{" "}
+          Active
+        </label>
+      </>
+    );
+  }
+
+  async function saveTemplate(row: HandoffTemplate) {
+    setErrorMsg(null);
+    const headers = await authHeader();
+    if (!headers) return;
+
+    setBusy(`template:${row.id}`);
+    const res = await fetch("/api/admin/templates", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify({ ...row, id: row.id || undefined }),
+    });
+    const j = await res.json().catch(() => ({}));
+    setBusy(null);
+
+    if (!res.ok) {
+      setErrorMsg(j?.error || "Save failed");
+      return;
+    }
+
+    setTemplateDraft(EMPTY_TEMPLATE);
+    setToast(`✅ Saved template ${row.name}`);
+    setTimeout(() => setToast(null), 1800);
+    await load();
+  }
+
+  async function searchItems(q: string) {
+    const headers = await authHeader();
+    if (!headers) return;
+    const res = await fetch(`/api/admin/items?q=${encodeURIComponent(q)}`, { headers });
+    const j = await res.json().catch(() => ({}));
+    if (!res.ok) setErrorMsg(j?.error || "Failed to load items");
+    else setItems(j.items ?? []);
+  }
+
+  useEffect(() => {
+    if (!can(role, "admin.settings")) return;
+    const t = setTimeout(() => searchItems(itemQuery), 250);
+    return () => clearTimeout(t);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [itemQuery, role]);
+
+  async function saveItem(row: SupplyItem) {
+    setErrorMsg(null);
+    const headers = await authHeader();
+    if (!headers) return;
+
+    setBusy(`item:${row.id}`);
+    const res = await fetch("/api/admin/items", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify(row),
+    });
+    const j = await res.json().catch(() => ({}));
+    setBusy(null);
+
+    if (!res.ok) {
+      setErrorMsg(j?.error || "Save failed");
+      return;
+    }
+
+    setToast(`✅ Saved item ${row.sku}`);
+    setTimeout(() => setToast(null), 1800);
+    await searchItems(itemQuery);
+  }
+
+  async function importItems(dryRun: boolean) {
+    setErrorMsg(null);
+    setImportResult(null);
+    const headers = await authHeader();
+    if (!headers) return;
+
+    setBusy("items:import");
+    const res = await fetch(`/api/admin/items/import${dryRun ? "?dry_run=1" : ""}`, {
+      method: "POST",
+      headers: { "Content-Type": "text/csv", ...headers },
+      body: itemCsv,
+    });
+    const j = await res.json().catch(() => ({}));
+    setBusy(null);
+
+    if (!res.ok) {
+      setErrorMsg(j?.error || "Import failed");
+      return;
+    }
+
+    setImportResult(j);
+    if (!dryRun) {
+      setToast(`✅ Imported ${j.upserted} items`);
+      setTimeout(() => setToast(null), 1800);
+      await searchItems(itemQuery);
+    }
+  }
+
+  function editItem(id: string, patch: Partial<SupplyItem>) {
+    setItems((rows) => rows.map((r) => (r.id === id ? { ...r, ...patch } : r)));
+  }
+
+  function editTemplate(id: string, patch: Partial<HandoffTemplate>) {
+    setTemplates((rows) => rows.map((r) => (r.id === id ? { ...r, ...patch } : r)));
+  }
+
+  function templateFields(row: HandoffTemplate, onChange: (patch: Partial<HandoffTemplate>) => void) {
+    return (
+      <div style={{ display: "grid", gap: 6, flex: "1 1 520px" }}>
+        <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center" }}>
+          <input
+            value={row.name}
+            onChange={(e) => onChange({ name: e.target.value })}
+            placeholder="Name (e.g. Crash cart check)"
+            style={{ ...input, width: 190 }}
+          />
+          <select value={row.category} onChange={(e) => onChange({ category: e.target.value })} style={input}>
+            <option value="">Category…</option>
+            {categories.map((c) => (
+              <option key={c.value} value={c.value}>
+                {c.label}
+                {c.active ? "" : " (inactive)"}
+              </option>
+            ))}
+          </select>
+          <select
+            value={row.priority ?? ""}
+            onChange={(e) => onChange({ priority: e.target.value || null })}
+            style={input}
+          >
+            <option value="">Any priority</option>
+            {priorities.map((p) => (
+              <option key={p.value} value={p.value}>
+                {p.label}
+              </option>
+            ))}
+          </select>
+          <select
+            value={row.location_code ?? ""}
+            onChange={(e) => onChange({ location_code: e.target.value || null })}
+            style={input}
+          >
+            <option value="">Any location</option>
+            {locations.map((l) => (
+              <option key={l.code} value={l.code}>
+                {l.code} — {l.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center" }}>
+          <input
+            value={row.summary}
+            onChange={(e) => onChange({ summary: e.target.value })}
+            placeholder="Summary text"
+            style={{ ...input, flex: "1 1 300px" }}
+          />
+          <input
+            type="number"
+            value={row.sort_order}
+            onChange={(e) => onChange({ sort_order: Number(e.target.value) })}
+            style={{ ...input, width: 70 }}
+            title="Sort order"
+          />
+          <label style={{ fontSize: 12, opacity: 0.85 }}>
+            <input
+              type="checkbox"
+              checked={row.is_preset}
+              onChange={(e) => onChange({ is_preset: e.target.checked })}
+            />{" "}
+            One-tap preset
+          </label>
+          <label style={{ fontSize: 12, opacity: 0.85 }}>
+            <input
+              type="checkbox"
+              checked={row.active}
+              onChange={(e) => onChange({ active: e.target.checked })}
+            />{" "}
+            Active
+          </label>
+        </div>
+      </div>
+    );
+  }
+
+  function editOption(kind: OptionKind, value: string, patch: Partial<OptionRow>) {
+    const set = kind === "category" ? setCategories : setPriorities;
+    set((rows) => rows.map((r) => (r.value === value ? { ...r, ...patch } : r)));
+  }
+
+  function optionFields(row: OptionRow, onChange: (patch: Partial<OptionRow>) => void) {
+    return (
+      <>
+        <input
+          value={row.label}
+          onChange={(e) => onChange({ label: e.target.value })}
+          placeholder="Label"
+          style={{ ...input, width: 150 }}
+        />
+        <input
+          type="color"
+          value={row.color}
+          onChange={(e) => onChange({ color: e.target.value })}
+          style={{ width: 40, height: 34, border: "1px solid #333", background: "transparent" }}
+          title="Display color"
+        />
+        <input
+          type="number"
+          value={row.sort_order}
+          onChange={(e) => onChange({ sort_order: Number(e.target.value) })}
+          style={{ ...input, width: 70 }}
+          title="Sort order"
+        />
+        <label style={{ fontSize: 12, opacity: 0.85 }}>
+          <input
+            type="checkbox"
+            checked={row.active}
+            onChange={(e) => onChange({ active: e.target.checked })}
+          />{" "}
+          Active
+        </label>
+      </>
+    );
+  }
+
+  function fieldsEditor(fields: FieldDef[], onChange: (fields: FieldDef[]) => void) {
+    const set = (i: number, patch: Partial<FieldDef>) =>
+      onChange(fields.map((f, j) => (j === i ? { ...f, ...patch } : f)));
+    const num = (v: string) => (v.trim() === "" ? undefined : Number(v));
+
+    return (
+      <div style={{ flexBasis: "100%", display: "grid", gap: 6, padding: "8px 0 4px 148px" }}>
+        {fields.length === 0 && (
+          <div style={{ fontSize: 12, opacity: 0.7 }}>No structured fields — summary only.</div>
+        )}
+        {fields.map((f, i) => (
+          <div key={i} style={{ display: "flex", gap: 6, alignItems: "center", flexWrap: "wrap" }}>
+            <input
+              value={f.key}
+              onChange={(e) => set(i, { key: e.target.value })}
+              placeholder="key"
+              style={{ ...input, width: 110 }}
+            />
+            <input
+              value={f.label}
+              onChange={(e) => set(i, { label: e.target.value })}
+              placeholder="Label"
+              style={{ ...input, width: 130 }}
+            />
+            <select value={f.type} onChange={(e) => set(i, { type: e.target.value as FieldType })} style={input}>
+              {FIELD_TYPES.map((t) => (
+                <option key={t} value={t}>
+                  {t.replace(/_/g, " ")}
+                </option>
+              ))}
+            </select>
+            {f.type === "select" && (
+              <input
+                value={(f.options ?? []).join(",")}
+                onChange={(e) => set(i, { options: e.target.value.split(",") })}
+                placeholder="Options, comma separated"
+                style={{ ...input, width: 200 }}
+              />
+            )}
+            {f.type === "number" && (
+              <>
+                <input
+                  type="number"
+                  value={f.min ?? ""}
+                  onChange={(e) => set(i, { min: num(e.target.value) })}
+                  placeholder="min"
+                  style={{ ...input, width: 64 }}
+                />
+                <input
+                  type="number"
+                  value={f.max ?? ""}
+                  onChange={(e) => set(i, { max: num(e.target.value) })}
+                  placeholder="max"
+                  style={{ ...input, width: 64 }}
+                />
+                <input
+                  value={f.unit ?? ""}
+                  onChange={(e) => set(i, { unit: e.target.value })}
+                  placeholder="unit"
+                  style={{ ...input, width: 56 }}
+                />
+                <label style={{ fontSize: 12, opacity: 0.85 }}>
+                  <input
+                    type="checkbox"
+                    checked={!!f.integer}
+                    onChange={(e) => set(i, { integer: e.target.checked })}
+                  />{" "}
+                  Whole
+                </label>
+              </>
+            )}
+            <label style={{ fontSize: 12, opacity: 0.85 }}>
+              <input
+                type="checkbox"
+                checked={!!f.required}
+                onChange={(e) => set(i, { required: e.target.checked })}
+              />{" "}
+              Required
+            </label>
+            <button onClick={() => onChange(fields.filter((_, j) => j !== i))} style={{ ...btn, opacity: 0.7 }}>
+              ✕
+            </button>
+          </div>
+        ))}
+        <div>
+          <button
+            onClick={() => onChange([...fields, { key: "", label: "", type: "text" }])}
+            style={{ ...btn, opacity: 0.85 }}
+          >
+            + Field
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  function optionSection(kind: OptionKind, title: string, rows: OptionRow[]) {
+    const d = draft[kind];
+    return (
+      <div style={section}>
+        <h2 style={{ margin: 0, fontSize: 18 }}>{title}</h2>
+        <p style={{ opacity: 0.7, fontSize: 12, marginTop: 6 }}>
+          Values can’t be renamed or deleted once used — deactivate to hide them from the create form.
+        </p>
+
+        <div style={{ display: "grid", gap: 8, marginTop: 10 }}>
+          {rows.map((r) => (
+            <div key={r.value} style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+              <code style={{ width: 140, opacity: r.active ? 1 : 0.5 }}>{r.value}</code>
+              {optionFields(r, (patch) => editOption(kind, r.value, patch))}
+              {kind === "category" && (
+                <button
+                  onClick={() => setFieldsOpen((v) => (v === r.value ? null : r.value))}
+                  style={{ ...btn, opacity: 0.85 }}
+                >
+                  Fields ({r.fields?.length ?? 0})
+                </button>
+              )}
+              <button
+                onClick={() => saveOption(kind, r)}
+                disabled={busy === `${kind}:${r.value}`}
+                style={btn}
+              >
+                Save
+              </button>
+              {kind === "category" &&
+                fieldsOpen === r.value &&
+                fieldsEditor(r.fields ?? [], (fields) => editOption(kind, r.value, { fields }))}
+            </div>
+          ))}
+
+          <div
+            style={{
+              display: "flex",
+              gap: 8,
+              alignItems: "center",
+              flexWrap: "wrap",
+              borderTop: "1px solid #222",
+              paddingTop: 10,
+            }}
+          >
+            <input
+              value={d.value}
+              onChange={(e) => setDraft((x) => ({ ...x, [kind]: { ...d, value: e.target.value } }))}
+              placeholder="new_value"
+              style={{ ...input, width: 140 }}
+            />
+            {optionFields(d, (patch) => setDraft((x) => ({ ...x, [kind]: { ...d, ...patch } })))}
+            <button
+              onClick={() => saveOption(kind, { ...d, value: d.value.trim().toLowerCase() })}
+              disabled={!d.value.trim() || !d.label.trim()}
+              style={btn}
+            >
+              + Add
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <main style={{ minHeight: "100vh", padding: 16, fontFamily: "system-ui" }}>
+        <p style={{ opacity: 0.8 }}>Loading…</p>
+      </main>
+    );
+  }
+
+  return (
+    <main
+      style={{
+        minHeight: "100vh",
+        padding: 16,
+        fontFamily: "system-ui",
+        maxWidth: 980,
+        margin: "0 auto",
+      }}
+    >
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 10 }}>
+        <h1 style={{ margin: 0, fontSize: 26 }}>Admin</h1>
+        <button onClick={() => router.push("/")} style={btn}>
+          ← Feed
+        </button>
+      </div>
+
+      {toast && <div style={{ marginTop: 12, opacity: 0.9 }}>{toast}</div>}
+
+      {errorMsg && (
+        <div style={{ marginTop: 12, padding: 12, borderRadius: 12, border: "1px solid tomato" }}>
+          <b style={{ color: "tomato" }}>Error:</b> {errorMsg}
+        </div>
+      )}
+
+      {!can(role, "admin.users") ? (
+        <p style={{ marginTop: 14, opacity: 0.85 }}>
+          Admins only. Your role is <b>{roleLabel(role)}</b>.
+        </p>
+      ) : (
+        <>
+          {/* Users */}
+          <div style={section}>
+            <h2 style={{ margin: 0, fontSize: 18 }}>Users</h2>
+            <div style={{ display: "grid", gap: 8, marginTop: 10 }}>
+              {users.map((u) => {
+                const self = u.user_id === myId;
+                return (
+                  <div
+                    key={u.user_id}
+                    style={{
+                      display: "flex",
+                      gap: 8,
+                      alignItems: "center",
+                      flexWrap: "wrap",
+                      opacity: u.active ? 1 : 0.55,
+                    }}
+                  >
+                    <div style={{ width: 220, minWidth: 0 }}>
+                      <b>{u.display_name || "—"}</b>
+                      <div style={{ fontSize: 12, opacity: 0.7, overflow: "hidden", textOverflow: "ellipsis" }}>
+                        {u.email ?? u.user_id}
+                      </div>
+                    </div>
+
+                    <select
+                      value={normRole(u.role)}
+                      disabled={self || busy === u.user_id}
+                      onChange={(e) => patchUser(u.user_id, { role: e.target.value })}
+                      style={input}
+                      title={self ? "You can't change your own role" : "Role"}
+                    >
+                      {ROLES.map((r) => (
+                        <option key={r} value={r}>
+                          {roleLabel(r)}
+                        </option>
+                      ))}
+                    </select>
+
+                    <select
+                      value={u.shift ?? ""}
+                      disabled={busy === u.user_id}
+                      onChange={(e) => patchUser(u.user_id, { shift: e.target.value })}
+                      style={input}
+                      title="Shift"
+                    >
+                      {!u.shift && <option value="">—</option>}
+                      {SHIFTS.map((s) => (
+                        <option key={s} value={s}>
+                          {s}
+                        </option>
+                      ))}
+                    </select>
+
+                    <button
+                      onClick={() => patchUser(u.user_id, { active: !u.active })}
+                      disabled={self || busy === u.user_id}
+                      style={{ ...btn, opacity: self ? 0.4 : 0.95 }}
+                    >
+                      {u.active ? "Deactivate" : "Reactivate"}
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          {can(role, "admin.settings") && (
+            <>
+              {optionSection("category", "Categories", categories)}
+              {optionSection("priority", "Priorities", priorities)}
+
+              {/* Locations */}
+              <div style={section}>
+                <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 8 }}>
+                  <h2 style={{ margin: 0, fontSize: 18 }}>Locations</h2>
+                  <button onClick={() => router.push("/admin/qr")} style={btn}>
+                    QR sheet
+                  </button>
+                </div>
+                <p style={{ opacity: 0.7, fontSize: 12, marginTop: 6 }}>
+                  Codes can’t be renamed or deleted once used — deactivate to hide them from the picker.
+                </p>
+
+                <div style={{ display: "grid", gap: 8, marginTop: 10 }}>
+                  {locations.map((l) => (
+                    <div key={l.code} style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+                      <code style={{ width: 90, opacity: l.active ? 1 : 0.5 }}>{l.code}</code>
+                      {locationFields(l, (patch) => editLocation(l.code, patch))}
+                      <button
+                        onClick={() => saveLocation(l)}
+                        disabled={busy === `location:${l.code}`}
+                        style={btn}
+                      >
+                        Save
+                      </button>
+                      <button
+                        onClick={() => router.push(`/admin/qr?location=${encodeURIComponent(l.code)}`)}
+                        disabled={!l.active}
+                        style={{ ...btn, opacity: l.active ? 0.85 : 0.4 }}
+                      >
+                        QR
+                      </button>
+                    </div>
+                  ))}
+
+                  <div
+                    style={{
+                      display: "flex",
+                      gap: 8,
+                      alignItems: "center",
+                      flexWrap: "wrap",
+                      borderTop: "1px solid #222",
+                      paddingTop: 10,
+                    }}
+                  >
+                    <input
+                      value={locationDraft.code}
+                      onChange={(e) => setLocationDraft((d) => ({ ...d, code: e.target.value.toUpperCase() }))}
+                      placeholder="CODE"
+                      style={{ ...input, width: 90 }}
+                    />
+                    {locationFields(locationDraft, (patch) => setLocationDraft((d) => ({ ...d, ...patch })))}
+                    <button
+                      onClick={() => saveLocation(locationDraft)}
+                      disabled={!locationDraft.code.trim() || !locationDraft.name.trim()}
+                      style={btn}
+                    >
+                      + Add
+                    </button>
+                  </div>
+                </div>
+              </div>
+            </>
+          )}
+
+          {can(role, "admin.settings") && (
+            <div style={section}>
+              <h2 style={{ margin: 0, fontSize: 18 }}>Templates</h2>
+              <p style={{ opacity: 0.7, fontSize: 12, marginTop: 6 }}>
+                Templates prefill the create form for their category. One-tap presets create in a single step.
+              </p>
+
+              <div style={{ display: "grid", gap: 12, marginTop: 10 }}>
+                {templates.map((t) => (
+                  <div
+                    key={t.id}
+                    style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap", opacity: t.active ? 1 : 0.55 }}
+                  >
+                    {templateFields(t, (patch) => editTemplate(t.id, patch))}
+                    <button onClick={() => saveTemplate(t)} disabled={busy === `template:${t.id}`} style={btn}>
+                      Save
+                    </button>
+                  </div>
+                ))}
+
+                <div
+                  style={{
+                    display: "flex",
+                    gap: 8,
+                    alignItems: "center",
+                    flexWrap: "wrap",
+                    borderTop: "1px solid #222",
+                    paddingTop: 10,
+                  }}
+                >
+                  {templateFields(templateDraft, (patch) => setTemplateDraft((d) => ({ ...d, ...patch })))}
+                  <button
+                    onClick={() => saveTemplate(templateDraft)}
+                    disabled={!templateDraft.name.trim() || !templateDraft.category || !templateDraft.summary.trim()}
+                    style={btn}
+                  >
+                    + Add
+                  </button>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {can(role, "admin.settings") && (
+            <div style={section}>
+              <h2 style={{ margin: 0, fontSize: 18 }}>Supply items</h2>
+              <p style={{ opacity: 0.7, fontSize: 12, marginTop: 6 }}>
+                CSV header: <code>sku,description,uom,default_location,par_level,active</code> (sku and
+                description required). Rows upsert by SKU.
+              </p>
+
+              <div style={{ display: "grid", gap: 8, marginTop: 10 }}>
+                <input
+                  type="file"
+                  accept=".csv,text/csv"
+                  onChange={async (e) => {
+                    const f = e.target.files?.[0];
+                    if (f) setItemCsv(await f.text());
+                    setImportResult(null);
+                  }}
+                />
+                <textarea
+                  value={itemCsv}
+                  onChange={(e) => {
+                    setItemCsv(e.target.value);
+                    setImportResult(null);
+                  }}
+                  rows={4}
+                  placeholder={"sku,description,uom,default_location,par_level\n12345,Gauze 4x4 sterile,BX,CS,40"}
+                  style={{ ...input, fontFamily: "ui-monospace, monospace", fontSize: 12 }}
+                />
+                <div style={{ display: "flex", gap: 8 }}>
+                  <button
+                    onClick={() => importItems(true)}
+                    disabled={!itemCsv.trim() || busy === "items:import"}
+                    style={btn}
+                  >
+                    Check
+                  </button>
+                  <button
+                    onClick={() => importItems(false)}
+                    disabled={!itemCsv.trim() || busy === "items:import"}
+                    style={btn}
+                  >
+                    Import
+                  </button>
+                </div>
+                {importResult && (
+                  <div style={{ fontSize: 13 }}>
+                    {importResult.dry_run
+                      ? `${importResult.valid} valid rows`
+                      : `${importResult.upserted} rows imported`}
+                    {importResult.errors.length > 0 && `, ${importResult.errors.length} skipped:`}
+                    {importResult.errors.slice(0, 20).map((er, i) => (
+                      <div key={i} style={{ opacity: 0.8, fontSize: 12 }}>
+                        Row {er.row}: {er.error}
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                <input
+                  value={itemQuery}
+                  onChange={(e) => setItemQuery(e.target.value)}
+                  placeholder="Search SKU or description"
+                  style={{ ...input, marginTop: 8 }}
+                />
+                {items.map((it) => (
+                  <div key={it.id} style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+                    <code style={{ width: 110, opacity: it.active ? 1 : 0.5 }}>{it.sku}</code>
+                    <input
+                      value={it.description}
+                      onChange={(e) => editItem(it.id, { description: e.target.value })}
+                      style={{ ...input, width: 240 }}
+                    />
+                    <input
+                      value={it.uom}
+                      onChange={(e) => editItem(it.id, { uom: e.target.value.toUpperCase() })}
+                      style={{ ...input, width: 56 }}
+                      title="Unit of measure"
+                    />
+                    <select
+                      value={it.default_location_code ?? ""}
+                      onChange={(e) => editItem(it.id, { default_location_code: e.target.value || null })}
+                      style={input}
+                    >
+                      <option value="">No home location</option>
+                      {locations.map((l) => (
+                        <option key={l.code} value={l.code}>
+                          {l.code}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      value={it.par_level ?? ""}
+                      onChange={(e) =>
+                        editItem(it.id, { par_level: e.target.value === "" ? null : Number(e.target.value) })
+                      }
+                      placeholder="par"
+                      style={{ ...input, width: 70 }}
+                      title="Par level"
+                    />
+                    <label style={{ fontSize: 12, opacity: 0.85 }}>
+                      <input
+                        type="checkbox"
+                        checked={it.active}
+                        onChange={(e) => editItem(it.id, { active: e.target.checked })}
+                      />{" "}
+                      Active
+                    </label>
+                    <button onClick={() => saveItem(it)} disabled={busy === `item:${it.id}`} style={btn}>
+                      Save
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Audit */}
+          <div style={section}>
+            <h2 style={{ margin: 0, fontSize: 18 }}>Recent admin changes</h2>
+            {audit.length === 0 ? (
+              <p style={{ opacity: 0.7, fontSize: 13 }}>No admin changes yet.</p>
+            ) : (
+              <div style={{ display: "grid", gap: 6, marginTop: 10, fontSize: 13 }}>
+                {audit.map((a) => (
+                  <div key={a.id} style={{ opacity: 0.9 }}>
+                    <span style={{ opacity: 0.65 }}>{fmtTime(a.created_at)}</span> ·{" "}
+                    <b>{a.actor_display_name_snapshot ?? "—"}</b> · <code>{a.action}</code>{" "}
+                    {a.target_id ? <code>{a.target_id}</code> : null}
+                    <div style={{ opacity: 0.7, fontSize: 12 }}>{auditDiff(a.before, a.after)}</div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </main>
+  );
+}
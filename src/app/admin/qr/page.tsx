@@ -0,0 +1,233 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import QRCode from "qrcode";
+import { supabase } from "@/lib/supabaseClient";
+import { can, normRole, type Role } from "@/lib/roles";
+import { LOCATION_COLUMNS, locationDetail, type Location } from "@/lib/locations";
+import { appOrigin, buildCreateUrl } from "@/lib/handoffs/prefill";
+
+/**
+ * Printable QR sheet: one sticker per location, each deep-linking to
+ * /create?location=...(&category=&priority=). Codes are rendered in the
+ * browser with the qrcode package — nothing leaves the device.
+ * ?location=ICU3 limits the sheet to one location.
+ */
+
+type Sticker = { location: Location; url: string; dataUrl: string };
+
+const btn: React.CSSProperties = {
+  padding: "8px 12px",
+  borderRadius: 10,
+  border: "1px solid #333",
+  background: "transparent",
+  color: "#fff",
+  cursor: "pointer",
+  opacity: 0.95,
+  fontWeight: 800,
+};
+
+const input: React.CSSProperties = {
+  padding: "8px 10px",
+  borderRadius: 8,
+  border: "1px solid #333",
+  background: "transparent",
+  color: "#fff",
+};
+
+function labelEnum(s: string) {
+  return s.replace(/_/g, " ");
+}
+
+export default function QrSheetPage() {
+  const router = useRouter();
+
+  const [loading, setLoading] = useState(true);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [role, setRole] = useState<Role>("tech");
+
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [onlyCode, setOnlyCode] = useState<string | null>(null);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [priorities, setPriorities] = useState<string[]>([]);
+  const [category, setCategory] = useState("");
+  const [priority, setPriority] = useState("");
+  const [stickers, setStickers] = useState<Sticker[]>([]);
+
+  useEffect(() => {
+    (async () => {
+      const { data: sess } = await supabase.auth.getSession();
+      const uid = sess.session?.user?.id;
+      if (!uid) {
+        router.push("/auth");
+        return;
+      }
+
+      const { data: prof } = await supabase
+        .from("profiles")
+        .select("role")
+        .eq("user_id", uid)
+        .maybeSingle();
+      setRole(normRole(prof?.role));
+
+      const [locs, cat, pri] = await Promise.all([
+        supabase
+          .from("locations")
+          .select(LOCATION_COLUMNS)
+          .eq("active", true)
+          .order("sort_order")
+          .order("code"),
+        supabase.rpc("get_cs_category_enum"),
+        supabase.rpc("get_cs_priority_enum"),
+      ]);
+
+      if (locs.error) setErrorMsg(locs.error.message);
+      setLocations((locs.data ?? []) as Location[]);
+      if (!cat.error) setCategories(((cat.data ?? []) as unknown[]).map((x) => String(x)));
+      if (!pri.error) setPriorities(((pri.data ?? []) as unknown[]).map((x) => String(x)));
+
+      setOnlyCode(new URLSearchParams(window.location.search).get("location"));
+      setLoading(false);
+    })();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const selected = useMemo(
+    () => (onlyCode ? locations.filter((l) => l.code === onlyCode) : locations),
+    [locations, onlyCode]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    const origin = appOrigin();
+
+    Promise.all(
+      selected.map(async (location) => {
+        const url = buildCreateUrl(origin, {
+          location: location.code,
+          category: category || undefined,
+          priority: priority || undefined,
+        });
+        const dataUrl = await QRCode.toDataURL(url, { errorCorrectionLevel: "M", margin: 1, width: 320 });
+        return { location, url, dataUrl };
+      })
+    )
+      .then((s) => {
+        if (!cancelled) setStickers(s);
+      })
+      .catch((e) => setErrorMsg(e instanceof Error ? e.message : "QR generation failed"));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selected, category, priority]);
+
+  if (loading) {
+    return (
+      <main style={{ minHeight: "100vh", padding: 16, fontFamily: "system-ui" }}>
+        <p style={{ opacity: 0.8 }}>Loading…</p>
+      </main>
+    );
+  }
+
+  return (
+    <main style={{ minHeight: "100vh", padding: 16, fontFamily: "system-ui", maxWidth: 980, margin: "0 auto" }}>
+      <style>{`
+        @media print {
+          .cs-no-print { display: none !important; }
+          body { background: #fff !important; color: #000 !important; }
+          .cs-sticker { border: 1px dashed #999 !important; color: #000 !important; break-inside: avoid; }
+        }
+      `}</style>
+
+      <div className="cs-no-print">
+        <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 10 }}>
+          <h1 style={{ margin: 0, fontSize: 26 }}>Location QR codes</h1>
+          <button onClick={() => router.push("/admin")} style={btn}>
+            ← Admin
+          </button>
+        </div>
+
+        {errorMsg && (
+          <div style={{ marginTop: 12, padding: 12, borderRadius: 12, border: "1px solid tomato" }}>
+            <b style={{ color: "tomato" }}>Error:</b> {errorMsg}
+          </div>
+        )}
+
+        {!can(role, "admin.settings") ? (
+          <p style={{ marginTop: 14, opacity: 0.85 }}>Admins only.</p>
+        ) : (
+          <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center", marginTop: 14 }}>
+            <select value={onlyCode ?? ""} onChange={(e) => setOnlyCode(e.target.value || null)} style={input}>
+              <option value="">All active locations</option>
+              {locations.map((l) => (
+                <option key={l.code} value={l.code}>
+                  {l.code} — {l.name}
+                </option>
+              ))}
+            </select>
+            <select value={category} onChange={(e) => setCategory(e.target.value)} style={input}>
+              <option value="">Any category</option>
+              {categories.map((c) => (
+                <option key={c} value={c}>
+                  {labelEnum(c)}
+                </option>
+              ))}
+            </select>
+            <select value={priority} onChange={(e) => setPriority(e.target.value)} style={input}>
+              <option value="">Any priority</option>
+              {priorities.map((p) => (
+                <option key={p} value={p}>
+                  {labelEnum(p)}
+                </option>
+              ))}
+            </select>
+            <button onClick={() => window.print()} style={btn} disabled={stickers.length === 0}>
+              🖨 Print
+            </button>
+          </div>
+        )}
+      </div>
+
+      {can(role, "admin.settings") && (
+        <div
+          style={{
+            display: "grid",
+            gridTemplateColumns: "repeat(auto-fill, minmax(220px, 1fr))",
+            gap: 12,
+            marginTop: 18,
+          }}
+        >
+          {stickers.map((s) => (
+            <div
+              key={s.location.code}
+              className="cs-sticker"
+              style={{ border: "1px solid #333", borderRadius: 12, padding: 12, textAlign: "center" }}
+            >
+              <div style={{ fontWeight: 900, fontSize: 18 }}>{s.location.name}</div>
+              <div style={{ fontSize: 12, opacity: 0.75 }}>
+                {[s.location.code, locationDetail(s.location)].filter(Boolean).join(" · ")}
+              </div>
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img
+                src={s.dataUrl}
+                alt={`QR code for ${s.location.code}`}
+                style={{ width: "100%", maxWidth: 200, marginTop: 8, background: "#fff", borderRadius: 6 }}
+              />
+              <div style={{ fontWeight: 800, marginTop: 6 }}>Scan to report a supply issue</div>
+              {(category || priority) && (
+                <div style={{ fontSize: 12, opacity: 0.75 }}>
+                  {[category && labelEnum(category), priority && `${labelEnum(priority)} priority`]
+                    .filter(Boolean)
+                    .join(" · ")}
+                </div>
+              )}
+              <div style={{ fontSize: 10, opacity: 0.6, marginTop: 4, wordBreak: "break-all" }}>{s.url}</div>
+            </div>
+          ))}
+        </div>
+      )}
+    </main>
+  );
+}
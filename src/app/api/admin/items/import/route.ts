@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { getActorDisplay, getBearerUser, requirePermission } from "@/lib/serverAuth";
+import { writeAdminAudit } from "@/lib/admin/audit";
+import { parseItemCsv } from "@/lib/items";
+
+/**
+ * /api/admin/items/import
+ * POST text/csv body (or JSON { csv }) — upserts catalog rows by SKU.
+ * Columns: sku, description, uom, default_location, par_level, active; only
+ * the columns in the header are written, so existing rows keep the rest.
+ * Invalid lines and unknown locations are reported per line and skipped;
+ * ?dry_run=1 validates without writing. One admin_audit row per import.
+ */
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl) throw new Error("Missing NEXT_PUBLIC_SUPABASE_URL");
+if (!anonKey) throw new Error("Missing NEXT_PUBLIC_SUPABASE_ANON_KEY");
+if (!serviceKey) throw new Error("Missing SUPABASE_SERVICE_ROLE_KEY");
+
+const supabaseService = createClient(supabaseUrl, serviceKey);
+const supabaseAnon = createClient(supabaseUrl, anonKey);
+
+const MAX_BYTES = 2 * 1024 * 1024;
+const BATCH = 500;
+
+export async function POST(req: NextRequest) {
+  try {
+    const auth = await getBearerUser(req, supabaseAnon);
+    if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+
+    const perm = await requirePermission(supabaseService, auth.user, "admin.settings");
+    if (!perm.ok) return NextResponse.json({ error: perm.error }, { status: perm.status });
+
+    const isJson = (req.headers.get("content-type") || "").includes("application/json");
+    const text = isJson ? String((await req.json())?.csv ?? "") : await req.text();
+    if (!text.trim()) return NextResponse.json({ error: "CSV required" }, { status: 400 });
+    if (Buffer.byteLength(text, "utf8") > MAX_BYTES)
+      return NextResponse.json({ error: "CSV too large (max 2 MB)" }, { status: 413 });
+
+    // Default locations must exist in the registry
+    const { data: locs, error: locErr } = await supabaseService.from("locations").select("code");
+    if (locErr) throw locErr;
+    const parsed = parseItemCsv(text, new Set((locs ?? []).map((l) => l.code as string)));
+    const items = parsed.items;
+
+    const dryRun = req.nextUrl.searchParams.get("dry_run") === "1";
+    if (!dryRun && items.length > 0) {
+      const now = new Date().toISOString();
+      for (let i = 0; i < items.length; i += BATCH) {
+        const { error } = await supabaseService
+          .from("supply_items")
+          .upsert(items.slice(i, i + BATCH).map((it) => ({ ...it, updated_at: now })), { onConflict: "sku" });
+        if (error) throw error;
+      }
+
+      await writeAdminAudit(supabaseService, {
+        actor_user_id: auth.user.id,
+        actor_display_name_snapshot: await getActorDisplay(supabaseService, auth.user),
+        action: "item.import",
+        target_type: "item",
+        after: { upserted: items.length, skipped: parsed.errors.length },
+      });
+    }
+
+    return NextResponse.json({
+      ok: true,
+      dry_run: dryRun,
+      upserted: dryRun ? 0 : items.length,
+      valid: items.length,
+      errors: parsed.errors,
+    });
+  } catch (e) {
+    console.error("ADMIN ITEMS IMPORT ERROR:", e);
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "Server error" },
+      { status: 500 }
+    );
+  }
+}
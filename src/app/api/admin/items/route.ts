@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { getActorDisplay, getBearerUser, requirePermission } from "@/lib/serverAuth";
+import { writeAdminAudit } from "@/lib/admin/audit";
+import { ITEM_COLUMNS, validateItemInput } from "@/lib/items";
+
+/**
+ * /api/admin/items
+ * GET — catalog (inactive included), ?q= filters by SKU/description.
+ * POST { sku, description, uom?, default_location_code?, par_level?, active? }
+ * creates or updates one item by SKU (admin only, audited); optional fields
+ * left out of the body keep their stored values.
+ * Bulk loads go through /api/admin/items/import.
+ */
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl) throw new Error("Missing NEXT_PUBLIC_SUPABASE_URL");
+if (!anonKey) throw new Error("Missing NEXT_PUBLIC_SUPABASE_ANON_KEY");
+if (!serviceKey) throw new Error("Missing SUPABASE_SERVICE_ROLE_KEY");
+
+const supabaseService = createClient(supabaseUrl, serviceKey);
+const supabaseAnon = createClient(supabaseUrl, anonKey);
+
+async function authorize(req: NextRequest) {
+  const auth = await getBearerUser(req, supabaseAnon);
+  if (!auth.ok) return { ok: false as const, res: NextResponse.json({ error: auth.error }, { status: auth.status }) };
+
+  const perm = await requirePermission(supabaseService, auth.user, "admin.settings");
+  if (!perm.ok) return { ok: false as const, res: NextResponse.json({ error: perm.error }, { status: perm.status }) };
+
+  return { ok: true as const, user: auth.user };
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const a = await authorize(req);
+    if (!a.ok) return a.res;
+
+    const q = (req.nextUrl.searchParams.get("q") || "").trim().replace(/[%,()]/g, "");
+    let query = supabaseService.from("supply_items").select(ITEM_COLUMNS).order("sku").limit(200);
+    if (q) query = query.or(`sku.ilike.%${q}%,description.ilike.%${q}%`);
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    return NextResponse.json({ ok: true, items: data ?? [] });
+  } catch (e) {
+    console.error("ADMIN ITEMS ERROR:", e);
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "Server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const a = await authorize(req);
+    if (!a.ok) return a.res;
+
+    const checked = validateItemInput((await req.json()) ?? {});
+    if (!checked.ok) return NextResponse.json({ error: checked.error }, { status: 400 });
+    const row = checked.item;
+
+    if (row.default_location_code) {
+      const { data: loc, error: locErr } = await supabaseService
+        .from("locations")
+        .select("code")
+        .eq("code", row.default_location_code)
+        .maybeSingle();
+      if (locErr) throw locErr;
+      if (!loc)
+        return NextResponse.json({ error: `Unknown location: ${row.default_location_code}` }, { status: 400 });
+    }
+
+    const { data: before, error: beforeErr } = await supabaseService
+      .from("supply_items")
+      .select(ITEM_COLUMNS)
+      .eq("sku", row.sku)
+      .maybeSingle();
+    if (beforeErr) throw beforeErr;
+
+    const { data: saved, error: upErr } = await supabaseService
+      .from("supply_items")
+      .upsert({ ...row, updated_at: new Date().toISOString() }, { onConflict: "sku" })
+      .select(ITEM_COLUMNS)
+      .single();
+    if (upErr) throw upErr;
+
+    await writeAdminAudit(supabaseService, {
+      actor_user_id: a.user.id,
+      actor_display_name_snapshot: await getActorDisplay(supabaseService, a.user),
+      action: before ? "item.update" : "item.create",
+      target_type: "item",
+      target_id: row.sku,
+      before,
+      after: row,
+    });
+
+    return NextResponse.json({ ok: true, item: saved });
+  } catch (e) {
+    console.error("ADMIN ITEMS ERROR:", e);
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "Server error" },
+      { status: 500 }
+    );
+  }
+}
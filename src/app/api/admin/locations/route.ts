@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { getActorDisplay, getBearerUser, requirePermission } from "@/lib/serverAuth";
+import { writeAdminAudit } from "@/lib/admin/audit";
+import { LOCATION_CODE_RE, LOCATION_COLUMNS, normLocationCode } from "@/lib/locations";
+
+/**
+ * /api/admin/locations
+ * GET — every location (inactive included).
+ * POST { code, name, building?, floor?, sort_order?, active? } creates or
+ * updates one location (admin only, audited). Codes are never deleted —
+ * deactivate instead so old handoffs keep their reference.
+ */
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl) throw new Error("Missing NEXT_PUBLIC_SUPABASE_URL");
+if (!anonKey) throw new Error("Missing NEXT_PUBLIC_SUPABASE_ANON_KEY");
+if (!serviceKey) throw new Error("Missing SUPABASE_SERVICE_ROLE_KEY");
+
+const supabaseService = createClient(supabaseUrl, serviceKey);
+const supabaseAnon = createClient(supabaseUrl, anonKey);
+
+async function authorize(req: NextRequest) {
+  const auth = await getBearerUser(req, supabaseAnon);
+  if (!auth.ok) return { ok: false as const, res: NextResponse.json({ error: auth.error }, { status: auth.status }) };
+
+  const perm = await requirePermission(supabaseService, auth.user, "admin.settings");
+  if (!perm.ok) return { ok: false as const, res: NextResponse.json({ error: perm.error }, { status: perm.status }) };
+
+  return { ok: true as const, user: auth.user };
+}
+
+function optText(v: unknown, max: number) {
+  const s = String(v ?? "").trim();
+  return s ? s.slice(0, max) : null;
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const a = await authorize(req);
+    if (!a.ok) return a.res;
+
+    const { data, error } = await supabaseService
+      .from("locations")
+      .select(LOCATION_COLUMNS)
+      .order("sort_order")
+      .order("code");
+    if (error) throw error;
+
+    return NextResponse.json({ ok: true, locations: data ?? [] });
+  } catch (e) {
+    console.error("ADMIN LOCATIONS ERROR:", e);
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "Server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const a = await authorize(req);
+    if (!a.ok) return a.res;
+
+    const body = await req.json();
+    const code = normLocationCode(body?.code);
+    const name = String(body?.name ?? "").trim();
+    const sortOrder = body?.sort_order === undefined ? 100 : Number(body.sort_order);
+    const active = body?.active === undefined ? true : body.active;
+
+    if (!LOCATION_CODE_RE.test(code))
+      return NextResponse.json(
+        { error: "code must be 1–16 chars: letters, digits, - or _" },
+        { status: 400 }
+      );
+    if (!name || name.length > 80)
+      return NextResponse.json({ error: "name required (max 80 chars)" }, { status: 400 });
+    if (!Number.isInteger(sortOrder))
+      return NextResponse.json({ error: "sort_order must be an integer" }, { status: 400 });
+    if (typeof active !== "boolean")
+      return NextResponse.json({ error: "active must be true or false" }, { status: 400 });
+
+    const { data: before, error: beforeErr } = await supabaseService
+      .from("locations")
+      .select(LOCATION_COLUMNS)
+      .eq("code", code)
+      .maybeSingle();
+    if (beforeErr) throw beforeErr;
+
+    const row = {
+      code,
+      name,
+      building: optText(body?.building, 60),
+      floor: optText(body?.floor, 20),
+      sort_order: sortOrder,
+      active,
+    };
+    const { error: upErr } = await supabaseService
+      .from("locations")
+      .upsert({ ...row, updated_at: new Date().toISOString() }, { onConflict: "code" });
+    if (upErr) throw upErr;
+
+    await writeAdminAudit(supabaseService, {
+      actor_user_id: a.user.id,
+      actor_display_name_snapshot: await getActorDisplay(supabaseService, a.user),
+      action: before ? "location.update" : "location.create",
+      target_type: "location",
+      target_id: code,
+      before,
+      after: row,
+    });
+
+    return NextResponse.json({ ok: true, location: row });
+  } catch (e) {
+    console.error("ADMIN LOCATIONS ERROR:", e);
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "Server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,163 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { getActorDisplay, getBearerUser, requirePermission } from "@/lib/serverAuth";
+import { writeAdminAudit } from "@/lib/admin/audit";
+import { OPTION_TABLES, isHexColor, type OptionKind } from "@/lib/options";
+import { parseFieldSchema } from "@/lib/handoffs/fields";
+
+/**
+ * /api/admin/options
+ * GET — all categories + priorities (inactive included) and recent admin_audit.
+ * POST { kind: "category"|"priority", value, label?, color?, sort_order?, active?,
+ * fields? } creates or updates one option (admin only, audited). Creates need
+ * label and color; on update every omitted column stays as stored. `fields`
+ * is the category's structured-field schema. Values are never
+ * deleted — deactivate instead so old handoffs keep their reference.
+ */
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl) throw new Error("Missing NEXT_PUBLIC_SUPABASE_URL");
+if (!anonKey) throw new Error("Missing NEXT_PUBLIC_SUPABASE_ANON_KEY");
+if (!serviceKey) throw new Error("Missing SUPABASE_SERVICE_ROLE_KEY");
+
+const supabaseService = createClient(supabaseUrl, serviceKey);
+const supabaseAnon = createClient(supabaseUrl, anonKey);
+
+const OPTION_COLUMNS = "value, label, color, sort_order, active";
+const CATEGORY_COLUMNS = `${OPTION_COLUMNS}, fields`;
+
+async function authorize(req: NextRequest) {
+  const auth = await getBearerUser(req, supabaseAnon);
+  if (!auth.ok) return { ok: false as const, res: NextResponse.json({ error: auth.error }, { status: auth.status }) };
+
+  const perm = await requirePermission(supabaseService, auth.user, "admin.settings");
+  if (!perm.ok) return { ok: false as const, res: NextResponse.json({ error: perm.error }, { status: perm.status }) };
+
+  return { ok: true as const, user: auth.user };
+}
+
+function isOptionKind(v: unknown): v is OptionKind {
+  return v === "category" || v === "priority";
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const a = await authorize(req);
+    if (!a.ok) return a.res;
+
+    const [cats, pris, audit] = await Promise.all([
+      supabaseService.from("cs_categories").select(CATEGORY_COLUMNS).order("sort_order").order("value"),
+      supabaseService.from("cs_priorities").select(OPTION_COLUMNS).order("sort_order").order("value"),
+      supabaseService
+        .from("admin_audit")
+        .select("id, created_at, actor_display_name_snapshot, action, target_type, target_id, before, after")
+        .order("created_at", { ascending: false })
+        .limit(50),
+    ]);
+    if (cats.error) throw cats.error;
+    if (pris.error) throw pris.error;
+    if (audit.error) throw audit.error;
+
+    return NextResponse.json({
+      ok: true,
+      categories: cats.data ?? [],
+      priorities: pris.data ?? [],
+      audit: audit.data ?? [],
+    });
+  } catch (e) {
+    console.error("ADMIN OPTIONS ERROR:", e);
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "Server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const a = await authorize(req);
+    if (!a.ok) return a.res;
+
+    const body = await req.json();
+    const kind = body?.kind;
+    const value = String(body?.value ?? "").trim().toLowerCase();
+
+    if (!isOptionKind(kind))
+      return NextResponse.json({ error: "kind must be category or priority" }, { status: 400 });
+    if (!/^[a-z][a-z0-9_]{1,39}$/.test(value))
+      return NextResponse.json(
+        { error: "value must be 2–40 chars: lowercase letters, digits, underscore" },
+        { status: 400 }
+      );
+
+    const table = OPTION_TABLES[kind];
+    const { data: before, error: beforeErr } = await supabaseService
+      .from(table)
+      .select(kind === "category" ? CATEGORY_COLUMNS : OPTION_COLUMNS)
+      .eq("value", value)
+      .maybeSingle();
+    if (beforeErr) throw beforeErr;
+
+    // Updates only touch the columns sent; creates need label + color
+    const patch: Record<string, unknown> = {};
+
+    if (body?.label !== undefined || !before) {
+      const label = String(body?.label ?? "").trim();
+      if (!label || label.length > 60)
+        return NextResponse.json({ error: "label required (max 60 chars)" }, { status: 400 });
+      patch.label = label;
+    }
+    if (body?.color !== undefined || !before) {
+      const color = String(body?.color ?? "").trim();
+      if (!isHexColor(color))
+        return NextResponse.json({ error: "color must be #rrggbb" }, { status: 400 });
+      patch.color = color;
+    }
+    if (body?.sort_order !== undefined) {
+      const sortOrder = Number(body.sort_order);
+      if (!Number.isInteger(sortOrder))
+        return NextResponse.json({ error: "sort_order must be an integer" }, { status: 400 });
+      patch.sort_order = sortOrder;
+    }
+    if (body?.active !== undefined) {
+      if (typeof body.active !== "boolean")
+        return NextResponse.json({ error: "active must be true or false" }, { status: 400 });
+      patch.active = body.active;
+    }
+    if (body?.fields !== undefined) {
+      if (kind !== "category")
+        return NextResponse.json({ error: "Only categories have fields" }, { status: 400 });
+      const schema = parseFieldSchema(body.fields);
+      if (!schema.ok) return NextResponse.json({ error: schema.error }, { status: 400 });
+      patch.fields = schema.fields;
+    }
+
+    const columns = kind === "category" ? CATEGORY_COLUMNS : OPTION_COLUMNS;
+    const updated_at = new Date().toISOString();
+    const { data: row, error: upErr } = before
+      ? await supabaseService.from(table).update({ ...patch, updated_at }).eq("value", value).select(columns).single()
+      : await supabaseService.from(table).insert({ value, ...patch, updated_at }).select(columns).single();
+    if (upErr) throw upErr;
+
+    await writeAdminAudit(supabaseService, {
+      actor_user_id: a.user.id,
+      actor_display_name_snapshot: await getActorDisplay(supabaseService, a.user),
+      action: before ? `${kind}.update` : `${kind}.create`,
+      target_type: kind,
+      target_id: value,
+      before,
+      after: row,
+    });
+
+    return NextResponse.json({ ok: true, kind, option: row });
+  } catch (e) {
+    console.error("ADMIN OPTIONS ERROR:", e);
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "Server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { getActorDisplay, getBearerUser, requirePermission } from "@/lib/serverAuth";
+import { writeAdminAudit } from "@/lib/admin/audit";
+import { describePhi, screenPhi } from "@/lib/phi";
+import { normLocationCode } from "@/lib/locations";
+import { TEMPLATE_COLUMNS } from "@/lib/handoffs/templates";
+
+/**
+ * /api/admin/templates
+ * GET — every template (inactive included).
+ * POST { id?, name, category, summary, priority?, location_code?, is_preset?,
+ * sort_order?, active? } creates (no id) or updates a template (admin only,
+ * audited). Category/priority/location must exist in their registries.
+ */
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl) throw new Error("Missing NEXT_PUBLIC_SUPABASE_URL");
+if (!anonKey) throw new Error("Missing NEXT_PUBLIC_SUPABASE_ANON_KEY");
+if (!serviceKey) throw new Error("Missing SUPABASE_SERVICE_ROLE_KEY");
+
+const supabaseService = createClient(supabaseUrl, serviceKey);
+const supabaseAnon = createClient(supabaseUrl, anonKey);
+
+async function authorize(req: NextRequest) {
+  const auth = await getBearerUser(req, supabaseAnon);
+  if (!auth.ok) return { ok: false as const, res: NextResponse.json({ error: auth.error }, { status: auth.status }) };
+
+  const perm = await requirePermission(supabaseService, auth.user, "admin.settings");
+  if (!perm.ok) return { ok: false as const, res: NextResponse.json({ error: perm.error }, { status: perm.status }) };
+
+  return { ok: true as const, user: auth.user };
+}
+
+async function exists(table: string, column: string, value: string) {
+  const { data, error } = await supabaseService.from(table).select(column).eq(column, value).maybeSingle();
+  if (error) throw error;
+  return !!data;
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const a = await authorize(req);
+    if (!a.ok) return a.res;
+
+    const { data, error } = await supabaseService
+      .from("handoff_templates")
+      .select(TEMPLATE_COLUMNS)
+      .order("category")
+      .order("sort_order")
+      .order("name");
+    if (error) throw error;
+
+    return NextResponse.json({ ok: true, templates: data ?? [] });
+  } catch (e) {
+    console.error("ADMIN TEMPLATES ERROR:", e);
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "Server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const a = await authorize(req);
+    if (!a.ok) return a.res;
+
+    const body = await req.json();
+    const id = typeof body?.id === "string" && body.id ? body.id : null;
+    const name = String(body?.name ?? "").trim();
+    const category = String(body?.category ?? "").trim();
+    const summary = String(body?.summary ?? "").trim();
+    const priority = String(body?.priority ?? "").trim().toLowerCase() || null;
+    const location_code = normLocationCode(body?.location_code) || null;
+    const is_preset = body?.is_preset === undefined ? false : body.is_preset;
+    const sortOrder = body?.sort_order === undefined ? 100 : Number(body.sort_order);
+    const active = body?.active === undefined ? true : body.active;
+
+    if (name.length < 2 || name.length > 40)
+      return NextResponse.json({ error: "name must be 2–40 characters" }, { status: 400 });
+    if (summary.length < 5 || summary.length > 500)
+      return NextResponse.json({ error: "summary must be 5–500 characters" }, { status: 400 });
+    if (typeof is_preset !== "boolean" || typeof active !== "boolean")
+      return NextResponse.json({ error: "is_preset and active must be true or false" }, { status: 400 });
+    if (!Number.isInteger(sortOrder))
+      return NextResponse.json({ error: "sort_order must be an integer" }, { status: 400 });
+
+    // Templates are reused verbatim, so PHI is always rejected (no redact mode)
+    const phi = screenPhi(summary);
+    if (phi.length > 0)
+      return NextResponse.json(
+        { error: `Template looks like it contains PHI (${describePhi(phi)}).` },
+        { status: 422 }
+      );
+
+    if (!(await exists("cs_categories", "value", category)))
+      return NextResponse.json({ error: `Unknown category: ${category || "(empty)"}` }, { status: 400 });
+    if (priority && !(await exists("cs_priorities", "value", priority)))
+      return NextResponse.json({ error: `Unknown priority: ${priority}` }, { status: 400 });
+    if (location_code && !(await exists("locations", "code", location_code)))
+      return NextResponse.json({ error: `Unknown location: ${location_code}` }, { status: 400 });
+
+    let before: unknown = null;
+    if (id) {
+      const { data, error } = await supabaseService
+        .from("handoff_templates")
+        .select(TEMPLATE_COLUMNS)
+        .eq("id", id)
+        .maybeSingle();
+      if (error) throw error;
+      if (!data) return NextResponse.json({ error: "Template not found" }, { status: 404 });
+      before = data;
+    }
+
+    const row = { name, category, summary, priority, location_code, is_preset, sort_order: sortOrder, active };
+    const q = id
+      ? supabaseService
+          .from("handoff_templates")
+          .update({ ...row, updated_at: new Date().toISOString() })
+          .eq("id", id)
+      : supabaseService.from("handoff_templates").insert(row);
+    const { data: saved, error: saveErr } = await q.select(TEMPLATE_COLUMNS).single();
+    if (saveErr) throw saveErr;
+
+    await writeAdminAudit(supabaseService, {
+      actor_user_id: a.user.id,
+      actor_display_name_snapshot: await getActorDisplay(supabaseService, a.user),
+      action: id ? "template.update" : "template.create",
+      target_type: "template",
+      target_id: saved.id,
+      before,
+      after: row,
+    });
+
+    return NextResponse.json({ ok: true, template: saved });
+  } catch (e) {
+    console.error("ADMIN TEMPLATES ERROR:", e);
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "Server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { getActorDisplay, getBearerUser, requirePermission } from "@/lib/serverAuth";
+import { writeAdminAudit } from "@/lib/admin/audit";
+import { ROLES, isRole } from "@/lib/roles";
+import { SHIFTS, isShift } from "@/lib/shifts";
+
+/**
+ * /api/admin/users
+ * GET — profiles with emails (admin only).
+ * PATCH { user_id, role?, shift?, active? } — admin only. Admins can't change
+ * their own role or deactivate themselves. Each changed field is audited.
+ */
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl) throw new Error("Missing NEXT_PUBLIC_SUPABASE_URL");
+if (!anonKey) throw new Error("Missing NEXT_PUBLIC_SUPABASE_ANON_KEY");
+if (!serviceKey) throw new Error("Missing SUPABASE_SERVICE_ROLE_KEY");
+
+const supabaseService = createClient(supabaseUrl, serviceKey);
+const supabaseAnon = createClient(supabaseUrl, anonKey);
+
+const USERS_PAGE_SIZE = 1000;
+
+async function authorize(req: NextRequest) {
+  const auth = await getBearerUser(req, supabaseAnon);
+  if (!auth.ok) return { ok: false as const, res: NextResponse.json({ error: auth.error }, { status: auth.status }) };
+
+  const perm = await requirePermission(supabaseService, auth.user, "admin.users");
+  if (!perm.ok) return { ok: false as const, res: NextResponse.json({ error: perm.error }, { status: perm.status }) };
+
+  return { ok: true as const, user: auth.user };
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const a = await authorize(req);
+    if (!a.ok) return a.res;
+
+    const { data: profiles, error } = await supabaseService
+      .from("profiles")
+      .select("user_id, display_name, role, shift, active")
+      .order("display_name", { ascending: true });
+    if (error) throw error;
+
+    // Emails live in auth.users; page through until a short page
+    const emails = new Map<string, string>();
+    for (let page = 1; ; page++) {
+      const { data: list, error: listErr } = await supabaseService.auth.admin.listUsers({
+        page,
+        perPage: USERS_PAGE_SIZE,
+      });
+      if (listErr) throw listErr;
+      for (const u of list.users) if (u.email) emails.set(u.id, u.email);
+      if (list.users.length < USERS_PAGE_SIZE) break;
+    }
+
+    const users = (profiles ?? []).map((p) => ({ ...p, email: emails.get(p.user_id) ?? null }));
+    return NextResponse.json({ ok: true, users });
+  } catch (e) {
+    console.error("ADMIN USERS ERROR:", e);
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "Server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(req: NextRequest) {
+  try {
+    const a = await authorize(req);
+    if (!a.ok) return a.res;
+
+    const { user_id, role, shift, active } = await req.json();
+    if (!user_id) return NextResponse.json({ error: "user_id required" }, { status: 400 });
+
+    const patch: { role?: string; shift?: string; active?: boolean } = {};
+    if (role !== undefined) {
+      if (!isRole(role))
+        return NextResponse.json({ error: `role must be one of: ${ROLES.join(", ")}` }, { status: 400 });
+      patch.role = role;
+    }
+    if (shift !== undefined) {
+      if (!isShift(shift))
+        return NextResponse.json({ error: `shift must be one of: ${SHIFTS.join(", ")}` }, { status: 400 });
+      patch.shift = shift;
+    }
+    if (active !== undefined) {
+      if (typeof active !== "boolean")
+        return NextResponse.json({ error: "active must be true or false" }, { status: 400 });
+      patch.active = active;
+    }
+    if (Object.keys(patch).length === 0)
+      return NextResponse.json({ error: "Nothing to change" }, { status: 400 });
+
+    if (user_id === a.user.id && (patch.role !== undefined || patch.active === false))
+      return NextResponse.json(
+        { error: "You can't change your own role or deactivate yourself" },
+        { status: 409 }
+      );
+
+    const { data: prof, error: profErr } = await supabaseService
+      .from("profiles")
+      .select("user_id, role, shift, active")
+      .eq("user_id", user_id)
+      .maybeSingle();
+
+    if (profErr) throw profErr;
+    if (!prof) return NextResponse.json({ error: "Profile not found" }, { status: 404 });
+
+    const changed = (Object.keys(patch) as (keyof typeof patch)[]).filter(
+      (k) => prof[k] !== patch[k]
+    );
+    if (changed.length === 0) return NextResponse.json({ ok: true, user_id, changed: [] });
+
+    const { error: updErr } = await supabaseService
+      .from("profiles")
+      .update(patch)
+      .eq("user_id", user_id);
+    if (updErr) throw updErr;
+
+    const actorDisplay = await getActorDisplay(supabaseService, a.user);
+    for (const k of changed) {
+      await writeAdminAudit(supabaseService, {
+        actor_user_id: a.user.id,
+        actor_display_name_snapshot: actorDisplay,
+        action: `user.${k}`,
+        target_type: "profile",
+        target_id: user_id,
+        before: { [k]: prof[k] },
+        after: { [k]: patch[k] },
+      });
+    }
+
+    return NextResponse.json({ ok: true, user_id, changed });
+  } catch (e) {
+    console.error("ADMIN USERS ERROR:", e);
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "Server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { getActorDisplay, getBearerUser, requirePermission } from "@/lib/serverAuth";
+import {
+  CONTENT_TYPES,
+  EXPORT_FORMATS,
+  buildManifest,
+  fetchExportData,
+  serializeExport,
+  signManifest,
+  type ExportFormat,
+} from "@/lib/export/audit";
+
+/**
+ * /api/export?from=2026-01-01&to=2026-02-01&format=csv|json|ndjson[&location=ICU][&category=…]
+ * Compliance dump of handoffs + full handoff_updates history (export.audit permission).
+ * Body is the file; the signed manifest rides in headers:
+ *   X-Export-Manifest  base64(manifest JSON)
+ *   X-Export-Signature HMAC-SHA256(manifest JSON, EXPORT_SIGNING_SECRET), hex
+ *   X-Export-SHA256    sha256 of the body (also inside the manifest)
+ */
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl) throw new Error("Missing NEXT_PUBLIC_SUPABASE_URL");
+if (!anonKey) throw new Error("Missing NEXT_PUBLIC_SUPABASE_ANON_KEY");
+if (!serviceKey) throw new Error("Missing SUPABASE_SERVICE_ROLE_KEY");
+
+const supabaseService = createClient(supabaseUrl, serviceKey);
+const supabaseAnon = createClient(supabaseUrl, anonKey);
+
+const MAX_RANGE_DAYS = 366;
+
+function parseDate(s: string | null) {
+  if (!s) return null;
+  const d = new Date(s);
+  return Number.isNaN(d.getTime()) ? null : d;
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await getBearerUser(req, supabaseAnon);
+    if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+
+    const perm = await requirePermission(supabaseService, auth.user, "export.audit");
+    if (!perm.ok) return NextResponse.json({ error: perm.error }, { status: perm.status });
+
+    const sp = req.nextUrl.searchParams;
+    const format = (sp.get("format") || "csv").toLowerCase() as ExportFormat;
+    if (!EXPORT_FORMATS.includes(format))
+      return NextResponse.json(
+        { error: `format must be one of: ${EXPORT_FORMATS.join(", ")}` },
+        { status: 400 }
+      );
+
+    const from = parseDate(sp.get("from"));
+    const to = parseDate(sp.get("to"));
+    if (!from || !to || to <= from)
+      return NextResponse.json({ error: "from and to (ISO dates, to > from) required" }, { status: 400 });
+    if (to.getTime() - from.getTime() > MAX_RANGE_DAYS * 86400_000)
+      return NextResponse.json({ error: `Range must be ${MAX_RANGE_DAYS} days or less` }, { status: 400 });
+
+    const filters = {
+      from: from.toISOString(),
+      to: to.toISOString(),
+      location_code: sp.get("location")?.trim() || null,
+      category: sp.get("category")?.trim() || null,
+    };
+
+    const data = await fetchExportData(supabaseService, filters);
+    const body = serializeExport(data, format);
+    const manifest = buildManifest({
+      data,
+      body,
+      format,
+      filters,
+      generatedBy: await getActorDisplay(supabaseService, auth.user),
+    });
+    const manifestJson = JSON.stringify(manifest);
+
+    return new NextResponse(body, {
+      status: 200,
+      headers: {
+        "Content-Type": CONTENT_TYPES[format],
+        "Content-Disposition": `attachment; filename="${manifest.filename}"`,
+        "Cache-Control": "no-store",
+        "X-Export-Manifest": Buffer.from(manifestJson, "utf8").toString("base64"),
+        "X-Export-Signature": signManifest(manifestJson),
+        "X-Export-SHA256": manifest.sha256,
+      },
+    });
+  } catch (e) {
+    console.error("EXPORT ERROR:", e);
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "Server error" },
+      { status: 500 }
+    );
+  }
+}
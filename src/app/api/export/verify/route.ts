@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { createHash } from "node:crypto";
+import { getBearerUser, requirePermission } from "@/lib/serverAuth";
+import { verifyManifestSignature } from "@/lib/export/audit";
+
+/**
+ * /api/export/verify
+ * POST { manifest: "<base64 X-Export-Manifest>", signature, file_sha256? | file? }
+ * Confirms the manifest was issued by this server and, if given, that the
+ * file digest matches. Same permission as the export (export.audit); the
+ * body is capped since `file` carries the whole export.
+ */
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl) throw new Error("Missing NEXT_PUBLIC_SUPABASE_URL");
+if (!anonKey) throw new Error("Missing NEXT_PUBLIC_SUPABASE_ANON_KEY");
+if (!serviceKey) throw new Error("Missing SUPABASE_SERVICE_ROLE_KEY");
+
+const supabaseService = createClient(supabaseUrl, serviceKey);
+const supabaseAnon = createClient(supabaseUrl, anonKey);
+
+/** Larger exports: send file_sha256 instead of the file */
+const MAX_BODY_BYTES = 20 * 1024 * 1024;
+
+/** Request body as text, or null once it passes `max` bytes (stops reading) */
+async function readCapped(req: NextRequest, max: number) {
+  if (Number(req.headers.get("content-length") || 0) > max) return null;
+  if (!req.body) return "";
+
+  const reader = req.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.byteLength;
+    if (total > max) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const auth = await getBearerUser(req, supabaseAnon);
+    if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+
+    const perm = await requirePermission(supabaseService, auth.user, "export.audit");
+    if (!perm.ok) return NextResponse.json({ error: perm.error }, { status: perm.status });
+
+    const raw = await readCapped(req, MAX_BODY_BYTES);
+    if (raw === null)
+      return NextResponse.json({ error: "Body too large; send file_sha256 instead" }, { status: 413 });
+
+    let body: { manifest?: unknown; signature?: unknown; file_sha256?: unknown; file?: unknown };
+    try {
+      body = JSON.parse(raw);
+    } catch {
+      return NextResponse.json({ error: "Body must be JSON" }, { status: 400 });
+    }
+    const { manifest, signature, file_sha256, file } = body ?? {};
+    if (!manifest || !signature)
+      return NextResponse.json({ error: "manifest and signature required" }, { status: 400 });
+
+    const manifestJson = Buffer.from(String(manifest), "base64").toString("utf8");
+    const signatureOk = verifyManifestSignature(manifestJson, String(signature));
+
+    let parsed: { sha256?: string } = {};
+    try {
+      parsed = JSON.parse(manifestJson);
+    } catch {
+      return NextResponse.json({ error: "manifest is not valid JSON" }, { status: 400 });
+    }
+
+    const digest =
+      typeof file === "string"
+        ? createHash("sha256").update(file, "utf8").digest("hex")
+        : file_sha256
+        ? String(file_sha256).toLowerCase()
+        : null;
+
+    return NextResponse.json({
+      ok: true,
+      signature_valid: signatureOk,
+      digest_matches: digest ? digest === parsed.sha256 : null,
+      manifest: parsed,
+    });
+  } catch (e) {
+    console.error("EXPORT VERIFY ERROR:", e);
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "Server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { getActorDisplay, getBearerUser, requirePermission } from "@/lib/serverAuth";
+import { notifyHandoff } from "@/lib/sms/notify";
+
+/**
+ * /api/handoff/alert
+ * POST { handoff_id } — manual "Send SMS Alert" from the detail page.
+ * Requires sms.alert (lead and up). Sends the stored summary/location through
+ * the same SMS + push pipeline as high-priority creates, whatever the
+ * priority, and audits who asked.
+ */
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl) throw new Error("Missing NEXT_PUBLIC_SUPABASE_URL");
+if (!anonKey) throw new Error("Missing NEXT_PUBLIC_SUPABASE_ANON_KEY");
+if (!serviceKey) throw new Error("Missing SUPABASE_SERVICE_ROLE_KEY");
+
+const supabaseService = createClient(supabaseUrl, serviceKey);
+const supabaseAnon = createClient(supabaseUrl, anonKey);
+
+export async function POST(req: NextRequest) {
+  try {
+    const auth = await getBearerUser(req, supabaseAnon);
+    if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+
+    const perm = await requirePermission(supabaseService, auth.user, "sms.alert");
+    if (!perm.ok) return NextResponse.json({ error: perm.error }, { status: perm.status });
+
+    const { handoff_id } = await req.json();
+    if (!handoff_id) return NextResponse.json({ error: "handoff_id required" }, { status: 400 });
+
+    const { data: h, error: hErr } = await supabaseService
+      .from("handoffs")
+      .select("id, summary, priority, location_code")
+      .eq("id", handoff_id)
+      .maybeSingle();
+    if (hErr) return NextResponse.json({ error: hErr.message }, { status: 400 });
+    if (!h) return NextResponse.json({ error: "Handoff not found" }, { status: 404 });
+
+    const result = await notifyHandoff(supabaseService, {
+      handoff_id: h.id,
+      summary: h.summary,
+      priority: h.priority,
+      location_code: h.location_code,
+      created_by: auth.user.id,
+      requested_by: await getActorDisplay(supabaseService, auth.user),
+    });
+    if (result.skipped) return NextResponse.json({ ok: true, skipped: true });
+
+    return NextResponse.json({
+      ok: true,
+      alerted: result.alerted,
+      counts: result.counts,
+      push: result.push,
+    });
+  } catch (e) {
+    console.error("HANDOFF ALERT ERROR:", e);
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "Server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { createHash } from "node:crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { getBearerUser } from "@/lib/serverAuth";
+import { getAttachmentStore } from "@/lib/storage";
+
+/**
+ * /api/handoff/attachment
+ * GET ?id=…[&download=1] -> the sanitized file bytes
+ * The bucket is private; any signed-in user can read, like handoff_updates.
+ * Bytes are checked against the stored sha256 before they are served.
+ */
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl) throw new Error("Missing NEXT_PUBLIC_SUPABASE_URL");
+if (!anonKey) throw new Error("Missing NEXT_PUBLIC_SUPABASE_ANON_KEY");
+if (!serviceKey) throw new Error("Missing SUPABASE_SERVICE_ROLE_KEY");
+
+const supabaseService = createClient(supabaseUrl, serviceKey);
+const supabaseAnon = createClient(supabaseUrl, anonKey);
+
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await getBearerUser(req, supabaseAnon);
+    if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+
+    const id = req.nextUrl.searchParams.get("id");
+    if (!id) return NextResponse.json({ error: "id required" }, { status: 400 });
+
+    const { data: a, error } = await supabaseService
+      .from("handoff_attachments")
+      .select("storage_backend, storage_key, filename, content_type, sha256")
+      .eq("id", id)
+      .maybeSingle();
+    if (error) throw error;
+    if (!a) return NextResponse.json({ error: "Attachment not found" }, { status: 404 });
+
+    const store = getAttachmentStore(supabaseService);
+    if (store.name !== a.storage_backend)
+      return NextResponse.json(
+        { error: `Attachment is in ${a.storage_backend} storage; this server uses ${store.name}` },
+        { status: 409 }
+      );
+
+    const obj = await store.get(a.storage_key);
+    if (!obj) return NextResponse.json({ error: "Attachment file missing" }, { status: 404 });
+
+    if (createHash("sha256").update(obj.bytes).digest("hex") !== a.sha256)
+      return NextResponse.json({ error: "Attachment failed integrity check" }, { status: 409 });
+
+    const disposition = req.nextUrl.searchParams.get("download") ? "attachment" : "inline";
+    return new NextResponse(Buffer.from(obj.bytes), {
+      headers: {
+        "Content-Type": a.content_type,
+        "Content-Disposition": `${disposition}; filename*=UTF-8''${encodeURIComponent(a.filename)}`,
+        "Cache-Control": "private, max-age=3600",
+        "X-Content-Type-Options": "nosniff",
+      },
+    });
+  } catch (e) {
+    console.error("ATTACHMENT ERROR:", e);
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "Server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { getBearerUser, requirePermission } from "@/lib/serverAuth";
+import { createHandoff } from "@/lib/handoffs/create";
+
+/**
+ * /api/handoff/create
+ * POST { id?, summary, category, priority, location_code, template_id?, details?,
+ *        item_id?, item_qty? }
+ * With template_id, omitted fields come from the template (one-tap presets).
+ * id is client-generated (offline queue); replays return duplicate: true.
+ * Validates against DB enums, snapshots creator from profiles.display_name,
+ * mints the SMS token and runs the high-priority notify pipeline.
+ */
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl) throw new Error("Missing NEXT_PUBLIC_SUPABASE_URL");
+if (!anonKey) throw new Error("Missing NEXT_PUBLIC_SUPABASE_ANON_KEY");
+if (!serviceKey) throw new Error("Missing SUPABASE_SERVICE_ROLE_KEY");
+
+const supabaseService = createClient(supabaseUrl, serviceKey);
+const supabaseAnon = createClient(supabaseUrl, anonKey);
+
+export async function POST(req: NextRequest) {
+  try {
+    const auth = await getBearerUser(req, supabaseAnon);
+    if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+
+    const perm = await requirePermission(supabaseService, auth.user, "handoff.create");
+    if (!perm.ok) return NextResponse.json({ error: perm.error }, { status: perm.status });
+
+    const body = await req.json().catch(() => null);
+    if (!body || typeof body !== "object")
+      return NextResponse.json({ error: "JSON body required" }, { status: 400 });
+
+    const result = await createHandoff(supabaseService, auth.user, body);
+    if (!result.ok) return NextResponse.json({ error: result.error }, { status: result.status });
+
+    return NextResponse.json({
+      ok: true,
+      id: result.handoff.id,
+      token: result.handoff.token?.token ?? null,
+      notify: result.handoff.notify,
+      duplicate: result.handoff.duplicate ?? false,
+    });
+  } catch (e) {
+    console.error("CREATE ERROR:", e);
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "Server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
+import { getActorDisplay, getBearerUser, requirePermission } from "@/lib/serverAuth";
+import { resolveHandoff } from "@/lib/handoffs/resolution";
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
 const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
@@ -14,45 +16,32 @@ const supabaseAnon = createClient(supabaseUrl, anonKey);
 
 export async function POST(req: NextRequest) {
   try {
-    const auth = req.headers.get("authorization") || "";
-    const m = auth.match(/^Bearer\s+(.+)$/i);
-    if (!m) return NextResponse.json({ error: "Missing bearer token" }, { status: 401 });
+    const auth = await getBearerUser(req, supabaseAnon);
+    if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
 
-    const accessToken = m[1];
-    const { data: userData, error: userErr } =
-      await supabaseAnon.auth.getUser(accessToken);
+    const perm = await requirePermission(supabaseService, auth.user, "handoff.resolve");
+    if (!perm.ok) return NextResponse.json({ error: perm.error }, { status: perm.status });
 
-    if (userErr || !userData?.user)
-      return NextResponse.json({ error: "Invalid session" }, { status: 401 });
-
-    const { handoff_id } = await req.json();
+    const { handoff_id, resolution_code, resolution_note } = await req.json();
     if (!handoff_id)
       return NextResponse.json({ error: "handoff_id required" }, { status: 400 });
 
-    // close handoff
-    const { error: updErr } = await supabaseService
-      .from("handoffs")
-      .update({ status: "closed" })
-      .eq("id", handoff_id);
-
-    if (updErr) throw updErr;
-
-    // audit entry
-    const msg = `SYSTEM: RESOLVED by ${userData.user.email ?? userData.user.id}`;
-
-    const { error: insErr } = await supabaseService
-      .from("handoff_updates")
-      .insert({
-        handoff_id,
-        author_user_id: null,
-        author_display_name_snapshot: "system",
-        source: "system",
-        message: msg,
-      });
-
-    if (insErr) throw insErr;
-
-    return NextResponse.json({ ok: true });
+    // resolve via the canonical state machine (code + note echoed into the audit row)
+    const result = await resolveHandoff(supabaseService, {
+      handoff_id,
+      code: resolution_code,
+      note: resolution_note,
+      actor: {
+        user_id: auth.user.id,
+        display: await getActorDisplay(supabaseService, auth.user),
+        source: "app",
+      },
+    });
+
+    if (!result.ok)
+      return NextResponse.json({ error: result.error }, { status: result.status });
+
+    return NextResponse.json({ ok: true, status: result.to, changed: result.changed });
   } catch (e: any) {
     console.error("RESOLVE ERROR:", e);
     return NextResponse.json(
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { getActorDisplay, getBearerUser, requirePermission } from "@/lib/serverAuth";
+import { normStatus, transitionHandoff } from "@/lib/handoffs/status";
+import { mintHandoffToken } from "@/lib/handoffs/tokens";
+import { resolveHandoff } from "@/lib/handoffs/resolution";
+
+/**
+ * /api/handoff/status
+ * POST { handoff_id, status, reason?, resolution_code?, resolution_note? }
+ * Any status change from the app goes through the canonical state machine.
+ * Resolving requires a resolution code (see lib/handoffs/resolution).
+ * Reopen (from resolved) stamps reopened_at, clears the resolution and mints
+ * a fresh SMS token, since the old one was retired on resolve.
+ */
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl) throw new Error("Missing NEXT_PUBLIC_SUPABASE_URL");
+if (!anonKey) throw new Error("Missing NEXT_PUBLIC_SUPABASE_ANON_KEY");
+if (!serviceKey) throw new Error("Missing SUPABASE_SERVICE_ROLE_KEY");
+
+const supabaseService = createClient(supabaseUrl, serviceKey);
+const supabaseAnon = createClient(supabaseUrl, anonKey);
+
+export async function POST(req: NextRequest) {
+  try {
+    const auth = await getBearerUser(req, supabaseAnon);
+    if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+
+    const { handoff_id, status, reason, resolution_code, resolution_note } = await req.json();
+    if (!handoff_id || !status)
+      return NextResponse.json({ error: "handoff_id and status required" }, { status: 400 });
+
+    const actor = {
+      user_id: auth.user.id,
+      display: await getActorDisplay(supabaseService, auth.user),
+      source: "app" as const,
+    };
+
+    const { data: h } = await supabaseService
+      .from("handoffs")
+      .select("status")
+      .eq("id", handoff_id)
+      .maybeSingle();
+
+    const reopening = normStatus(h?.status) === "resolved" && status !== "resolved";
+
+    const perm = await requirePermission(
+      supabaseService,
+      auth.user,
+      status === "resolved" ? "handoff.resolve" : reopening ? "handoff.reopen" : "handoff.update"
+    );
+    if (!perm.ok) return NextResponse.json({ error: perm.error }, { status: perm.status });
+
+    const result =
+      status === "resolved"
+        ? await resolveHandoff(supabaseService, {
+            handoff_id,
+            code: resolution_code,
+            note: resolution_note ?? reason,
+            actor,
+          })
+        : await transitionHandoff(supabaseService, {
+            handoff_id,
+            to: status,
+            reason,
+            patch: reopening
+              ? {
+                  reopened_at: new Date().toISOString(),
+                  resolution_code: null,
+                  resolution_note: null,
+                }
+              : undefined,
+            actor,
+          });
+
+    if (!result.ok)
+      return NextResponse.json({ error: result.error }, { status: result.status });
+
+    let token: string | null = null;
+    if (result.changed && result.from === "resolved") {
+      token = await mintHandoffToken(supabaseService, handoff_id)
+        .then((t) => t.token)
+        .catch(() => null);
+    }
+
+    return NextResponse.json({
+      ok: true,
+      from: result.from,
+      status: result.to,
+      changed: result.changed,
+      token,
+    });
+  } catch (e) {
+    console.error("STATUS ERROR:", e);
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "Server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { getBearerUser, requirePermission } from "@/lib/serverAuth";
+import { getActiveToken, mintHandoffToken } from "@/lib/handoffs/tokens";
+import { normStatus } from "@/lib/handoffs/status";
+
+/**
+ * /api/handoff/token
+ * GET  ?handoff_id=…                   -> current active SMS token (or null)
+ * POST { handoff_id, regenerate? }     -> mint (or regenerate) the SMS token
+ */
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl) throw new Error("Missing NEXT_PUBLIC_SUPABASE_URL");
+if (!anonKey) throw new Error("Missing NEXT_PUBLIC_SUPABASE_ANON_KEY");
+if (!serviceKey) throw new Error("Missing SUPABASE_SERVICE_ROLE_KEY");
+
+const supabaseService = createClient(supabaseUrl, serviceKey);
+const supabaseAnon = createClient(supabaseUrl, anonKey);
+
+function errorMessage(e: unknown) {
+  return e instanceof Error ? e.message : "Server error";
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await getBearerUser(req, supabaseAnon);
+    if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+
+    const handoff_id = req.nextUrl.searchParams.get("handoff_id");
+    if (!handoff_id)
+      return NextResponse.json({ error: "handoff_id required" }, { status: 400 });
+
+    const token = await getActiveToken(supabaseService, handoff_id);
+    return NextResponse.json({ ok: true, token });
+  } catch (e) {
+    console.error("TOKEN GET ERROR:", e);
+    return NextResponse.json({ error: errorMessage(e) }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const auth = await getBearerUser(req, supabaseAnon);
+    if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+
+    const { handoff_id, regenerate } = await req.json();
+    if (!handoff_id)
+      return NextResponse.json({ error: "handoff_id required" }, { status: 400 });
+
+    const perm = await requirePermission(
+      supabaseService,
+      auth.user,
+      regenerate ? "handoff.token.regenerate" : "handoff.create"
+    );
+    if (!perm.ok) return NextResponse.json({ error: perm.error }, { status: perm.status });
+
+    const { data: h, error: hErr } = await supabaseService
+      .from("handoffs")
+      .select("id, status")
+      .eq("id", handoff_id)
+      .single();
+
+    if (hErr || !h) return NextResponse.json({ error: "Handoff not found" }, { status: 404 });
+
+    if (normStatus(h.status) === "resolved") {
+      return NextResponse.json(
+        { error: "Handoff is resolved. SMS codes are retired." },
+        { status: 409 }
+      );
+    }
+
+    const existing = regenerate ? null : await getActiveToken(supabaseService, handoff_id);
+    if (existing) return NextResponse.json({ ok: true, token: existing });
+
+    const token = await mintHandoffToken(supabaseService, handoff_id);
+
+    if (regenerate) {
+      const { error: insErr } = await supabaseService.from("handoff_updates").insert({
+        handoff_id,
+        author_user_id: null,
+        author_display_name_snapshot: "system",
+        source: "system",
+        message: `SYSTEM: SMS CODE REGENERATED by ${auth.user.email ?? auth.user.id}`,
+      });
+      if (insErr) throw insErr;
+    }
+
+    return NextResponse.json({ ok: true, token });
+  } catch (e) {
+    console.error("TOKEN MINT ERROR:", e);
+    return NextResponse.json({ error: errorMessage(e) }, { status: 500 });
+  }
+}
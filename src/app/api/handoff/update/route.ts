@@ -0,0 +1,191 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { getActorDisplay, getBearerUser, requirePermission } from "@/lib/serverAuth";
+import { enforceNoPhi } from "@/lib/phi/enforce";
+import { getAttachmentStore } from "@/lib/storage";
+import { ATTACHMENT_TYPES, MAX_ATTACHMENT_BYTES, MAX_ATTACHMENTS_PER_UPDATE } from "@/lib/attachments";
+import { prepareAttachment, type PreparedAttachment } from "@/lib/attachments/prepare";
+import { isUuid } from "@/lib/offline/ids";
+
+/**
+ * /api/handoff/update
+ * POST { id?, handoff_id, message }
+ * POST multipart/form-data: id?, handoff_id, message?, files (up to 4 images/PDFs)
+ * Append-only app update, PHI-screened server-side. Attachments are
+ * type-sniffed, size-limited and EXIF-stripped before they are stored; the
+ * message may be empty when files are attached. id is client-generated
+ * (offline queue); a replay returns the existing update with duplicate: true.
+ */
+
+/** Form overhead on top of the file bytes */
+const MAX_BODY_BYTES = MAX_ATTACHMENTS_PER_UPDATE * MAX_ATTACHMENT_BYTES + 64 * 1024;
+
+/** Earlier insert with the same client id, as a response; null if none */
+async function existingUpdate(id: string, handoff_id: string, user_id: string) {
+  const { data, error } = await supabaseService
+    .from("handoff_updates")
+    .select("id, handoff_id, author_user_id")
+    .eq("id", id)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) return null;
+  if (data.handoff_id !== handoff_id || data.author_user_id !== user_id)
+    return NextResponse.json({ error: "id already in use" }, { status: 409 });
+  return NextResponse.json({ ok: true, id: data.id, redacted: false, attachments: [], duplicate: true });
+}
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl) throw new Error("Missing NEXT_PUBLIC_SUPABASE_URL");
+if (!anonKey) throw new Error("Missing NEXT_PUBLIC_SUPABASE_ANON_KEY");
+if (!serviceKey) throw new Error("Missing SUPABASE_SERVICE_ROLE_KEY");
+
+const supabaseService = createClient(supabaseUrl, serviceKey);
+const supabaseAnon = createClient(supabaseUrl, anonKey);
+
+export async function POST(req: NextRequest) {
+  try {
+    const auth = await getBearerUser(req, supabaseAnon);
+    if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+
+    const perm = await requirePermission(supabaseService, auth.user, "handoff.update");
+    if (!perm.ok) return NextResponse.json({ error: perm.error }, { status: perm.status });
+
+    const isForm = (req.headers.get("content-type") || "").startsWith("multipart/form-data");
+    if (Number(req.headers.get("content-length") || 0) > MAX_BODY_BYTES)
+      return NextResponse.json({ error: "Upload too large" }, { status: 413 });
+
+    let id: unknown;
+    let handoff_id: string;
+    let message: unknown;
+    const uploads: { name: string; bytes: Uint8Array }[] = [];
+
+    if (isForm) {
+      const form = await req.formData();
+      id = form.get("id");
+      handoff_id = String(form.get("handoff_id") ?? "");
+      message = form.get("message");
+      const files = form.getAll("files").filter((f): f is File => typeof f !== "string");
+      if (files.length > MAX_ATTACHMENTS_PER_UPDATE)
+        return NextResponse.json(
+          { error: `At most ${MAX_ATTACHMENTS_PER_UPDATE} files per update` },
+          { status: 400 }
+        );
+      for (const f of files) uploads.push({ name: f.name, bytes: new Uint8Array(await f.arrayBuffer()) });
+    } else {
+      ({ id, handoff_id, message } = await req.json());
+    }
+
+    let text = String(message ?? "").trim();
+
+    if (!handoff_id || (text.length < 2 && uploads.length === 0))
+      return NextResponse.json({ error: "handoff_id and message required" }, { status: 400 });
+    if (text.length > 1000)
+      return NextResponse.json({ error: "message must be 1000 characters or fewer" }, { status: 400 });
+
+    let clientId: string | null = null;
+    if (id !== undefined && id !== null && id !== "") {
+      if (!isUuid(id)) return NextResponse.json({ error: "id must be a UUID" }, { status: 400 });
+      clientId = id.toLowerCase();
+      const dup = await existingUpdate(clientId, handoff_id, auth.user.id);
+      if (dup) return dup;
+    }
+
+    const files: PreparedAttachment[] = [];
+    for (const u of uploads) {
+      const prepared = prepareAttachment(u.name, u.bytes);
+      if (!prepared.ok) return NextResponse.json({ error: prepared.error }, { status: 400 });
+      files.push(prepared.file);
+    }
+
+    const phiCtx = {
+      route: "/api/handoff/update",
+      source: "app" as const,
+      handoff_id,
+      user_id: auth.user.id,
+    };
+
+    // File names are free text too ("bed 4 smith.jpg")
+    if (files.length > 0) {
+      const names = await enforceNoPhi(supabaseService, files.map((f) => f.filename).join("\n"), phiCtx);
+      if (!names.ok)
+        return NextResponse.json({ error: `File name: ${names.error}`, phi: names.kinds }, { status: names.status });
+      if (names.redacted)
+        files.forEach((f, i) => (f.filename = `attachment-${i + 1}.${ATTACHMENT_TYPES[f.content_type]}`));
+    }
+
+    if (!text) text = `📎 ${files.map((f) => f.filename).join(", ")}`.slice(0, 1000);
+
+    const phi = await enforceNoPhi(supabaseService, text, phiCtx);
+    if (!phi.ok)
+      return NextResponse.json({ error: phi.error, phi: phi.kinds }, { status: phi.status });
+
+    // Store bytes first so a failed upload never leaves an update pointing at nothing
+    const store = getAttachmentStore(supabaseService);
+    const stored: { id: string; key: string; file: PreparedAttachment }[] = [];
+
+    if (files.length > 0) {
+      const { data: h } = await supabaseService
+        .from("handoffs")
+        .select("id")
+        .eq("id", handoff_id)
+        .maybeSingle();
+      if (!h) return NextResponse.json({ error: "Handoff not found" }, { status: 404 });
+
+      try {
+        for (const file of files) {
+          const attachmentId = crypto.randomUUID();
+          const key = `handoffs/${h.id}/${attachmentId}.${ATTACHMENT_TYPES[file.content_type]}`;
+          await store.put(key, file.bytes, file.content_type);
+          stored.push({ id: attachmentId, key, file });
+        }
+      } catch (e) {
+        await store.remove(stored.map((s) => s.key));
+        throw e;
+      }
+    }
+
+    // Update + attachment rows in one transaction (add_handoff_update), so a
+    // replayed request never finds an update whose files went missing
+    const { data: updateId, error } = await supabaseService.rpc("add_handoff_update", {
+      p_id: clientId,
+      p_handoff_id: handoff_id,
+      p_author_user_id: auth.user.id,
+      p_author_display_name: await getActorDisplay(supabaseService, auth.user),
+      p_message: phi.text,
+      p_attachments: stored.map(({ id, key, file }) => ({
+        id,
+        storage_backend: store.name,
+        storage_key: key,
+        filename: file.filename,
+        content_type: file.content_type,
+        size_bytes: file.size_bytes,
+        sha256: file.sha256,
+      })),
+    });
+
+    if (error) {
+      await store.remove(stored.map((s) => s.key));
+      if (clientId && error.code === "23505") {
+        const dup = await existingUpdate(clientId, handoff_id, auth.user.id);
+        if (dup) return dup;
+      }
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      ok: true,
+      id: updateId as string,
+      redacted: phi.redacted,
+      attachments: stored.map((s) => s.id),
+    });
+  } catch (e) {
+    console.error("UPDATE ERROR:", e);
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "Server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { getBearerUser } from "@/lib/serverAuth";
+import { verifyHandoffChain } from "@/lib/handoffs/chain";
+
+/**
+ * /api/handoff/verify?handoff_id=…
+ * Re-walks the handoff_updates hash chain and reports any break.
+ */
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl) throw new Error("Missing NEXT_PUBLIC_SUPABASE_URL");
+if (!anonKey) throw new Error("Missing NEXT_PUBLIC_SUPABASE_ANON_KEY");
+if (!serviceKey) throw new Error("Missing SUPABASE_SERVICE_ROLE_KEY");
+
+const supabaseService = createClient(supabaseUrl, serviceKey);
+const supabaseAnon = createClient(supabaseUrl, anonKey);
+
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await getBearerUser(req, supabaseAnon);
+    if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+
+    const handoff_id = req.nextUrl.searchParams.get("handoff_id");
+    if (!handoff_id)
+      return NextResponse.json({ error: "handoff_id required" }, { status: 400 });
+
+    const result = await verifyHandoffChain(supabaseService, handoff_id);
+    if (!result) return NextResponse.json({ error: "Handoff not found" }, { status: 404 });
+
+    return NextResponse.json({ ok: true, chain: result });
+  } catch (e) {
+    console.error("VERIFY ERROR:", e);
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "Server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { getBearerUser } from "@/lib/serverAuth";
+import { getVapidPublicKey, parseSubscription } from "@/lib/push";
+
+/**
+ * /api/push/subscribe
+ * GET                      -> { public_key } (VAPID application server key)
+ * POST { subscription }    -> store this browser's PushSubscription for the caller
+ *                             (endpoint must be a known push service host)
+ * DELETE { endpoint }      -> forget it (caller's own subscriptions only)
+ */
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl) throw new Error("Missing NEXT_PUBLIC_SUPABASE_URL");
+if (!anonKey) throw new Error("Missing NEXT_PUBLIC_SUPABASE_ANON_KEY");
+if (!serviceKey) throw new Error("Missing SUPABASE_SERVICE_ROLE_KEY");
+
+const supabaseService = createClient(supabaseUrl, serviceKey);
+const supabaseAnon = createClient(supabaseUrl, anonKey);
+
+function errorMessage(e: unknown) {
+  return e instanceof Error ? e.message : "Server error";
+}
+
+export async function GET() {
+  try {
+    const public_key = getVapidPublicKey();
+    if (!public_key) return NextResponse.json({ error: "Push is not configured" }, { status: 503 });
+    return NextResponse.json({ ok: true, public_key });
+  } catch (e) {
+    console.error("PUSH KEY ERROR:", e);
+    return NextResponse.json({ error: errorMessage(e) }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const auth = await getBearerUser(req, supabaseAnon);
+    if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+
+    const body = await req.json().catch(() => null);
+    const sub = parseSubscription(body?.subscription);
+    if (!sub) return NextResponse.json({ error: "Invalid push subscription" }, { status: 400 });
+
+    // Keyed by endpoint: a shared device that signs in as someone else moves over
+    const { error } = await supabaseService.from("push_subscriptions").upsert(
+      {
+        user_id: auth.user.id,
+        endpoint: sub.endpoint,
+        p256dh: sub.p256dh,
+        auth: sub.auth,
+        user_agent: (req.headers.get("user-agent") || "").slice(0, 300) || null,
+        failure_count: 0,
+      },
+      { onConflict: "endpoint" }
+    );
+    if (error) return NextResponse.json({ error: error.message }, { status: 400 });
+
+    return NextResponse.json({ ok: true });
+  } catch (e) {
+    console.error("PUSH SUBSCRIBE ERROR:", e);
+    return NextResponse.json({ error: errorMessage(e) }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  try {
+    const auth = await getBearerUser(req, supabaseAnon);
+    if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+
+    const body = await req.json().catch(() => null);
+    const endpoint = typeof body?.endpoint === "string" ? body.endpoint : "";
+    if (!endpoint) return NextResponse.json({ error: "endpoint required" }, { status: 400 });
+
+    const { error } = await supabaseService
+      .from("push_subscriptions")
+      .delete()
+      .eq("endpoint", endpoint)
+      .eq("user_id", auth.user.id);
+    if (error) return NextResponse.json({ error: error.message }, { status: 400 });
+
+    return NextResponse.json({ ok: true });
+  } catch (e) {
+    console.error("PUSH UNSUBSCRIBE ERROR:", e);
+    return NextResponse.json({ error: errorMessage(e) }, { status: 500 });
+  }
+}
@@ -1,17 +1,19 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
+import { readVerifiedWebhook } from "@/lib/sms/signature";
+import { enforceNoPhi } from "@/lib/phi/enforce";
 
 /**
  * /api/sms/alert
  * - Server-only insert into handoff_updates (append-only)
- * - No PHI
- * - Protected by SMS_WEBHOOK_SECRET
- * - Accepts JSON (now) and can be extended for Twilio form posts later
+ * - No PHI (screened; rejected or redacted per PHI_MODE)
+ * - JSON posts: x-webhook-secret must match SMS_WEBHOOK_SECRET
+ * - Twilio form posts: X-Twilio-Signature verified with TWILIO_AUTH_TOKEN
+ * - Refuses everything when the matching secret is not configured
  */
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
 const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
-const webhookSecret = process.env.SMS_WEBHOOK_SECRET;
 
 if (!supabaseUrl) throw new Error("Missing NEXT_PUBLIC_SUPABASE_URL");
 if (!serviceKey) throw new Error("Missing SUPABASE_SERVICE_ROLE_KEY");
@@ -20,26 +22,13 @@ const supabase = createClient(supabaseUrl, serviceKey);
 
 export async function POST(req: NextRequest) {
   try {
-    // Simple shared-secret protection (recommended)
-    if (webhookSecret) {
-      const got = req.headers.get("x-webhook-secret");
-      if (!got || got !== webhookSecret) {
-        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-      }
+    // Signature / shared-secret verification (fails closed)
+    const hook = await readVerifiedWebhook(req);
+    if (!hook.ok) {
+      return NextResponse.json({ error: hook.error }, { status: hook.status });
     }
 
-    const contentType = req.headers.get("content-type") || "";
-    let payload: any = {};
-
-    // JSON payload (our default)
-    if (contentType.includes("application/json")) {
-      payload = await req.json();
-    } else {
-      // Fallback: try parse form-encoded (useful later for Twilio)
-      const text = await req.text();
-      const params = new URLSearchParams(text);
-      payload = Object.fromEntries(params.entries());
-    }
+    const payload: any = hook.kind === "json" ? hook.json ?? {} : hook.params;
 
     /**
      * Expected payload (JSON recommended):
@@ -60,13 +49,22 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    const phi = await enforceNoPhi(supabase, String(message).trim(), {
+      route: "/api/sms/alert",
+      source: "sms",
+      handoff_id,
+    });
+    if (!phi.ok) {
+      return NextResponse.json({ error: phi.error, phi: phi.kinds }, { status: phi.status });
+    }
+
     // Append-only insert into handoff_updates
     const { error } = await supabase.from("handoff_updates").insert({
       handoff_id,
       author_user_id: null,
       author_display_name_snapshot: from ? `sms:${from}` : "sms",
       source: "sms",
-      message: String(message).trim(),
+      message: phi.text,
     });
 
     if (error) {
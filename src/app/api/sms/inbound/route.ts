@@ -1,5 +1,20 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
+import { readVerifiedWebhook } from "@/lib/sms/signature";
+import { twimlResponse } from "@/lib/sms/twiml";
+import { lookupToken } from "@/lib/handoffs/tokens";
+import { enforceNoPhi } from "@/lib/phi/enforce";
+import { normStatus, transitionHandoff } from "@/lib/handoffs/status";
+import {
+  loadResolutionCodes,
+  parseResolutionText,
+  resolveHandoff,
+} from "@/lib/handoffs/resolution";
+import {
+  commandLabel,
+  commandTargetStatus,
+  parseSmsCommand,
+} from "@/lib/sms/commands";
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
 const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
@@ -9,61 +24,218 @@ if (!serviceKey) throw new Error("Missing SUPABASE_SERVICE_ROLE_KEY");
 
 const supabase = createClient(supabaseUrl, serviceKey);
 
-// Expect token like H:ABC123 somewhere in the reply
-function extractToken(body: string): string | null {
-  const m = body.match(/\bH:([A-Za-z0-9]{4,12})\b/);
-  return m ? m[1] : null;
-}
+/**
+ * /api/sms/inbound
+ * Replies like "H:ABC123 DONE" are parsed into commands (see lib/sms/commands):
+ * - ACK / DONE / FOLLOWUP move the handoff status + write a system audit row
+ * - STATUS replies with the current state (no write)
+ * - anything else is appended as a plain sms update
+ *
+ * Twilio form posts get TwiML <Message> replies the texter can read;
+ * JSON callers keep getting JSON.
+ */
+
+type Reply = {
+  status: number;
+  json: Record<string, unknown>;
+  /** Text sent back to the texter (form posts only) */
+  sms: string;
+};
 
 export async function POST(req: NextRequest) {
+  let isForm = false;
+
+  const respond = (r: Reply) =>
+    isForm ? twimlResponse(r.sms) : NextResponse.json(r.json, { status: r.status });
+
   try {
-    const contentType = req.headers.get("content-type") || "";
+    // Twilio signature (form) or shared secret (JSON); fails closed
+    const hook = await readVerifiedWebhook(req);
+    if (!hook.ok) {
+      return NextResponse.json({ error: hook.error }, { status: hook.status });
+    }
+
+    isForm = hook.kind === "form";
+
     let message = "";
     let from: string | null = null;
 
-    if (contentType.includes("application/x-www-form-urlencoded")) {
-      const raw = await req.text();
-      const params = new URLSearchParams(raw);
-      message = params.get("Body") || "";
-      from = params.get("From") || null;
+    if (hook.kind === "form") {
+      message = hook.params.Body || "";
+      from = hook.params.From || null;
     } else {
-      const j = await req.json();
+      const j = (hook.json ?? {}) as { message?: unknown; from?: unknown };
       message = String(j.message || "");
       from = j.from ? String(j.from) : null;
     }
 
     message = message.trim();
-    const token = extractToken(message);
 
-    if (!token) {
-      return NextResponse.json(
-        { error: "Missing token. Include e.g. H:ABC123 in reply." },
-        { status: 400 }
-      );
+    // PHI screen before anything is parsed or stored (reject or redact per PHI_MODE)
+    const phi = await enforceNoPhi(supabase, message, { route: "/api/sms/inbound", source: "sms" });
+    if (!phi.ok) {
+      return respond({
+        status: phi.status,
+        json: { error: phi.error, phi: phi.kinds },
+        sms: `Not logged: ${phi.error}`,
+      });
+    }
+    message = phi.text;
+
+    const cmd = parseSmsCommand(message);
+
+    if (!cmd) {
+      return respond({
+        status: 400,
+        json: { error: "Missing token. Include e.g. H:ABC123 in reply." },
+        sms: "Missing handoff code. Start your reply with e.g. H:ABC123.",
+      });
+    }
+
+    const tag = `H:${cmd.token}`;
+
+    // Active tokens only (retired on resolve, expire after TTL)
+    const handoff_id = await lookupToken(supabase, cmd.token);
+
+    if (!handoff_id) {
+      return respond({
+        status: 404,
+        json: { error: "Unknown token." },
+        sms: `Unknown or expired token ${tag}, check the code.`,
+      });
     }
 
-    const { data: mapRow, error: mapErr } = await supabase
-      .from("handoff_tokens")
-      .select("handoff_id")
-      .eq("token", token)
+    const author = from ? `sms:${from}` : "sms";
+
+    const { data: h, error: hErr } = await supabase
+      .from("handoffs")
+      .select("id, status, location_code")
+      .eq("id", handoff_id)
       .single();
 
-    if (mapErr || !mapRow?.handoff_id) {
-      return NextResponse.json({ error: "Unknown token." }, { status: 404 });
+    if (hErr || !h) {
+      return respond({
+        status: 404,
+        json: { error: "Handoff not found." },
+        sms: `${tag} not found.`,
+      });
     }
 
-    const { error } = await supabase.from("handoff_updates").insert({
-      handoff_id: mapRow.handoff_id,
-      author_user_id: null,
-      author_display_name_snapshot: from ? `sms:${from}` : "sms",
-      source: "sms",
-      message,
-    });
+    const where = `${tag}${h.location_code ? ` – ${h.location_code}` : ""}`;
+    const current = normStatus(h.status);
 
-    if (error) return NextResponse.json({ error: error.message }, { status: 400 });
+    // Plain note: append-only, as before
+    if (cmd.kind === "NOTE") {
+      const { error } = await supabase.from("handoff_updates").insert({
+        handoff_id,
+        author_user_id: null,
+        author_display_name_snapshot: author,
+        source: "sms",
+        message,
+      });
 
-    return NextResponse.json({ ok: true });
+      if (error) {
+        return respond({
+          status: 400,
+          json: { error: error.message },
+          sms: `Could not log to ${where}. Try again.`,
+        });
+      }
+
+      return respond({
+        status: 200,
+        json: { ok: true, command: cmd.kind },
+        sms: `Logged to ${where}`,
+      });
+    }
+
+    // STATUS: read-only reply to the sender
+    if (cmd.kind === "STATUS") {
+      return respond({
+        status: 200,
+        json: { ok: true, command: cmd.kind, status: current, reply: `${where}: ${current}` },
+        sms: `${where}: ${current}`,
+      });
+    }
+
+    const next = commandTargetStatus(cmd.kind)!;
+
+    if (cmd.kind === "ACK" && current === "resolved") {
+      return respond({
+        status: 409,
+        json: { error: "Handoff is resolved. Nothing to acknowledge." },
+        sms: `${where} is already resolved.`,
+      });
+    }
+
+    if (cmd.kind === "FOLLOWUP" && !cmd.note) {
+      return respond({
+        status: 400,
+        json: { error: "FOLLOWUP needs a note, e.g. H:ABC123 FOLLOWUP need 2 more." },
+        sms: `Add a note: ${tag} FOLLOWUP need 2 more`,
+      });
+    }
+
+    if (next !== current) {
+      const actor = { user_id: null, display: author, source: "sms" as const };
+
+      // Canonical state machine: validates + writes the audit row.
+      // DONE takes an optional resolution code: "H:ABC123 DONE duplicate <note>"
+      const result =
+        cmd.kind === "DONE"
+          ? await resolveHandoff(supabase, {
+              handoff_id,
+              ...parseResolutionText(cmd.note, await loadResolutionCodes(supabase)),
+              actor,
+            })
+          : await transitionHandoff(supabase, {
+              handoff_id,
+              to: next,
+              reason: cmd.note,
+              label: commandLabel(cmd.kind),
+              actor,
+            });
+
+      if (!result.ok) {
+        return respond({
+          status: result.status,
+          json: { error: result.error },
+          sms: `${where}: ${result.error}`,
+        });
+      }
+    } else {
+      // No status change (e.g. ACK on open): still audit the command
+      const msg = `SYSTEM: ${commandLabel(cmd.kind)} via SMS by ${author}${
+        cmd.note ? `: ${cmd.note}` : ""
+      }`;
+
+      const { error } = await supabase.from("handoff_updates").insert({
+        handoff_id,
+        author_user_id: null,
+        author_display_name_snapshot: author,
+        source: "system",
+        message: msg,
+      });
+
+      if (error) {
+        return respond({
+          status: 400,
+          json: { error: error.message },
+          sms: `Could not log to ${where}. Try again.`,
+        });
+      }
+    }
+
+    return respond({
+      status: 200,
+      json: { ok: true, command: cmd.kind, status: next },
+      sms: `${where}: ${commandLabel(cmd.kind).toLowerCase()} ✓`,
+    });
   } catch (e: any) {
-    return NextResponse.json({ error: e?.message || "Server error" }, { status: 500 });
+    return respond({
+      status: 500,
+      json: { error: e?.message || "Server error" },
+      sms: "Something went wrong. Please try again or use the app.",
+    });
   }
 }
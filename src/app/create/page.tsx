@@ -3,6 +3,14 @@
 import React, { useEffect, useMemo, useState } from "react";
 import { createClient } from "@supabase/supabase-js";
 import { useRouter } from "next/navigation";
+import { describePhi, screenPhi } from "@/lib/phi";
+import { parseCreatePrefill } from "@/lib/handoffs/prefill";
+import { TEMPLATE_COLUMNS, type HandoffTemplate } from "@/lib/handoffs/templates";
+import { parseFieldSchema, validateFieldValues, type FieldDef } from "@/lib/handoffs/fields";
+import { ITEM_COLUMNS, type SupplyItem } from "@/lib/items";
+import { LOCATION_COLUMNS, locationDetail, matchesLocation, type Location } from "@/lib/locations";
+import { newClientId } from "@/lib/offline/ids";
+import { sendOrQueue, type OutboxPreview } from "@/lib/offline/queue";
 
 /* =========================
    SUPABASE SAFE INIT
@@ -25,6 +33,237 @@ function titleCaseEnum(s: string) {
     .join(" ");
 }
 
+/** Searchable picker over the active location registry */
+function LocationPicker({
+  locations,
+  value,
+  onChange,
+}: {
+  locations: Location[];
+  value: string;
+  onChange: (code: string) => void;
+}) {
+  const [query, setQuery] = useState("");
+  const [open, setOpen] = useState(false);
+
+  const selected = locations.find((l) => l.code === value) ?? null;
+  const matches = useMemo(
+    () => locations.filter((l) => matchesLocation(l, query)).slice(0, 8),
+    [locations, query]
+  );
+
+  return (
+    <div style={{ display: "grid", gap: 6, position: "relative" }}>
+      <input
+        value={open ? query : selected ? `${selected.code} — ${selected.name}` : ""}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => {
+          setQuery("");
+          setOpen(true);
+        }}
+        onBlur={() => setTimeout(() => setOpen(false), 150)}
+        placeholder="Search code, name, building…"
+        style={{ padding: 10, borderRadius: 10, border: "1px solid #333" }}
+      />
+
+      {open && (
+        <div
+          style={{
+            position: "absolute",
+            top: "100%",
+            left: 0,
+            right: 0,
+            zIndex: 10,
+            marginTop: 4,
+            border: "1px solid #333",
+            borderRadius: 10,
+            background: "#111",
+            maxHeight: 260,
+            overflowY: "auto",
+          }}
+        >
+          {matches.length === 0 ? (
+            <div style={{ padding: 10, opacity: 0.7, fontSize: 13 }}>No matching locations.</div>
+          ) : (
+            matches.map((l) => (
+              <div
+                key={l.code}
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  onChange(l.code);
+                  setOpen(false);
+                }}
+                style={{
+                  padding: "8px 10px",
+                  cursor: "pointer",
+                  background: l.code === value ? "rgba(255,255,255,0.08)" : "transparent",
+                }}
+              >
+                <b>{l.code}</b> — {l.name}
+                {locationDetail(l) && (
+                  <span style={{ opacity: 0.6, fontSize: 12 }}> · {locationDetail(l)}</span>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** Catalog search (SKU / description), queried as you type */
+function ItemPicker({
+  value,
+  onChange,
+}: {
+  value: SupplyItem | null;
+  onChange: (item: SupplyItem | null) => void;
+}) {
+  const [query, setQuery] = useState("");
+  const [open, setOpen] = useState(false);
+  const [matches, setMatches] = useState<SupplyItem[]>([]);
+
+  useEffect(() => {
+    const client = supabase;
+    if (!open || !client) return;
+    const q = query.trim().replace(/[%,()]/g, "");
+    const t = setTimeout(async () => {
+      let req = client.from("supply_items").select(ITEM_COLUMNS).eq("active", true).order("sku").limit(20);
+      if (q) req = req.or(`sku.ilike.%${q}%,description.ilike.%${q}%`);
+      const { data } = await req;
+      setMatches((data ?? []) as SupplyItem[]);
+    }, 200);
+    return () => clearTimeout(t);
+  }, [query, open]);
+
+  return (
+    <div style={{ display: "grid", gap: 6, position: "relative" }}>
+      <div style={{ display: "flex", gap: 6 }}>
+        <input
+          value={open ? query : value ? `${value.sku} — ${value.description}` : ""}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setOpen(true);
+          }}
+          onFocus={() => {
+            setQuery("");
+            setOpen(true);
+          }}
+          onBlur={() => setTimeout(() => setOpen(false), 150)}
+          placeholder="Search SKU or description (optional)"
+          style={{ padding: 10, borderRadius: 10, border: "1px solid #333", flex: 1, minWidth: 0 }}
+        />
+        {value && (
+          <button
+            onClick={() => onChange(null)}
+            style={{ padding: "0 10px", borderRadius: 10, border: "1px solid #333", cursor: "pointer" }}
+            title="Clear item"
+          >
+            ✕
+          </button>
+        )}
+      </div>
+
+      {open && (
+        <div
+          style={{
+            position: "absolute",
+            top: "100%",
+            left: 0,
+            right: 0,
+            zIndex: 10,
+            marginTop: 4,
+            border: "1px solid #333",
+            borderRadius: 10,
+            background: "#111",
+            maxHeight: 260,
+            overflowY: "auto",
+          }}
+        >
+          {matches.length === 0 ? (
+            <div style={{ padding: 10, opacity: 0.7, fontSize: 13 }}>No matching items.</div>
+          ) : (
+            matches.map((it) => (
+              <div
+                key={it.id}
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  onChange(it);
+                  setOpen(false);
+                }}
+                style={{
+                  padding: "8px 10px",
+                  cursor: "pointer",
+                  background: it.id === value?.id ? "rgba(255,255,255,0.08)" : "transparent",
+                }}
+              >
+                <b>{it.sku}</b> — {it.description}
+                <span style={{ opacity: 0.6, fontSize: 12 }}> · {it.uom}</span>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** One input per schema field; raw strings, server coerces to typed JSON */
+function DetailFields({
+  fields,
+  values,
+  onChange,
+}: {
+  fields: FieldDef[];
+  values: Record<string, string>;
+  onChange: (key: string, value: string) => void;
+}) {
+  const inputStyle: React.CSSProperties = { padding: 10, borderRadius: 10, border: "1px solid #333" };
+
+  return (
+    <div style={{ display: "grid", gap: 10, gridTemplateColumns: "1fr 1fr" }}>
+      {fields.map((f) => (
+        <label key={f.key} style={{ display: "grid", gap: 6 }}>
+          <span>
+            {f.label}
+            {f.required ? " *" : ""}
+            {f.type === "number" && f.unit ? <span style={{ opacity: 0.6 }}> ({f.unit})</span> : null}
+          </span>
+          {f.type === "select" ? (
+            <select value={values[f.key] ?? ""} onChange={(e) => onChange(f.key, e.target.value)} style={inputStyle}>
+              <option value="">—</option>
+              {(f.options ?? []).map((o) => (
+                <option key={o} value={o}>
+                  {o}
+                </option>
+              ))}
+            </select>
+          ) : (
+            <input
+              value={values[f.key] ?? ""}
+              onChange={(e) =>
+                onChange(f.key, f.type === "asset_tag" ? e.target.value.toUpperCase() : e.target.value)
+              }
+              type={f.type === "number" ? "number" : "text"}
+              inputMode={f.type === "number" ? (f.integer ? "numeric" : "decimal") : undefined}
+              min={f.min}
+              max={f.max}
+              step={f.type === "number" ? (f.integer ? 1 : "any") : undefined}
+              placeholder={f.type === "asset_tag" ? "BME-004512" : undefined}
+              autoCapitalize={f.type === "asset_tag" ? "characters" : undefined}
+              style={inputStyle}
+            />
+          )}
+        </label>
+      ))}
+    </div>
+  );
+}
+
 export default function CreateHandoffPage() {
   const router = useRouter();
 
@@ -41,12 +280,20 @@ export default function CreateHandoffPage() {
   const [summary, setSummary] = useState("");
   const [category, setCategory] = useState<string>(""); // set once enums load
   const [priority, setPriority] = useState<string>(""); // set once enums load
-  const [locationCode, setLocationCode] = useState("CS");
-  const [displayNameSnapshot, setDisplayNameSnapshot] = useState("AD / CS");
+  const [locationCode, setLocationCode] = useState(""); // set once locations load
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [templates, setTemplates] = useState<HandoffTemplate[]>([]); // active, admin-defined
+  const [templateId, setTemplateId] = useState(""); // template used to prefill (provenance)
+  const [fieldSchemas, setFieldSchemas] = useState<Record<string, FieldDef[]>>({}); // cs_categories.fields
+  const [details, setDetails] = useState<Record<string, string>>({});
+  const [item, setItem] = useState<SupplyItem | null>(null);
+  const [itemQty, setItemQty] = useState("1");
+  const [displayName, setDisplayName] = useState<string | null>(null); // profiles.display_name (server snapshots it)
 
   const [submitting, setSubmitting] = useState(false);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
   const [okMsg, setOkMsg] = useState<string | null>(null);
+  const [prefillNote, setPrefillNote] = useState<string | null>(null); // deep-link values we couldn't use
 
   const canSubmit = useMemo(() => {
     return (
@@ -56,9 +303,13 @@ export default function CreateHandoffPage() {
       summary.trim().length >= 5 &&
       !!category &&
       !!priority &&
-      locationCode.trim().length > 0
+      locationCode.trim().length > 0 &&
+      (!item || (Number.isInteger(Number(itemQty)) && Number(itemQty) >= 1))
     );
-  }, [user?.id, enumsLoaded, summary, category, priority, locationCode]);
+  }, [user?.id, enumsLoaded, summary, category, priority, locationCode, item, itemQty]);
+
+  // Client-side PHI warning (server enforces)
+  const summaryPhi = useMemo(() => screenPhi(summary), [summary]);
 
   useEffect(() => {
     let mounted = true;
@@ -84,6 +335,56 @@ export default function CreateHandoffPage() {
       setUser({ id: data.user.id, email: data.user.email });
       setReady(true);
 
+      // QR / deep-link prefill (?location=&category=&priority=), validated below
+      const prefill = parseCreatePrefill(window.location.search);
+      const ignored: string[] = [];
+
+      const { data: prof } = await supabase
+        .from("profiles")
+        .select("display_name")
+        .eq("user_id", data.user.id)
+        .maybeSingle();
+      if (mounted) setDisplayName(prof?.display_name ?? null);
+
+      // Location registry (active only); default to Central Supply
+      const { data: locs, error: locErr } = await supabase
+        .from("locations")
+        .select(LOCATION_COLUMNS)
+        .eq("active", true)
+        .order("sort_order")
+        .order("code");
+      if (!mounted) return;
+      if (locErr) {
+        setErrorMsg(locErr.message);
+      } else {
+        const list = (locs ?? []) as Location[];
+        setLocations(list);
+        const fromLink = list.find((l) => l.code === prefill.location);
+        if (prefill.location && !fromLink) ignored.push(`location "${prefill.location}"`);
+        const fallback = list.some((l) => l.code === "CS") ? "CS" : list[0]?.code ?? "";
+        setLocationCode(fromLink?.code ?? fallback);
+      }
+
+      // Templates / presets (optional; create works without them)
+      const { data: tpls } = await supabase
+        .from("handoff_templates")
+        .select(TEMPLATE_COLUMNS)
+        .eq("active", true)
+        .order("sort_order")
+        .order("name");
+      if (mounted) setTemplates((tpls ?? []) as HandoffTemplate[]);
+
+      // Structured field schemas per category
+      const { data: schemaRows } = await supabase.from("cs_categories").select("value, fields");
+      if (mounted) {
+        const schemas: Record<string, FieldDef[]> = {};
+        for (const r of schemaRows ?? []) {
+          const parsed = parseFieldSchema(r.fields);
+          if (parsed.ok) schemas[r.value] = parsed.fields;
+        }
+        setFieldSchemas(schemas);
+      }
+
       // Load enums AFTER auth is confirmed
       try {
         // Categories (required)
@@ -95,13 +396,17 @@ export default function CreateHandoffPage() {
 
         // Default category: prefer general if present
         const defaultCategory = cats.includes("general") ? "general" : cats[0] ?? "";
-        setCategory(defaultCategory);
+        if (prefill.category && !cats.includes(prefill.category))
+          ignored.push(`category "${prefill.category}"`);
+        setCategory(prefill.category && cats.includes(prefill.category) ? prefill.category : defaultCategory);
 
         // Priority (optional). If cs_priority enum/RPC exists it will work.
         const pri = await supabase.rpc("get_cs_priority_enum");
+        let loadedPriorities = ["low", "medium", "high"];
         if (!pri.error) {
           const pris = (pri.data ?? []).map((x: any) => String(x));
           if (pris.length > 0) {
+            loadedPriorities = pris;
             setPriorityOptions(pris);
             const defaultPriority = pris.includes("medium") ? "medium" : pris[0];
             setPriority(defaultPriority);
@@ -113,6 +418,14 @@ export default function CreateHandoffPage() {
           setPriority("medium");
         }
 
+        if (prefill.priority) {
+          if (loadedPriorities.includes(prefill.priority)) setPriority(prefill.priority);
+          else ignored.push(`priority "${prefill.priority}"`);
+        }
+
+        if (mounted && ignored.length > 0)
+          setPrefillNote(`Link had an unknown ${ignored.join(", ")} — pick it below.`);
+
         setEnumsLoaded(true);
       } catch (e: any) {
         // If enums can’t load, block submit and show a clear error
@@ -130,7 +443,34 @@ export default function CreateHandoffPage() {
     };
   }, []);
 
-  async function onCreate() {
+  // Only templates whose category/priority/location are still offered here
+  const usableTemplates = useMemo(
+    () =>
+      templates.filter(
+        (t) =>
+          categoryOptions.includes(t.category) &&
+          (!t.priority || priorityOptions.includes(t.priority)) &&
+          (!t.location_code || locations.some((l) => l.code === t.location_code))
+      ),
+    [templates, categoryOptions, priorityOptions, locations]
+  );
+  const categoryFields = fieldSchemas[category] ?? [];
+  // Presets can't carry field values, so skip categories with required fields
+  const presets = usableTemplates.filter(
+    (t) => t.is_preset && !(fieldSchemas[t.category] ?? []).some((f) => f.required)
+  );
+  const categoryTemplates = usableTemplates.filter((t) => t.category === category);
+
+  function applyTemplate(id: string) {
+    setTemplateId(id);
+    const t = usableTemplates.find((x) => x.id === id);
+    if (!t) return;
+    setSummary(t.summary);
+    if (t.priority) setPriority(t.priority);
+    if (t.location_code) setLocationCode(t.location_code);
+  }
+
+  async function submitCreate(body: Record<string, unknown>, preview: OutboxPreview) {
     setOkMsg(null);
     setErrorMsg(null);
 
@@ -142,33 +482,32 @@ export default function CreateHandoffPage() {
       setErrorMsg("Not signed in. Open the app login first.");
       return;
     }
-    if (!canSubmit) {
-      setErrorMsg("Fill out the required fields.");
-      return;
-    }
 
     setSubmitting(true);
     try {
-      const payload = {
-        summary: summary.trim(),
-        category, // ✅ enum-driven (guaranteed valid)
-        priority: priority.trim(), // ✅ enum-driven (or fallback)
-        status: "open",
-        location_code: locationCode.trim(),
-        created_by: user.id,
-        created_by_display_name_snapshot: displayNameSnapshot.trim() || null,
-      };
+      // Server validates enums, snapshots creator, mints SMS token, runs notify.
+      // The client id makes retries idempotent; offline, the create is queued.
+      const id = newClientId();
+      const sent = await sendOrQueue({ id, kind: "create", handoff_id: id, body: { ...body, id }, preview });
+
+      // A rejected create (PHI, unknown option, 403) keeps what was typed
+      if (sent.queued || sent.ok) {
+        setSummary("");
+        setDetails({});
+        setItem(null);
+        setItemQty("1");
+      }
 
-      const { data, error } = await supabase
-        .from("handoffs")
-        .insert(payload)
-        .select("id")
-        .single();
+      if (sent.queued) {
+        setOkMsg("📥 No connection. Saved on this device and will sync automatically.");
+        setTimeout(() => router.push("/"), 900);
+        return;
+      }
 
-      if (error) throw error;
+      const data = sent.json;
+      if (!sent.ok) throw new Error(String(data?.error || "Failed to create handoff."));
 
-      setOkMsg("✅ Handoff created.");
-      setSummary("");
+      setOkMsg(`✅ Handoff created.${data.token ? ` SMS code: H:${data.token}` : ""}`);
 
       setTimeout(() => {
         router.push(`/handoff/${data.id}`);
@@ -180,6 +519,49 @@ export default function CreateHandoffPage() {
     }
   }
 
+  async function onCreate() {
+    if (!canSubmit) {
+      setErrorMsg("Fill out the required fields.");
+      return;
+    }
+    const checked = validateFieldValues(categoryFields, details);
+    if (!checked.ok) {
+      setErrorMsg(checked.error);
+      return;
+    }
+
+    await submitCreate(
+      {
+        summary: summary.trim(),
+        category, // ✅ enum-driven (validated again server-side)
+        priority: priority.trim(),
+        location_code: locationCode.trim(),
+        template_id: templateId || undefined,
+        details: checked.values,
+        item_id: item?.id,
+        item_qty: item ? Number(itemQty) : undefined,
+      },
+      { summary: summary.trim(), category, priority: priority.trim(), location_code: locationCode.trim() }
+    );
+  }
+
+  // One tap: template supplies everything it defines; the form fills the rest
+  async function onPreset(t: HandoffTemplate) {
+    await submitCreate(
+      {
+        template_id: t.id,
+        priority: t.priority ? undefined : priority,
+        location_code: t.location_code ? undefined : locationCode,
+      },
+      {
+        summary: t.summary,
+        category: t.category,
+        priority: t.priority ?? priority,
+        location_code: t.location_code ?? locationCode,
+      }
+    );
+  }
+
   return (
     <div style={{ padding: 16, maxWidth: 720, margin: "0 auto" }}>
       <h1 style={{ fontSize: 28, fontWeight: 800, marginBottom: 8 }}>Create Handoff</h1>
@@ -230,6 +612,20 @@ export default function CreateHandoffPage() {
             </div>
           )}
 
+          {prefillNote && (
+            <div
+              style={{
+                border: "1px solid rgba(255,190,60,0.45)",
+                padding: 12,
+                borderRadius: 12,
+                marginBottom: 12,
+                fontSize: 13,
+              }}
+            >
+              ⚠️ {prefillNote}
+            </div>
+          )}
+
           {okMsg && (
             <div
               style={{
@@ -243,7 +639,52 @@ export default function CreateHandoffPage() {
             </div>
           )}
 
+          {presets.length > 0 && (
+            <div style={{ marginBottom: 14 }}>
+              <div style={{ fontSize: 12, opacity: 0.7, marginBottom: 6 }}>
+                Quick create (uses the location below when the preset has none)
+              </div>
+              <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+                {presets.map((t) => (
+                  <button
+                    key={t.id}
+                    onClick={() => onPreset(t)}
+                    disabled={submitting || !enumsLoaded || (!t.location_code && !locationCode)}
+                    title={t.summary}
+                    style={{
+                      padding: "8px 12px",
+                      borderRadius: 999,
+                      border: "1px solid #333",
+                      fontWeight: 800,
+                      cursor: submitting ? "not-allowed" : "pointer",
+                    }}
+                  >
+                    ⚡ {t.name}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
           <div style={{ display: "grid", gap: 10 }}>
+            {categoryTemplates.length > 0 && (
+              <label style={{ display: "grid", gap: 6 }}>
+                <span>Template</span>
+                <select
+                  value={templateId}
+                  onChange={(e) => applyTemplate(e.target.value)}
+                  style={{ padding: 10, borderRadius: 10, border: "1px solid #333" }}
+                >
+                  <option value="">— None —</option>
+                  {categoryTemplates.map((t) => (
+                    <option key={t.id} value={t.id}>
+                      {t.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+
             <label style={{ display: "grid", gap: 6 }}>
               <span>Summary *</span>
               <textarea
@@ -255,12 +696,29 @@ export default function CreateHandoffPage() {
               />
             </label>
 
+            {summaryPhi.length > 0 && (
+              <div
+                style={{
+                  border: "1px solid rgba(255,190,60,0.45)",
+                  padding: 10,
+                  borderRadius: 12,
+                  fontSize: 13,
+                }}
+              >
+                ⚠️ Possible PHI: <b>{describePhi(summaryPhi)}</b>. No patient info in handoffs.
+              </div>
+            )}
+
             <div style={{ display: "grid", gap: 10, gridTemplateColumns: "1fr 1fr" }}>
               <label style={{ display: "grid", gap: 6 }}>
                 <span>Category *</span>
                 <select
                   value={category}
-                  onChange={(e) => setCategory(e.target.value)}
+                  onChange={(e) => {
+                    setCategory(e.target.value);
+                    setTemplateId("");
+                    setDetails({});
+                  }}
                   disabled={!enumsLoaded || categoryOptions.length === 0}
                   style={{ padding: 10, borderRadius: 10, border: "1px solid #333" }}
                 >
@@ -289,28 +747,61 @@ export default function CreateHandoffPage() {
               </label>
             </div>
 
-            <div style={{ display: "grid", gap: 10, gridTemplateColumns: "1fr 1fr" }}>
-              <label style={{ display: "grid", gap: 6 }}>
-                <span>Location Code *</span>
-                <input
-                  value={locationCode}
-                  onChange={(e) => setLocationCode(e.target.value)}
-                  placeholder="CS / OR / ICU"
-                  style={{ padding: 10, borderRadius: 10, border: "1px solid #333" }}
+            {categoryFields.length > 0 && (
+              <DetailFields
+                fields={categoryFields}
+                values={details}
+                onChange={(key, value) => setDetails((d) => ({ ...d, [key]: value }))}
+              />
+            )}
+
+            <div style={{ display: "grid", gap: 10, gridTemplateColumns: "3fr 1fr" }}>
+              <div style={{ display: "grid", gap: 6 }}>
+                <span>Item</span>
+                <ItemPicker
+                  value={item}
+                  onChange={(it) => {
+                    setItem(it);
+                    // Item's home location is the usual place it runs short
+                    if (it?.default_location_code && locations.some((l) => l.code === it.default_location_code))
+                      setLocationCode(it.default_location_code);
+                  }}
                 />
-              </label>
+              </div>
 
               <label style={{ display: "grid", gap: 6 }}>
-                <span>Created By (snapshot)</span>
+                <span>Qty{item ? ` (${item.uom})` : ""}</span>
                 <input
-                  value={displayNameSnapshot}
-                  onChange={(e) => setDisplayNameSnapshot(e.target.value)}
-                  placeholder="AD / CS"
+                  type="number"
+                  inputMode="numeric"
+                  min={1}
+                  step={1}
+                  value={itemQty}
+                  onChange={(e) => setItemQty(e.target.value)}
+                  disabled={!item}
                   style={{ padding: 10, borderRadius: 10, border: "1px solid #333" }}
                 />
               </label>
             </div>
 
+            <div style={{ display: "grid", gap: 10, gridTemplateColumns: "1fr 1fr" }}>
+              <div style={{ display: "grid", gap: 6 }}>
+                <span>Location *</span>
+                <LocationPicker
+                  locations={locations}
+                  value={locationCode}
+                  onChange={setLocationCode}
+                />
+              </div>
+
+              <div style={{ display: "grid", gap: 6 }}>
+                <span>Created By</span>
+                <div style={{ padding: 10, borderRadius: 10, border: "1px solid #333", opacity: 0.8 }}>
+                  {displayName ?? "—"}
+                </div>
+              </div>
+            </div>
+
             <button
               onClick={onCreate}
               disabled={!canSubmit || submitting}
@@ -340,7 +831,7 @@ export default function CreateHandoffPage() {
             </button>
 
             <div style={{ opacity: 0.6, fontSize: 12 }}>
-              Dropdowns are enum-driven (DB source of truth). If values change in DB, UI updates automatically.
+              Dropdowns and locations are DB-driven (source of truth). If values change in DB, UI updates automatically.
             </div>
           </div>
         </>
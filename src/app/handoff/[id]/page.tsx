@@ -3,6 +3,28 @@
 import React, { useEffect, useMemo, useState } from "react";
 import { useParams, useRouter } from "next/navigation";
 import { supabase } from "@/lib/supabaseClient";
+import { describePhi, screenPhi } from "@/lib/phi";
+import { can } from "@/lib/roles";
+import { glowStyleForPriority, toColorMap, type ColorMap } from "@/lib/options";
+import { LOCATION_COLUMNS, locationDetail, type Location } from "@/lib/locations";
+import { formatQty } from "@/lib/items";
+import {
+  ATTACHMENT_ACCEPT,
+  ATTACHMENT_COLUMNS,
+  checkAttachmentFiles,
+  formatBytes,
+  isImageType,
+  type Attachment,
+} from "@/lib/attachments";
+import { describeDetails, parseFieldSchema, type FieldDef, type FieldValues } from "@/lib/handoffs/fields";
+import { newClientId } from "@/lib/offline/ids";
+import { discardEntry, sendOrQueue } from "@/lib/offline/queue";
+import { useOutbox } from "@/lib/offline/useOutbox";
+import {
+  DEFAULT_RESOLUTION_CODE,
+  FALLBACK_RESOLUTION_CODES,
+  resolutionNoteRequired,
+} from "@/lib/handoffs/resolution";
 
 type Handoff = {
   id: string;
@@ -13,6 +35,12 @@ type Handoff = {
   location_code: string | null;
   status: string | null;
   last_update_at?: string | null;
+  resolution_code?: string | null;
+  resolution_note?: string | null;
+  details?: FieldValues | null;
+  item_id?: string | null;
+  item_qty?: number | null;
+  item?: { sku: string; description: string; uom: string } | null;
 };
 
 type UpdateRow = {
@@ -25,27 +53,19 @@ type UpdateRow = {
   message: string;
 };
 
-function glowStyleForPriority(priority?: string) {
-  const p = (priority || "").toLowerCase();
-  if (p === "high") {
-    return {
-      boxShadow:
-        "0 0 18px rgba(255, 80, 80, 0.25), 0 0 42px rgba(255, 80, 80, 0.12)",
-      border: "1px solid rgba(255, 80, 80, 0.28)",
-    };
-  }
-  if (p === "medium") {
-    return {
-      boxShadow:
-        "0 0 18px rgba(255, 190, 60, 0.22), 0 0 42px rgba(255, 190, 60, 0.10)",
-      border: "1px solid rgba(255, 190, 60, 0.26)",
-    };
-  }
-  return {
-    boxShadow:
-      "0 0 18px rgba(80, 255, 160, 0.18), 0 0 42px rgba(80, 255, 160, 0.08)",
-    border: "1px solid rgba(80, 255, 160, 0.22)",
-  };
+type ChainStatus = {
+  ok: boolean;
+  count: number;
+  breaks: { id: string | null; seq: number | null; reason: string }[];
+};
+
+type SmsToken = {
+  token: string;
+  expires_at: string | null;
+};
+
+function labelEnum(s: string) {
+  return s.replace(/_/g, " ");
 }
 
 /**
@@ -57,6 +77,87 @@ function isResolvedStatus(status?: string | null) {
   return s === "resolved";
 }
 
+async function fetchAttachmentUrl(id: string) {
+  const { data: sess } = await supabase.auth.getSession();
+  const accessToken = sess.session?.access_token;
+  if (!accessToken) throw new Error("Not signed in.");
+
+  const res = await fetch(`/api/handoff/attachment?id=${encodeURIComponent(id)}`, {
+    headers: { Authorization: `Bearer ${accessToken}` },
+  });
+  if (!res.ok) throw new Error("Attachment unavailable");
+  return URL.createObjectURL(await res.blob());
+}
+
+/** Bucket is private, so bytes come through the API with the bearer token */
+function AttachmentView({ a }: { a: Attachment }) {
+  const image = isImageType(a.content_type);
+  const [url, setUrl] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    if (!image) return;
+    let cancelled = false;
+    let created: string | null = null;
+
+    fetchAttachmentUrl(a.id)
+      .then((u) => {
+        if (cancelled) URL.revokeObjectURL(u);
+        else setUrl((created = u));
+      })
+      .catch(() => setFailed(true));
+
+    return () => {
+      cancelled = true;
+      if (created) URL.revokeObjectURL(created);
+    };
+  }, [a.id, image]);
+
+  async function open() {
+    try {
+      const u = url ?? (await fetchAttachmentUrl(a.id));
+      window.open(u, "_blank", "noopener");
+      if (!url) setTimeout(() => URL.revokeObjectURL(u), 60_000);
+    } catch {
+      setFailed(true);
+    }
+  }
+
+  const title = `${a.filename} · ${formatBytes(a.size_bytes)}`;
+
+  if (image && url) {
+    return (
+      <button onClick={open} title={title} style={{ padding: 0, border: "none", background: "none", cursor: "pointer" }}>
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        <img
+          src={url}
+          alt={a.filename}
+          style={{ width: 96, height: 96, objectFit: "cover", borderRadius: 8, border: "1px solid #333" }}
+        />
+      </button>
+    );
+  }
+
+  return (
+    <button
+      onClick={open}
+      title={title}
+      style={{
+        padding: "6px 10px",
+        borderRadius: 8,
+        border: "1px solid #333",
+        background: "transparent",
+        color: "#fff",
+        cursor: "pointer",
+        fontSize: 12,
+        opacity: failed ? 0.5 : 0.9,
+      }}
+    >
+      {image ? "🖼" : "📄"} {a.filename} {failed ? "(unavailable)" : `· ${formatBytes(a.size_bytes)}`}
+    </button>
+  );
+}
+
 export default function HandoffDetailPage() {
   const router = useRouter();
   const params = useParams<{ id: string }>();
@@ -69,15 +170,53 @@ export default function HandoffDetailPage() {
   const [updates, setUpdates] = useState<UpdateRow[]>([]);
 
   const [newUpdate, setNewUpdate] = useState("");
+  const [newFiles, setNewFiles] = useState<File[]>([]);
+  const [fileInputKey, setFileInputKey] = useState(0); // bump to clear the file input
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
   const [savingUpdate, setSavingUpdate] = useState(false);
 
   const [resolving, setResolving] = useState(false);
+  const [resolveOpen, setResolveOpen] = useState(false);
+  const [resolutionCodes, setResolutionCodes] = useState<string[]>(FALLBACK_RESOLUTION_CODES);
+  const [resolutionCode, setResolutionCode] = useState(DEFAULT_RESOLUTION_CODE);
+  const [resolutionNote, setResolutionNote] = useState("");
+  const [reopenOpen, setReopenOpen] = useState(false);
+  const [reopenTo, setReopenTo] = useState<"open" | "needs_followup">("open");
+  const [reopenReason, setReopenReason] = useState("");
+  const [reopening, setReopening] = useState(false);
   const [smsSending, setSmsSending] = useState(false);
+  const [smsToken, setSmsToken] = useState<SmsToken | null>(null);
+  const [tokenBusy, setTokenBusy] = useState(false);
+  const [chain, setChain] = useState<ChainStatus | null>(null);
+  const [role, setRole] = useState<string | null>(null); // profiles.role (UI gating only; server enforces)
   const [toast, setToast] = useState<string | null>(null);
+  const [priorityColors, setPriorityColors] = useState<ColorMap>({});
+  const [location, setLocation] = useState<Location | null>(null);
+  const [fieldDefs, setFieldDefs] = useState<FieldDef[]>([]); // category schema, for detail labels
 
+  // Updates written offline for this handoff, not yet on the server
+  const { entries: outbox } = useOutbox(() => load());
+  const queuedUpdates = useMemo(
+    () => outbox.filter((e) => e.kind === "update" && e.handoff_id === id),
+    [outbox, id]
+  );
+
+  const fileError = useMemo(() => checkAttachmentFiles(newFiles), [newFiles]);
   const canAddUpdate = useMemo(
-    () => newUpdate.trim().length >= 2 && !savingUpdate,
-    [newUpdate, savingUpdate]
+    () => (newUpdate.trim().length >= 2 || newFiles.length > 0) && !fileError && !savingUpdate,
+    [newUpdate, newFiles, fileError, savingUpdate]
+  );
+  const attachmentsByUpdate = useMemo(() => {
+    const m = new Map<string, Attachment[]>();
+    for (const a of attachments) m.set(a.update_id, [...(m.get(a.update_id) ?? []), a]);
+    return m;
+  }, [attachments]);
+
+  // Client-side PHI warning (server enforces)
+  const updatePhi = useMemo(() => screenPhi(newUpdate), [newUpdate]);
+  const detailRows = useMemo(
+    () => describeDetails(fieldDefs, handoff?.details),
+    [fieldDefs, handoff?.details]
   );
 
   async function load() {
@@ -93,10 +232,17 @@ export default function HandoffDetailPage() {
       return;
     }
 
+    const { data: prof } = await supabase
+      .from("profiles")
+      .select("role")
+      .eq("user_id", sess.session.user.id)
+      .maybeSingle();
+    setRole(prof?.role ?? null);
+
     const { data: h, error: hErr } = await supabase
       .from("handoffs")
       .select(
-        "id, created_at, summary, category, priority, location_code, status, last_update_at"
+        "id, created_at, summary, category, priority, location_code, status, last_update_at, resolution_code, resolution_note, details, item_id, item_qty, item:supply_items(sku, description, uom)"
       )
       .eq("id", id)
       .single();
@@ -122,8 +268,46 @@ export default function HandoffDetailPage() {
     }
 
     setHandoff(h as any);
+
+    const { data: att } = await supabase
+      .from("handoff_attachments")
+      .select(ATTACHMENT_COLUMNS)
+      .eq("handoff_id", id)
+      .order("created_at");
+    setAttachments((att ?? []) as Attachment[]);
+
+    const { data: catRow } = await supabase
+      .from("cs_categories")
+      .select("fields")
+      .eq("value", h.category)
+      .maybeSingle();
+    const schema = parseFieldSchema(catRow?.fields ?? []);
+    setFieldDefs(schema.ok ? schema.fields : []);
+
+    if (h.location_code) {
+      const { data: loc } = await supabase
+        .from("locations")
+        .select(LOCATION_COLUMNS)
+        .eq("code", h.location_code)
+        .maybeSingle();
+      setLocation((loc as Location | null) ?? null);
+    }
     setUpdates((u ?? []) as any);
     setLoading(false);
+
+    // SMS reply code (server-owned; best-effort)
+    const res = await fetch(`/api/handoff/token?handoff_id=${encodeURIComponent(id)}`, {
+      headers: { Authorization: `Bearer ${sess.session.access_token}` },
+    }).catch(() => null);
+    const j = res ? await res.json().catch(() => ({})) : {};
+    setSmsToken(res?.ok ? j?.token ?? null : null);
+
+    // Audit chain check (re-walks handoff_updates hashes server-side)
+    const vres = await fetch(`/api/handoff/verify?handoff_id=${encodeURIComponent(id)}`, {
+      headers: { Authorization: `Bearer ${sess.session.access_token}` },
+    }).catch(() => null);
+    const vj = vres ? await vres.json().catch(() => ({})) : {};
+    setChain(vres?.ok ? vj?.chain ?? null : null);
   }
 
   useEffect(() => {
@@ -131,32 +315,53 @@ export default function HandoffDetailPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [id]);
 
+  // Resolution codes (DB enum; fallback list if RPC missing)
+  useEffect(() => {
+    supabase.rpc("get_cs_resolution_code_enum").then(({ data, error }) => {
+      if (error || !Array.isArray(data) || data.length === 0) return;
+      setResolutionCodes(data.map((x) => String(x)));
+    });
+  }, []);
+
+  // Priority colors (admin-managed; defaults if unavailable)
+  useEffect(() => {
+    supabase
+      .from("cs_priorities")
+      .select("value, color")
+      .then(({ data, error }) => {
+        if (!error) setPriorityColors(toColorMap(data));
+      });
+  }, []);
+
   async function addUpdate() {
     setToast(null);
     setErrorMsg(null);
-
-    const { data: sess } = await supabase.auth.getSession();
-    const user = sess.session?.user;
-    if (!user?.id) {
-      setErrorMsg("Not signed in.");
-      return;
-    }
     if (!id) return;
 
     setSavingUpdate(true);
     try {
-      const payload = {
+      // Server PHI-screens and appends (no direct client insert); with files
+      // it also sniffs types and strips EXIF. Offline, the update is queued
+      // under its client id and replayed later.
+      const updateId = newClientId();
+      const sent = await sendOrQueue({
+        id: updateId,
+        kind: "update",
         handoff_id: id,
-        author_user_id: user.id,
-        author_display_name_snapshot: user.email ?? null,
-        source: "app" as const,
-        message: newUpdate.trim(),
-      };
+        body: { id: updateId, handoff_id: id, message: newUpdate.trim() },
+        files: newFiles.map((f) => ({ name: f.name, type: f.type, blob: f })),
+      });
 
-      const { error } = await supabase.from("handoff_updates").insert(payload);
-      if (error) throw error;
+      if (!sent.queued && !sent.ok) throw new Error(String(sent.json?.error || "Failed to add update."));
 
       setNewUpdate("");
+      setNewFiles([]);
+      setFileInputKey((k) => k + 1);
+
+      if (sent.queued) {
+        setToast("📥 Saved offline. Will sync when the connection is back.");
+        return;
+      }
       setToast("✅ Update added.");
       await load();
     } catch (e: any) {
@@ -167,10 +372,9 @@ export default function HandoffDetailPage() {
   }
 
   /**
-   * ✅ FIXED FOR REAL:
-   * - Writes enum value "resolved" (NOT "closed")
-   * - Uses `.select()` to detect RLS “0 rows updated” silent-fail
-   * - Updates local state immediately
+   * ✅ Server-side resolve:
+   * - /api/handoff/resolve runs the canonical state machine
+   * - Writes enum value "resolved" + resolution code/note + the system audit row
    */
   async function markResolved() {
     setToast(null);
@@ -178,39 +382,34 @@ export default function HandoffDetailPage() {
 
     if (!handoff?.id) return;
 
+    const { data: sess } = await supabase.auth.getSession();
+    const accessToken = sess.session?.access_token;
+    if (!accessToken) {
+      setErrorMsg("Not signed in.");
+      return;
+    }
+
     setResolving(true);
     try {
-      const now = new Date().toISOString();
-
-      const { data, error } = await supabase
-        .from("handoffs")
-        .update({
-          status: "resolved",
-          last_update_at: now,
-        })
-        .eq("id", handoff.id)
-        .select("id, status, last_update_at"); // ✅ forces returned rows
-
-      if (error) throw error;
-
-      // ✅ If RLS blocks it, we get [] with no error. Catch it.
-      if (!data || data.length === 0) {
-        throw new Error(
-          "0 rows updated. RLS is blocking UPDATE on handoffs. Fix Supabase policy for UPDATE."
-        );
-      }
+      const res = await fetch("/api/handoff/resolve", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${accessToken}`,
+        },
+        body: JSON.stringify({
+          handoff_id: handoff.id,
+          resolution_code: resolutionCode,
+          resolution_note: resolutionNote.trim() || null,
+        }),
+      });
 
-      const updated = data[0];
+      const j = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(j?.error || "Failed to mark resolved.");
 
-      setHandoff((prev: any) =>
-        prev
-          ? {
-              ...prev,
-              status: updated.status,
-              last_update_at: updated.last_update_at,
-            }
-          : prev
-      );
+      setResolveOpen(false);
+      setResolutionNote("");
+      setResolutionCode(DEFAULT_RESOLUTION_CODE);
 
       setToast("✅ Marked resolved.");
       await load();
@@ -221,6 +420,90 @@ export default function HandoffDetailPage() {
     }
   }
 
+  /**
+   * Reopen (resolved -> open | needs_followup), reason required.
+   * Server records who/why as an append-only system update.
+   */
+  async function reopen() {
+    setToast(null);
+    setErrorMsg(null);
+
+    if (!handoff?.id) return;
+
+    const reason = reopenReason.trim();
+    if (reason.length < 3) {
+      setErrorMsg("Add a reason to reopen (e.g. missing epi again).");
+      return;
+    }
+
+    const { data: sess } = await supabase.auth.getSession();
+    const accessToken = sess.session?.access_token;
+    if (!accessToken) {
+      setErrorMsg("Not signed in.");
+      return;
+    }
+
+    setReopening(true);
+    try {
+      const res = await fetch("/api/handoff/status", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${accessToken}`,
+        },
+        body: JSON.stringify({ handoff_id: handoff.id, status: reopenTo, reason }),
+      });
+
+      const j = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(j?.error || "Failed to reopen.");
+
+      setReopenOpen(false);
+      setReopenReason("");
+      setToast("✅ Reopened.");
+      await load();
+    } catch (e: unknown) {
+      setErrorMsg(e instanceof Error ? e.message : "Failed to reopen.");
+    } finally {
+      setReopening(false);
+    }
+  }
+
+  async function regenerateToken() {
+    setToast(null);
+    setErrorMsg(null);
+    if (!handoff) return;
+
+    const { data: sess } = await supabase.auth.getSession();
+    const accessToken = sess.session?.access_token;
+    if (!accessToken) {
+      setErrorMsg("Not signed in.");
+      return;
+    }
+
+    setTokenBusy(true);
+    try {
+      const res = await fetch("/api/handoff/token", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${accessToken}`,
+        },
+        body: JSON.stringify({ handoff_id: handoff.id, regenerate: !!smsToken }),
+      });
+
+      const j = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(j?.error || "Failed to generate SMS code.");
+
+      setSmsToken(j.token ?? null);
+      setToast(smsToken ? "✅ New SMS code generated." : "✅ SMS code generated.");
+      await load();
+    } catch (e: unknown) {
+      setErrorMsg(e instanceof Error ? e.message : "Failed to generate SMS code.");
+    } finally {
+      setTokenBusy(false);
+    }
+  }
+
   async function sendSms() {
     setToast(null);
     setErrorMsg(null);
@@ -228,21 +511,25 @@ export default function HandoffDetailPage() {
 
     setSmsSending(true);
     try {
-      const res = await fetch("/api/sms/alert", {
+      const { data: sess } = await supabase.auth.getSession();
+      const accessToken = sess.session?.access_token;
+      if (!accessToken) throw new Error("Not signed in.");
+
+      const res = await fetch("/api/handoff/alert", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          handoff_id: handoff.id,
-          summary: handoff.summary,
-          priority: handoff.priority,
-          location_code: handoff.location_code,
-        }),
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${accessToken}` },
+        body: JSON.stringify({ handoff_id: handoff.id }),
       });
 
       const j = await res.json().catch(() => ({}));
       if (!res.ok) throw new Error(j?.error || "SMS failed.");
 
-      setToast("✅ SMS sent.");
+      const c = j.counts ?? { sent: 0, failed: 0, skipped: 0 };
+      setToast(
+        j.alerted
+          ? `✅ SMS sent (${c.sent}${c.failed ? `, ${c.failed} failed` : ""}).`
+          : `⚠️ No SMS delivered (${c.failed} failed, ${c.skipped} skipped).`
+      );
     } catch (e: any) {
       setErrorMsg(e?.message ?? "SMS failed.");
     } finally {
@@ -314,7 +601,7 @@ export default function HandoffDetailPage() {
               marginTop: 14,
               borderRadius: 14,
               padding: 14,
-              ...glowStyleForPriority(handoff.priority),
+              ...glowStyleForPriority(handoff.priority, priorityColors),
               opacity: resolvedNow ? 0.7 : 1,
             }}
           >
@@ -355,12 +642,119 @@ export default function HandoffDetailPage() {
               </span>
               {handoff.location_code && (
                 <span>
-                  Location: <b>{handoff.location_code}</b>
+                  Location:{" "}
+                  <b title={handoff.location_code}>
+                    {location ? `${location.name} (${location.code})` : handoff.location_code}
+                  </b>
+                  {location && locationDetail(location) && (
+                    <span style={{ opacity: 0.7 }}> · {locationDetail(location)}</span>
+                  )}
                 </span>
               )}
               <span>
                 Status: <b>{handoff.status || "open"}</b>
               </span>
+              {resolvedNow && handoff.resolution_code && (
+                <span>
+                  Resolution: <b>{labelEnum(handoff.resolution_code)}</b>
+                </span>
+              )}
+            </div>
+
+            {handoff.item && handoff.item_id && (
+              <div style={{ marginTop: 8, fontSize: 13 }}>
+                📦 <b>{handoff.item.sku}</b> {handoff.item.description} ×{" "}
+                <b>{formatQty(handoff.item_qty, handoff.item.uom)}</b>{" "}
+                <a
+                  href={`/items/${handoff.item_id}`}
+                  onClick={(e) => {
+                    e.preventDefault();
+                    router.push(`/items/${handoff.item_id}`);
+                  }}
+                  style={{ fontSize: 12, opacity: 0.8, color: "inherit" }}
+                >
+                  Item history →
+                </a>
+              </div>
+            )}
+
+            {detailRows.length > 0 && (
+              <div
+                style={{
+                  marginTop: 8,
+                  display: "grid",
+                  gridTemplateColumns: "max-content 1fr",
+                  gap: "4px 12px",
+                  fontSize: 13,
+                }}
+              >
+                {detailRows.map((d) => (
+                  <React.Fragment key={d.key}>
+                    <span style={{ opacity: 0.7 }}>{d.label}</span>
+                    <b>{d.value}</b>
+                  </React.Fragment>
+                ))}
+              </div>
+            )}
+
+            {resolvedNow && handoff.resolution_note && (
+              <div style={{ marginTop: 6, fontSize: 13, opacity: 0.85 }}>
+                Closing note: {handoff.resolution_note}
+              </div>
+            )}
+
+            <div
+              style={{
+                display: "flex",
+                gap: 10,
+                alignItems: "center",
+                flexWrap: "wrap",
+                marginTop: 10,
+                fontSize: 12,
+              }}
+            >
+              <span style={{ opacity: 0.85 }}>
+                SMS code:{" "}
+                {smsToken ? (
+                  <b
+                    style={{
+                      fontFamily: "ui-monospace, monospace",
+                      letterSpacing: 1,
+                      padding: "3px 8px",
+                      borderRadius: 999,
+                      border: "1px solid rgba(255,255,255,0.18)",
+                    }}
+                  >
+                    H:{smsToken.token}
+                  </b>
+                ) : (
+                  <b>{resolvedNow ? "retired" : "—"}</b>
+                )}
+              </span>
+              {smsToken?.expires_at && (
+                <span style={{ opacity: 0.6 }}>
+                  expires {new Date(smsToken.expires_at).toLocaleString()}
+                </span>
+              )}
+              {!resolvedNow &&
+                can(role, smsToken ? "handoff.token.regenerate" : "handoff.create") && (
+                  <button
+                    onClick={regenerateToken}
+                    disabled={tokenBusy}
+                    style={{
+                      padding: "6px 10px",
+                      borderRadius: 10,
+                      border: "1px solid #333",
+                      background: "transparent",
+                      color: "#fff",
+                      cursor: tokenBusy ? "not-allowed" : "pointer",
+                      opacity: tokenBusy ? 0.5 : 0.8,
+                      fontSize: 12,
+                    }}
+                  >
+                    {tokenBusy ? "Working…" : smsToken ? "Regenerate code" : "Generate SMS code"}
+                  </button>
+                )}
             </div>
 
             <div
@@ -372,8 +766,8 @@ export default function HandoffDetailPage() {
               }}
             >
               <button
-                onClick={markResolved}
-                disabled={resolving || resolvedNow}
+                onClick={() => setResolveOpen(true)}
+                disabled={resolving || resolvedNow || resolveOpen}
                 style={{
                   padding: "10px 14px",
                   borderRadius: 10,
@@ -381,7 +775,7 @@ export default function HandoffDetailPage() {
                   background: "transparent",
                   color: "#fff",
                   cursor: resolving ? "not-allowed" : "pointer",
-                  opacity: resolving || resolvedNow ? 0.5 : 0.9,
+                  opacity: resolving || resolvedNow || resolveOpen ? 0.5 : 0.9,
                   fontWeight: 800,
                 }}
               >
@@ -392,22 +786,189 @@ export default function HandoffDetailPage() {
                   : "Mark Resolved"}
               </button>
 
-              <button
-                onClick={sendSms}
-                disabled={smsSending}
+              {can(role, "sms.alert") && (
+                <button
+                  onClick={sendSms}
+                  disabled={smsSending}
+                  style={{
+                    padding: "10px 14px",
+                    borderRadius: 10,
+                    border: "1px solid #333",
+                    background: "transparent",
+                    color: "#fff",
+                    cursor: smsSending ? "not-allowed" : "pointer",
+                    opacity: smsSending ? 0.5 : 0.85,
+                  }}
+                >
+                  {smsSending ? "Sending SMS…" : "Send SMS Alert"}
+                </button>
+              )}
+
+              {resolvedNow && !reopenOpen && can(role, "handoff.reopen") && (
+                <button
+                  onClick={() => setReopenOpen(true)}
+                  style={{
+                    padding: "10px 14px",
+                    borderRadius: 10,
+                    border: "1px solid rgba(255,190,60,0.35)",
+                    background: "transparent",
+                    color: "#fff",
+                    cursor: "pointer",
+                    opacity: 0.9,
+                    fontWeight: 800,
+                  }}
+                >
+                  Reopen…
+                </button>
+              )}
+            </div>
+
+            {!resolvedNow && resolveOpen && (
+              <div
                 style={{
-                  padding: "10px 14px",
-                  borderRadius: 10,
-                  border: "1px solid #333",
-                  background: "transparent",
-                  color: "#fff",
-                  cursor: smsSending ? "not-allowed" : "pointer",
-                  opacity: smsSending ? 0.5 : 0.85,
+                  marginTop: 12,
+                  padding: 12,
+                  borderRadius: 12,
+                  border: "1px solid rgba(80,255,160,0.35)",
+                  display: "grid",
+                  gap: 8,
                 }}
               >
-                {smsSending ? "Sending SMS…" : "Send SMS Alert"}
-              </button>
-            </div>
+                <div style={{ fontWeight: 800, fontSize: 13 }}>Resolve handoff</div>
+
+                <select
+                  value={resolutionCode}
+                  onChange={(e) => setResolutionCode(e.target.value)}
+                  style={{ padding: 10, borderRadius: 10, border: "1px solid #333" }}
+                >
+                  {resolutionCodes.map((c) => (
+                    <option key={c} value={c}>
+                      {labelEnum(c)}
+                    </option>
+                  ))}
+                </select>
+
+                <textarea
+                  value={resolutionNote}
+                  onChange={(e) => setResolutionNote(e.target.value)}
+                  rows={2}
+                  placeholder={
+                    resolutionNoteRequired(resolutionCode)
+                      ? "Closing note (required)"
+                      : "Closing note (optional)"
+                  }
+                  style={{ padding: 10, borderRadius: 10, border: "1px solid #333" }}
+                />
+
+                <div style={{ display: "flex", gap: 10, flexWrap: "wrap" }}>
+                  <button
+                    onClick={markResolved}
+                    disabled={
+                      resolving ||
+                      (resolutionNoteRequired(resolutionCode) &&
+                        resolutionNote.trim().length < 3)
+                    }
+                    style={{
+                      padding: "10px 14px",
+                      borderRadius: 10,
+                      border: "1px solid #333",
+                      background: "transparent",
+                      color: "#fff",
+                      cursor: resolving ? "not-allowed" : "pointer",
+                      opacity: resolving ? 0.5 : 0.9,
+                      fontWeight: 800,
+                    }}
+                  >
+                    {resolving ? "Resolving…" : "Confirm Resolve"}
+                  </button>
+                  <button
+                    onClick={() => {
+                      setResolveOpen(false);
+                      setResolutionNote("");
+                    }}
+                    style={{
+                      padding: "10px 14px",
+                      borderRadius: 10,
+                      border: "1px solid #333",
+                      background: "transparent",
+                      color: "#fff",
+                      cursor: "pointer",
+                      opacity: 0.75,
+                    }}
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {resolvedNow && reopenOpen && (
+              <div
+                style={{
+                  marginTop: 12,
+                  padding: 12,
+                  borderRadius: 12,
+                  border: "1px solid rgba(255,190,60,0.35)",
+                  display: "grid",
+                  gap: 8,
+                }}
+              >
+                <div style={{ fontWeight: 800, fontSize: 13 }}>Reopen handoff</div>
+
+                <select
+                  value={reopenTo}
+                  onChange={(e) => setReopenTo(e.target.value as "open" | "needs_followup")}
+                  style={{ padding: 10, borderRadius: 10, border: "1px solid #333" }}
+                >
+                  <option value="open">Open</option>
+                  <option value="needs_followup">Needs follow-up</option>
+                </select>
+
+                <textarea
+                  value={reopenReason}
+                  onChange={(e) => setReopenReason(e.target.value)}
+                  rows={2}
+                  placeholder="Why is this back? (required)"
+                  style={{ padding: 10, borderRadius: 10, border: "1px solid #333" }}
+                />
+
+                <div style={{ display: "flex", gap: 10, flexWrap: "wrap" }}>
+                  <button
+                    onClick={reopen}
+                    disabled={reopening || reopenReason.trim().length < 3}
+                    style={{
+                      padding: "10px 14px",
+                      borderRadius: 10,
+                      border: "1px solid #333",
+                      background: "transparent",
+                      color: "#fff",
+                      cursor: reopening ? "not-allowed" : "pointer",
+                      opacity: reopening || reopenReason.trim().length < 3 ? 0.5 : 0.9,
+                      fontWeight: 800,
+                    }}
+                  >
+                    {reopening ? "Reopening…" : "Confirm Reopen"}
+                  </button>
+                  <button
+                    onClick={() => {
+                      setReopenOpen(false);
+                      setReopenReason("");
+                    }}
+                    style={{
+                      padding: "10px 14px",
+                      borderRadius: 10,
+                      border: "1px solid #333",
+                      background: "transparent",
+                      color: "#fff",
+                      cursor: "pointer",
+                      opacity: 0.75,
+                    }}
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            )}
           </div>
 
           <div style={{ marginTop: 18, display: "grid", gap: 10 }}>
@@ -427,6 +988,36 @@ export default function HandoffDetailPage() {
               }}
             />
 
+            {updatePhi.length > 0 && (
+              <div
+                style={{
+                  padding: 10,
+                  borderRadius: 12,
+                  border: "1px solid rgba(255,190,60,0.45)",
+                  fontSize: 13,
+                }}
+              >
+                ⚠️ Possible PHI: <b>{describePhi(updatePhi)}</b>. No patient info in updates.
+              </div>
+            )}
+
+            <div style={{ display: "grid", gap: 6 }}>
+              <input
+                key={fileInputKey}
+                type="file"
+                multiple
+                accept={ATTACHMENT_ACCEPT}
+                onChange={(e) => setNewFiles(Array.from(e.target.files ?? []))}
+                style={{ fontSize: 13 }}
+              />
+              <div style={{ fontSize: 12, opacity: fileError ? 1 : 0.65, color: fileError ? "tomato" : undefined }}>
+                {fileError ??
+                  (newFiles.length > 0
+                    ? `${newFiles.length} file(s) · photo location/device data is removed on upload`
+                    : "Optional photos or PDFs (up to 4, 10 MB each). Keep patients and labels out of frame.")}
+              </div>
+            </div>
+
             <button
               onClick={addUpdate}
               disabled={!canAddUpdate}
@@ -446,11 +1037,88 @@ export default function HandoffDetailPage() {
           </div>
 
           <div style={{ marginTop: 20 }}>
-            <h2 style={{ margin: "0 0 10px 0", fontSize: 16, opacity: 0.9 }}>
-              Updates
-            </h2>
+            <div
+              style={{
+                display: "flex",
+                alignItems: "center",
+                justifyContent: "space-between",
+                gap: 10,
+                margin: "0 0 10px 0",
+                flexWrap: "wrap",
+              }}
+            >
+              <h2 style={{ margin: 0, fontSize: 16, opacity: 0.9 }}>Updates</h2>
+
+              {chain && (
+                <span
+                  title={
+                    chain.ok
+                      ? "Every update hash matches its content and the previous update."
+                      : chain.breaks
+                          .map((b) => `#${b.seq ?? "?"}: ${b.reason.replace(/_/g, " ")}`)
+                          .join("\n")
+                  }
+                  style={{
+                    fontSize: 11,
+                    padding: "4px 9px",
+                    borderRadius: 999,
+                    fontWeight: 900,
+                    border: chain.ok
+                      ? "1px solid rgba(80,255,160,0.35)"
+                      : "1px solid rgba(255,80,80,0.6)",
+                    background: chain.ok ? "rgba(80,255,160,0.08)" : "rgba(255,80,80,0.12)",
+                  }}
+                >
+                  {chain.ok
+                    ? `🔒 Audit trail verified (${chain.count})`
+                    : `⚠️ Audit chain broken at #${chain.breaks[0]?.seq ?? "?"}`}
+                </span>
+              )}
+            </div>
+
+            {queuedUpdates.length > 0 && (
+              <div style={{ display: "grid", gap: 10, marginBottom: 10 }}>
+                {queuedUpdates.map((q) => (
+                  <div
+                    key={q.seq}
+                    style={{
+                      border: q.failed ? "1px solid rgba(255,80,80,0.6)" : "1px dashed rgba(255,190,60,0.55)",
+                      borderRadius: 12,
+                      padding: 12,
+                      opacity: 0.85,
+                    }}
+                  >
+                    <div style={{ display: "flex", justifyContent: "space-between", gap: 10, fontSize: 12 }}>
+                      <b>{q.failed ? "⚠️ NOT SYNCED" : "⏳ PENDING SYNC"}</b>
+                      <span style={{ opacity: 0.75 }}>{new Date(q.queued_at).toLocaleString()}</span>
+                    </div>
+                    <div style={{ marginTop: 8, fontSize: 14 }}>
+                      {String(q.body.message || "") || `📎 ${q.files?.map((f) => f.name).join(", ")}`}
+                    </div>
+                    {q.failed && (
+                      <div style={{ marginTop: 8, fontSize: 12, display: "flex", gap: 10, alignItems: "center" }}>
+                        <span style={{ color: "tomato" }}>{q.last_error}</span>
+                        <button
+                          onClick={() => q.seq !== undefined && discardEntry(q.seq)}
+                          style={{
+                            padding: "4px 8px",
+                            borderRadius: 8,
+                            border: "1px solid #333",
+                            background: "transparent",
+                            color: "#fff",
+                            cursor: "pointer",
+                          }}
+                        >
+                          Discard
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
 
-            {updates.length === 0 ? (
+            {updates.length === 0 && queuedUpdates.length === 0 ? (
               <div
                 style={{
                   border: "1px solid #333",
@@ -490,6 +1158,13 @@ export default function HandoffDetailPage() {
                       <span>{new Date(u.created_at).toLocaleString()}</span>
                     </div>
                     <div style={{ marginTop: 8, fontSize: 14 }}>{u.message}</div>
+                    {attachmentsByUpdate.has(u.id) && (
+                      <div style={{ display: "flex", gap: 8, flexWrap: "wrap", marginTop: 8 }}>
+                        {attachmentsByUpdate.get(u.id)!.map((a) => (
+                          <AttachmentView key={a.id} a={a} />
+                        ))}
+                      </div>
+                    )}
                   </div>
                 ))}
               </div>
@@ -0,0 +1,210 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { supabase } from "@/lib/supabaseClient";
+import { ITEM_COLUMNS, formatQty, type SupplyItem } from "@/lib/items";
+
+/** Per-item history: every handoff that referenced this item, newest first. */
+
+type ItemHandoff = {
+  id: string;
+  created_at: string;
+  summary: string;
+  status: string | null;
+  priority: string;
+  location_code: string | null;
+  item_qty: number | null;
+  created_by_display_name_snapshot: string | null;
+};
+
+const btn: React.CSSProperties = {
+  padding: "8px 12px",
+  borderRadius: 10,
+  border: "1px solid #333",
+  background: "transparent",
+  color: "#fff",
+  cursor: "pointer",
+  opacity: 0.95,
+  fontWeight: 800,
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function fmtTime(iso: string) {
+  try {
+    return new Date(iso).toLocaleString();
+  } catch {
+    return iso;
+  }
+}
+
+export default function ItemHistoryPage() {
+  const router = useRouter();
+  const params = useParams<{ id: string }>();
+  const id = params?.id;
+
+  const [loading, setLoading] = useState(true);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [item, setItem] = useState<SupplyItem | null>(null);
+  const [handoffs, setHandoffs] = useState<ItemHandoff[]>([]);
+
+  useEffect(() => {
+    if (!id) return;
+    (async () => {
+      const { data: sess } = await supabase.auth.getSession();
+      if (!sess.session?.user?.id) {
+        router.push("/auth");
+        return;
+      }
+
+      const { data: it, error: itErr } = await supabase
+        .from("supply_items")
+        .select(ITEM_COLUMNS)
+        .eq("id", id)
+        .maybeSingle();
+      if (itErr || !it) {
+        setErrorMsg(itErr?.message ?? "Item not found.");
+        setLoading(false);
+        return;
+      }
+      setItem(it as SupplyItem);
+
+      const { data: hs, error: hErr } = await supabase
+        .from("handoffs")
+        .select("id, created_at, summary, status, priority, location_code, item_qty, created_by_display_name_snapshot")
+        .eq("item_id", id)
+        .order("created_at", { ascending: false })
+        .limit(500);
+      if (hErr) setErrorMsg(hErr.message);
+      setHandoffs((hs ?? []) as ItemHandoff[]);
+      setLoading(false);
+    })();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [id]);
+
+  const summary = useMemo(() => {
+    const now = Date.now();
+    const within = (days: number) => handoffs.filter((h) => now - new Date(h.created_at).getTime() <= days * DAY);
+    const byLocation = new Map<string, number>();
+    for (const h of within(90)) {
+      const k = h.location_code ?? "—";
+      byLocation.set(k, (byLocation.get(k) ?? 0) + 1);
+    }
+    return {
+      d30: within(30).length,
+      d90: within(90).length,
+      qty90: within(90).reduce((n, h) => n + (h.item_qty ?? 0), 0),
+      open: handoffs.filter((h) => (h.status || "open") !== "resolved").length,
+      locations: Array.from(byLocation.entries()).sort((a, b) => b[1] - a[1]),
+    };
+  }, [handoffs]);
+
+  return (
+    <main style={{ minHeight: "100vh", padding: 16, fontFamily: "system-ui", maxWidth: 980, margin: "0 auto" }}>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 10 }}>
+        <h1 style={{ margin: 0, fontSize: 24 }}>{item ? `${item.sku} — ${item.description}` : "Item"}</h1>
+        <button onClick={() => router.push("/items")} style={btn}>
+          ← Items
+        </button>
+      </div>
+
+      {errorMsg && (
+        <div style={{ marginTop: 12, padding: 12, borderRadius: 12, border: "1px solid tomato" }}>
+          <b style={{ color: "tomato" }}>Error:</b> {errorMsg}
+        </div>
+      )}
+
+      {loading ? (
+        <p style={{ opacity: 0.75 }}>Loading…</p>
+      ) : (
+        item && (
+          <>
+            <div style={{ marginTop: 8, fontSize: 13, opacity: 0.8 }}>
+              UOM <b>{item.uom}</b>
+              {item.default_location_code && (
+                <>
+                  {" "}
+                  · Home <b>{item.default_location_code}</b>
+                </>
+              )}
+              {item.par_level !== null && (
+                <>
+                  {" "}
+                  · Par <b>{item.par_level}</b>
+                </>
+              )}
+              {!item.active && " · inactive"}
+            </div>
+
+            <div
+              style={{
+                marginTop: 12,
+                padding: 12,
+                borderRadius: 12,
+                border: "1px solid #333",
+                display: "flex",
+                gap: 16,
+                flexWrap: "wrap",
+                fontSize: 13,
+              }}
+            >
+              <span>
+                Last 30 days: <b>{summary.d30}</b>
+              </span>
+              <span>
+                Last 90 days: <b>{summary.d90}</b> ({formatQty(summary.qty90, item.uom)})
+              </span>
+              <span>
+                Open now: <b>{summary.open}</b>
+              </span>
+              {summary.locations.length > 0 && (
+                <span>
+                  Where (90d):{" "}
+                  {summary.locations.map(([loc, n]) => (
+                    <b key={loc} style={{ marginRight: 8 }}>
+                      {loc} ×{n}
+                    </b>
+                  ))}
+                </span>
+              )}
+            </div>
+
+            {handoffs.length === 0 ? (
+              <p style={{ opacity: 0.75 }}>No handoffs reference this item yet.</p>
+            ) : (
+              <div style={{ display: "grid", gap: 8, marginTop: 12 }}>
+                {handoffs.map((h) => (
+                  <div
+                    key={h.id}
+                    onClick={() => router.push(`/handoff/${h.id}`)}
+                    role="button"
+                    tabIndex={0}
+                    style={{
+                      border: "1px solid rgba(255,255,255,0.10)",
+                      borderRadius: 12,
+                      padding: 10,
+                      cursor: "pointer",
+                      opacity: (h.status || "open") === "resolved" ? 0.6 : 1,
+                    }}
+                  >
+                    <div style={{ display: "flex", justifyContent: "space-between", gap: 10, fontSize: 12, opacity: 0.75 }}>
+                      <span>
+                        {h.location_code ?? "—"} · {h.priority} · {(h.status || "open").replace(/_/g, " ")}
+                      </span>
+                      <span>{fmtTime(h.created_at)}</span>
+                    </div>
+                    <div style={{ fontWeight: 800, marginTop: 4 }}>{h.summary}</div>
+                    <div style={{ fontSize: 12, opacity: 0.75, marginTop: 4 }}>
+                      Qty <b>{formatQty(h.item_qty, item.uom)}</b> · by {h.created_by_display_name_snapshot ?? "—"}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )
+      )}
+    </main>
+  );
+}
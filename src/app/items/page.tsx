@@ -0,0 +1,156 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { supabase } from "@/lib/supabaseClient";
+import { ITEM_COLUMNS, matchesItem, type SupplyItem } from "@/lib/items";
+
+/** Items ranked by how often they show up on handoffs (supply_item_stats view). */
+
+type ItemStats = {
+  item_id: string;
+  handoffs_30d: number;
+  handoffs_90d: number;
+  open_count: number;
+  qty_90d: number;
+  last_handoff_at: string | null;
+};
+
+const btn: React.CSSProperties = {
+  padding: "8px 12px",
+  borderRadius: 10,
+  border: "1px solid #333",
+  background: "transparent",
+  color: "#fff",
+  cursor: "pointer",
+  opacity: 0.95,
+  fontWeight: 800,
+};
+
+function fmtTime(iso: string) {
+  try {
+    return new Date(iso).toLocaleString();
+  } catch {
+    return iso;
+  }
+}
+
+export default function ItemsPage() {
+  const router = useRouter();
+
+  const [loading, setLoading] = useState(true);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [items, setItems] = useState<SupplyItem[]>([]);
+  const [stats, setStats] = useState<Record<string, ItemStats>>({});
+  const [query, setQuery] = useState("");
+
+  useEffect(() => {
+    (async () => {
+      const { data: sess } = await supabase.auth.getSession();
+      if (!sess.session?.user?.id) {
+        router.push("/auth");
+        return;
+      }
+
+      const [it, st] = await Promise.all([
+        supabase.from("supply_items").select(ITEM_COLUMNS).order("sku"),
+        supabase.from("supply_item_stats").select("*").gt("handoffs_90d", 0),
+      ]);
+      if (it.error) setErrorMsg(it.error.message);
+      else if (st.error) setErrorMsg(st.error.message);
+
+      setItems((it.data ?? []) as SupplyItem[]);
+      setStats(Object.fromEntries(((st.data ?? []) as ItemStats[]).map((s) => [s.item_id, s])));
+      setLoading(false);
+    })();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Most-reported first; items never reported drop to the bottom
+  const ranked = useMemo(
+    () =>
+      items
+        .filter((i) => matchesItem(i, query))
+        .sort(
+          (a, b) =>
+            (stats[b.id]?.handoffs_30d ?? 0) - (stats[a.id]?.handoffs_30d ?? 0) ||
+            (stats[b.id]?.handoffs_90d ?? 0) - (stats[a.id]?.handoffs_90d ?? 0) ||
+            a.sku.localeCompare(b.sku)
+        )
+        .slice(0, 200),
+    [items, stats, query]
+  );
+
+  return (
+    <main style={{ minHeight: "100vh", padding: 16, fontFamily: "system-ui", maxWidth: 980, margin: "0 auto" }}>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 10 }}>
+        <h1 style={{ margin: 0, fontSize: 26 }}>Items</h1>
+        <button onClick={() => router.push("/")} style={btn}>
+          ← Feed
+        </button>
+      </div>
+      <p style={{ opacity: 0.75, marginTop: 8, fontSize: 13 }}>
+        Ranked by handoffs in the last 30 / 90 days — the items that keep running short.
+      </p>
+
+      {errorMsg && (
+        <div style={{ marginTop: 12, padding: 12, borderRadius: 12, border: "1px solid tomato" }}>
+          <b style={{ color: "tomato" }}>Error:</b> {errorMsg}
+        </div>
+      )}
+
+      <input
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Search SKU or description"
+        style={{ marginTop: 12, width: "100%", padding: 10, borderRadius: 10, border: "1px solid #333" }}
+      />
+
+      {loading ? (
+        <p style={{ opacity: 0.75 }}>Loading…</p>
+      ) : ranked.length === 0 ? (
+        <p style={{ opacity: 0.75 }}>No items.</p>
+      ) : (
+        <div style={{ display: "grid", gap: 8, marginTop: 12 }}>
+          {ranked.map((i) => {
+            const s = stats[i.id];
+            return (
+              <div
+                key={i.id}
+                onClick={() => router.push(`/items/${i.id}`)}
+                role="button"
+                tabIndex={0}
+                style={{
+                  border: "1px solid rgba(255,255,255,0.10)",
+                  borderRadius: 12,
+                  padding: 10,
+                  cursor: "pointer",
+                  opacity: i.active ? 1 : 0.55,
+                  display: "flex",
+                  justifyContent: "space-between",
+                  gap: 10,
+                  flexWrap: "wrap",
+                }}
+              >
+                <div style={{ minWidth: 0 }}>
+                  <b>{i.sku}</b> — {i.description}
+                  <div style={{ fontSize: 12, opacity: 0.7 }}>
+                    {i.uom}
+                    {i.default_location_code ? ` · ${i.default_location_code}` : ""}
+                    {i.par_level !== null ? ` · par ${i.par_level}` : ""}
+                    {i.active ? "" : " · inactive"}
+                  </div>
+                </div>
+                <div style={{ fontSize: 12, opacity: 0.85, textAlign: "right" }}>
+                  30d: <b>{s?.handoffs_30d ?? 0}</b> · 90d: <b>{s?.handoffs_90d ?? 0}</b> · open:{" "}
+                  <b>{s?.open_count ?? 0}</b>
+                  {s?.last_handoff_at && <div style={{ opacity: 0.7 }}>Last: {fmtTime(s.last_handoff_at)}</div>}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,20 @@
+import type { MetadataRoute } from "next";
+
+/** Served at /manifest.webmanifest; makes the feed installable */
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: "CS Handoff",
+    short_name: "CS Handoff",
+    description: "Central Supply shift handoffs",
+    start_url: "/",
+    scope: "/",
+    display: "standalone",
+    background_color: "#0a0a0a",
+    theme_color: "#0a0a0a",
+    icons: [
+      { src: "/icon-192.png", sizes: "192x192", type: "image/png", purpose: "any" },
+      { src: "/icon-512.png", sizes: "512x512", type: "image/png", purpose: "any" },
+      { src: "/icon-512.png", sizes: "512x512", type: "image/png", purpose: "maskable" },
+    ],
+  };
+}
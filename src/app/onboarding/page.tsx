@@ -3,6 +3,7 @@
 import React, { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import { supabase } from "@/lib/supabaseClient";
+import { roleLabel } from "@/lib/roles";
 
 const btn: React.CSSProperties = {
   padding: "10px 14px",
@@ -23,7 +24,7 @@ export default function OnboardingPage() {
   const [email, setEmail] = useState<string | null>(null);
 
   const [displayName, setDisplayName] = useState("");
-  const [role, setRole] = useState("CS");
+  const [role, setRole] = useState<string | null>(null); // read-only; admins assign roles
   const [shift, setShift] = useState<"AM" | "PM" | "NOC">("AM");
 
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
@@ -87,7 +88,6 @@ export default function OnboardingPage() {
       {
         user_id: userId,
         display_name: dn,
-        role: role.trim() || "CS",
         shift,
       },
       { onConflict: "user_id" }
@@ -169,26 +169,28 @@ export default function OnboardingPage() {
           />
         </label>
 
-        <label style={{ display: "grid", gap: 6 }}>
+        <div style={{ display: "grid", gap: 6 }}>
           <span style={{ opacity: 0.8, fontSize: 13, fontWeight: 800 }}>
             Role
           </span>
-          <input
-            value={role}
-            onChange={(e) => setRole(e.target.value)}
-            placeholder="CS"
+          <div
             style={{
               padding: "12px 12px",
               borderRadius: 12,
-              border: "1px solid rgba(255,255,255,0.14)",
-              background: "rgba(255,255,255,0.04)",
+              border: "1px solid rgba(255,255,255,0.10)",
+              background: "rgba(255,255,255,0.02)",
               color: "#fff",
-              outline: "none",
               fontSize: 16,
               fontWeight: 800,
+              opacity: 0.8,
             }}
-          />
-        </label>
+          >
+            {roleLabel(role)}
+          </div>
+          <span style={{ opacity: 0.6, fontSize: 12 }}>
+            Roles are assigned by an admin.
+          </span>
+        </div>
 
         <label style={{ display: "grid", gap: 6 }}>
           <span style={{ opacity: 0.8, fontSize: 13, fontWeight: 800 }}>
@@ -1,30 +1,58 @@
 "use client";
 
-import React, { useEffect, useMemo, useState } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 import { useRouter } from "next/navigation";
+import type { RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+import { useWindowVirtualizer } from "@tanstack/react-virtual";
 import { supabase } from "@/lib/supabaseClient";
+import { can, normRole, type Role } from "@/lib/roles";
+import {
+  DEFAULT_CATEGORY_COLOR,
+  glowStyleForPriority,
+  hexToRgba,
+  priorityColor,
+  toColorMap,
+  type ColorMap,
+} from "@/lib/options";
+import { LOCATION_COLUMNS, locationDetail, type Location } from "@/lib/locations";
+import { formatQty } from "@/lib/items";
+import {
+  FEED_COLUMNS,
+  RESYNC_LIMIT,
+  RESYNC_OVERLAP_MS,
+  compareFeedRows,
+  countFeed,
+  feedCursor,
+  fetchFeedPage,
+  mergeFeedRows,
+  needsItemEmbed,
+  removeFeedRow,
+  type FeedCursor,
+  type FeedStream,
+  type HandoffRow,
+} from "@/lib/handoffs/feed";
+import {
+  EMPTY_FEED_FILTERS,
+  STATUS_FILTER_LABELS,
+  countFeedFilters,
+  feedFiltersSearch,
+  filtersWantResolved,
+  matchesFeedFilters,
+  parseFeedFilters,
+  type FeedFilters,
+} from "@/lib/handoffs/filters";
+import { normStatus } from "@/lib/handoffs/status";
+import { discardEntry, type OutboxEntry } from "@/lib/offline/queue";
+import { useOutbox } from "@/lib/offline/useOutbox";
+import {
+  disablePush,
+  enablePush,
+  isPushEnabled,
+  pushSupported,
+  syncPushSubscription,
+} from "@/lib/push/client";
+import FeedFilterBar, { type FilterOption } from "./FeedFilterBar";
 
-type HandoffRow = {
-  id: string;
-  created_at: string;
-  summary: string;
-  category: string;
-  priority: string;
-  location_code: string | null;
-  status: string | null;
-  last_update_at?: string | null;
-
-  // ✅ fast feed attribution (set by update/resolve flow)
-  last_update_by_snapshot?: string | null;
-};
-
-/**
- * ✅ Canonical cs_status enum values:
- * open | needs_followup | resolved
- */
-function normStatus(status?: string | null) {
-  return (status || "open").trim().toLowerCase();
-}
 function isResolvedStatus(status?: string | null) {
   return normStatus(status) === "resolved";
 }
@@ -32,28 +60,6 @@ function isFollowupStatus(status?: string | null) {
   return normStatus(status) === "needs_followup";
 }
 
-/** Soft glow by priority (low/medium/high) — OPEN only */
-function glowStyleForPriority(priority?: string) {
-  const p = (priority || "").toLowerCase();
-  if (p === "high")
-    return {
-      boxShadow:
-        "0 0 18px rgba(255, 80, 80, 0.25), 0 0 42px rgba(255, 80, 80, 0.12)",
-      border: "1px solid rgba(255, 80, 80, 0.28)",
-    };
-  if (p === "medium")
-    return {
-      boxShadow:
-        "0 0 18px rgba(255, 190, 60, 0.22), 0 0 42px rgba(255, 190, 60, 0.10)",
-      border: "1px solid rgba(255, 190, 60, 0.26)",
-    };
-  return {
-    boxShadow:
-      "0 0 18px rgba(80, 255, 160, 0.18), 0 0 42px rgba(80, 255, 160, 0.08)",
-    border: "1px solid rgba(80, 255, 160, 0.22)",
-  };
-}
-
 /** Resolved style — dim but still readable */
 function resolvedCardStyle(): React.CSSProperties {
   return {
@@ -65,18 +71,15 @@ function resolvedCardStyle(): React.CSSProperties {
   };
 }
 
-function priorityDot(priority?: string) {
-  const p = (priority || "").toLowerCase();
-  const base: React.CSSProperties = {
+function priorityDot(priority?: string, colors?: ColorMap): React.CSSProperties {
+  return {
     width: 10,
     height: 10,
     borderRadius: 999,
     border: "1px solid rgba(255,255,255,0.22)",
     opacity: 0.95,
+    background: hexToRgba(priorityColor(priority, colors), 0.9),
   };
-  if (p === "high") return { ...base, background: "rgba(255,80,80,0.9)" };
-  if (p === "medium") return { ...base, background: "rgba(255,190,60,0.9)" };
-  return { ...base, background: "rgba(80,255,160,0.85)" };
 }
 
 /** Status pill (OPEN / FOLLOW-UP / RESOLVED) */
@@ -115,6 +118,48 @@ function StatusPill({ status }: { status?: string | null }) {
   );
 }
 
+/** Feed card for a create still in the offline outbox */
+function queuedCreateRow(e: OutboxEntry): HandoffRow {
+  return {
+    id: e.id,
+    created_at: e.queued_at,
+    summary: e.preview?.summary ?? "",
+    category: e.preview?.category ?? "",
+    priority: e.preview?.priority ?? "",
+    location_code: e.preview?.location_code ?? null,
+    status: "open",
+    last_update_at: e.queued_at,
+  };
+}
+
+/** Small pill for outbox state on a card */
+function SyncPill({ failed, title }: { failed: boolean; title?: string }) {
+  return (
+    <span
+      title={title}
+      style={{
+        fontSize: 11,
+        padding: "4px 8px",
+        borderRadius: 999,
+        border: failed ? "1px solid rgba(255,80,80,0.55)" : "1px dashed rgba(255,190,60,0.55)",
+        background: failed ? "rgba(255,80,80,0.10)" : "rgba(255,190,60,0.06)",
+        fontWeight: 900,
+        opacity: 0.95,
+      }}
+    >
+      {failed ? "⚠️ Sync failed" : "⏳ Pending sync"}
+    </span>
+  );
+}
+
+/** Paging state of one feed stream (open / resolved) */
+type StreamState = { cursor: FeedCursor | null; done: boolean; loaded: boolean };
+
+const EMPTY_STREAM: StreamState = { cursor: null, done: false, loaded: false };
+
+/** Card height guess until the virtualizer measures it */
+const ESTIMATED_CARD_HEIGHT = 150;
+
 function fmtTime(iso: string) {
   try {
     return new Date(iso).toLocaleString();
@@ -133,35 +178,67 @@ export default function Page() {
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
   const [handoffs, setHandoffs] = useState<HandoffRow[]>([]);
   const [showResolved, setShowResolved] = useState(false);
+  const [role, setRole] = useState<Role>("tech");
+  const [priorityColors, setPriorityColors] = useState<ColorMap>({});
+  const [categoryColors, setCategoryColors] = useState<ColorMap>({});
+  const [locationsByCode, setLocationsByCode] = useState<Record<string, Location>>({});
+  const [pushOn, setPushOn] = useState<boolean | null>(null); // null = unsupported / unknown
+  const [pushBusy, setPushBusy] = useState(false);
+  const [streams, setStreams] = useState<Record<FeedStream, StreamState>>({
+    open: EMPTY_STREAM,
+    resolved: EMPTY_STREAM,
+  });
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [totals, setTotals] = useState<{ open: number; resolved: number } | null>(null);
+  const [filters, setFilters] = useState<FeedFilters>(EMPTY_FEED_FILTERS);
+  const [filtersOpen, setFiltersOpen] = useState(false);
+  const [categoryOptions, setCategoryOptions] = useState<FilterOption[]>([]);
+  const [priorityOptions, setPriorityOptions] = useState<FilterOption[]>([]);
 
   // Detail nav is live
   const ENABLE_DETAIL_NAV = true;
 
-  const visibleHandoffs = useMemo(() => {
-    const sorted = [...handoffs].sort((a, b) => {
-      const ar = isResolvedStatus(a.status);
-      const br = isResolvedStatus(b.status);
-
-      // unresolved first
-      if (ar !== br) return ar ? 1 : -1;
+  // Offline outbox: queued creates show as cards, queued updates badge theirs
+  const { entries: outbox } = useOutbox(() => resyncFeed());
+  const outboxByHandoff = useMemo(() => {
+    const m = new Map<string, OutboxEntry[]>();
+    for (const e of outbox) m.set(e.handoff_id, [...(m.get(e.handoff_id) ?? []), e]);
+    return m;
+  }, [outbox]);
+  const queuedCreateIds = useMemo(() => {
+    const loaded = new Set(handoffs.map((h) => h.id));
+    return new Set(outbox.filter((e) => e.kind === "create" && !loaded.has(e.id)).map((e) => e.id));
+  }, [outbox, handoffs]);
+  const feedRows = useMemo(
+    () => [
+      ...outbox.filter((e) => queuedCreateIds.has(e.id) && e.kind === "create").map(queuedCreateRow),
+      ...handoffs,
+    ],
+    [outbox, queuedCreateIds, handoffs]
+  );
 
-      // newest first (use last_update_at when present)
-      const at = new Date(a.last_update_at ?? a.created_at).getTime();
-      const bt = new Date(b.last_update_at ?? b.created_at).getTime();
-      return bt - at;
-    });
+  const resolvedShown = showResolved || filtersWantResolved(filters);
+  const activeFilterCount = countFeedFilters(filters);
 
-    if (showResolved) return sorted;
+  // Unresolved first, newest first (same key the server pages on). Resolved
+  // cards only show once every open page is in, so nothing sorts out of place.
+  // Pages arrive filtered; realtime rows and queued creates are checked here.
+  const visibleHandoffs = useMemo(() => {
+    const sorted = [...feedRows].filter((h) => matchesFeedFilters(h, filters)).sort(compareFeedRows);
+    if (resolvedShown && streams.open.done) return sorted;
     return sorted.filter((h) => !isResolvedStatus(h.status));
-  }, [handoffs, showResolved]);
+  }, [feedRows, filters, resolvedShown, streams.open.done]);
 
-  const openCount = useMemo(
-    () => handoffs.filter((h) => !isResolvedStatus(h.status)).length,
-    [handoffs]
-  );
+  // Server totals (pages hold only part of the feed); loaded rows until known
+  const openCount = useMemo(() => {
+    const matching = feedRows.filter((h) => !isResolvedStatus(h.status) && matchesFeedFilters(h, filters));
+    return totals ? totals.open + matching.filter((h) => queuedCreateIds.has(h.id)).length : matching.length;
+  }, [totals, queuedCreateIds, feedRows, filters]);
   const resolvedCount = useMemo(
-    () => handoffs.filter((h) => isResolvedStatus(h.status)).length,
-    [handoffs]
+    () =>
+      totals?.resolved ??
+      handoffs.filter((h) => isResolvedStatus(h.status) && matchesFeedFilters(h, filters)).length,
+    [totals, handoffs, filters]
   );
 
   async function loadSessionAndFeed() {
@@ -191,7 +268,7 @@ export default function Page() {
     // ✅ onboarding gate — must have display_name + shift
     const { data: prof, error: profErr } = await supabase
       .from("profiles")
-      .select("display_name, shift")
+      .select("display_name, shift, role")
       .eq("user_id", uid)
       .maybeSingle();
 
@@ -209,77 +286,232 @@ export default function Page() {
       router.push("/onboarding");
       return;
     }
+    setRole(normRole(prof?.role));
+
+    // Admin-managed display colors and filter options (fall back to defaults on error)
+    const [pri, cat, locs] = await Promise.all([
+      supabase.from("cs_priorities").select("value, label, color").order("sort_order"),
+      supabase.from("cs_categories").select("value, label, color").order("sort_order"),
+      supabase.from("locations").select(LOCATION_COLUMNS).order("sort_order").order("code"),
+    ]);
+    if (!pri.error) {
+      setPriorityColors(toColorMap(pri.data));
+      setPriorityOptions((pri.data ?? []).map((o) => ({ value: o.value, label: o.label || o.value })));
+    }
+    if (!cat.error) {
+      setCategoryColors(toColorMap(cat.data));
+      setCategoryOptions((cat.data ?? []).map((o) => ({ value: o.value, label: o.label || o.value })));
+    }
+    if (!locs.error)
+      setLocationsByCode(
+        Object.fromEntries(((locs.data ?? []) as Location[]).map((l) => [l.code, l]))
+      );
 
-    // ✅ Feed fetch includes last_update_by_snapshot
-    const { data, error } = await supabase
-      .from("handoffs")
-      .select(
-        "id, created_at, summary, category, priority, location_code, status, last_update_at, last_update_by_snapshot"
-      )
-      .order("last_update_at", { ascending: false, nullsFirst: false })
-      .order("created_at", { ascending: false });
-
-    if (error) {
-      setErrorMsg(error.message);
+    await reloadFeed();
+  }
+
+  // ✅ First page of open handoffs under the current filters (includes
+  // last_update_by_snapshot); more pages and the resolved stream load on scroll
+  async function reloadFeed() {
+    const gen = ++feedGenRef.current;
+    let first;
+    try {
+      first = await fetchFeedPage(supabase, "open", null, filtersRef.current);
+    } catch (e) {
+      if (gen !== feedGenRef.current) return;
+      setErrorMsg(e instanceof Error ? e.message : "Failed to load handoffs");
       setLoading(false);
       return;
     }
+    if (gen !== feedGenRef.current) return;
 
-    setHandoffs((data ?? []) as HandoffRow[]);
+    cursorRef.current = feedCursor(first.rows);
+    setHandoffs(first.rows);
+    setStream("open", { cursor: first.cursor, done: first.done, loaded: true });
+    setStream("resolved", EMPTY_STREAM);
     setLoading(false);
+    loadTotals();
+  }
+
+  // Filters live in the URL (?priority=high&location=ICU3) so views can be shared
+  const filtersRef = useRef<FeedFilters>(EMPTY_FEED_FILTERS);
+
+  function changeFilters(next: FeedFilters) {
+    filtersRef.current = next;
+    setFilters(next);
+    setTotals(null);
+    window.history.replaceState(null, "", `${window.location.pathname}${feedFiltersSearch(next)}`);
+    if (userId) reloadFeed();
   }
 
-  // Auth + initial load
+  // Paging: a full reload bumps the generation so in-flight pages are dropped
+  const feedGenRef = useRef(0);
+  const streamsRef = useRef(streams);
+  const loadingMoreRef = useRef(false);
+
+  function setStream(stream: FeedStream, st: StreamState) {
+    streamsRef.current = { ...streamsRef.current, [stream]: st };
+    setStreams(streamsRef.current);
+  }
+
+  async function loadMore(stream: FeedStream) {
+    const st = streamsRef.current[stream];
+    if (st.done || loadingMoreRef.current) return;
+
+    const gen = feedGenRef.current;
+    loadingMoreRef.current = true;
+    setLoadingMore(true);
+    try {
+      const page = await fetchFeedPage(supabase, stream, st.cursor, filtersRef.current);
+      if (gen !== feedGenRef.current) return;
+      applyRows(page.rows);
+      setStream(stream, { cursor: page.cursor, done: page.done, loaded: true });
+    } catch (e) {
+      setErrorMsg(e instanceof Error ? e.message : "Failed to load more handoffs");
+    } finally {
+      loadingMoreRef.current = false;
+      setLoadingMore(false);
+    }
+  }
+
+  async function loadTotals() {
+    const gen = feedGenRef.current;
+    const f = filtersRef.current;
+    try {
+      const [open, resolved] = await Promise.all([
+        countFeed(supabase, "open", f),
+        countFeed(supabase, "resolved", f),
+      ]);
+      if (gen === feedGenRef.current) setTotals({ open, resolved });
+    } catch {
+      // counts fall back to loaded rows
+    }
+  }
+
+  // Realtime bursts (a shift's worth of updates) recount once
+  const totalsTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  function scheduleTotals() {
+    if (totalsTimerRef.current) clearTimeout(totalsTimerRef.current);
+    totalsTimerRef.current = setTimeout(loadTotals, 1500);
+  }
+
+  // Realtime cursor: newest handoffs.updated_at merged into local state
+  const cursorRef = useRef<string | null>(null);
+  const resyncingRef = useRef(false);
+  const handoffsRef = useRef<HandoffRow[]>([]);
+  useEffect(() => {
+    handoffsRef.current = handoffs;
+  }, [handoffs]);
+
+  /** Merge changed rows; fetch the item embed for rows that arrived without one */
+  function applyRows(rows: Partial<HandoffRow>[]) {
+    if (rows.length === 0) return;
+    cursorRef.current = feedCursor(rows, cursorRef.current);
+
+    const known = new Map(handoffsRef.current.map((h) => [h.id, h]));
+    const missing = rows.filter((r) => r.id && r.item === undefined && needsItemEmbed(known.get(r.id), r));
+
+    setHandoffs((prev) => mergeFeedRows(prev, rows));
+
+    if (missing.length > 0) {
+      supabase
+        .from("handoffs")
+        .select(FEED_COLUMNS)
+        .in("id", missing.map((r) => r.id as string))
+        .then(({ data }) => {
+          if (data) setHandoffs((prev) => mergeFeedRows(prev, data as unknown as HandoffRow[]));
+        });
+    }
+  }
+
+  /**
+   * Catch up after a dropped connection, a hidden tab or an outbox flush:
+   * re-read rows changed since the cursor (minus a small overlap). Falls back
+   * to a full reload with no cursor, on error, or when too much changed.
+   */
+  async function resyncFeed() {
+    const cursor = cursorRef.current;
+    if (!cursor) return loadSessionAndFeed();
+    if (resyncingRef.current) return;
+
+    resyncingRef.current = true;
+    try {
+      const since = new Date(new Date(cursor).getTime() - RESYNC_OVERLAP_MS).toISOString();
+      const { data, error } = await supabase
+        .from("handoffs")
+        .select(FEED_COLUMNS)
+        .gt("updated_at", since)
+        .order("updated_at")
+        .limit(RESYNC_LIMIT + 1);
+
+      if (error || (data?.length ?? 0) > RESYNC_LIMIT) {
+        await loadSessionAndFeed();
+        return;
+      }
+      applyRows((data ?? []) as unknown as HandoffRow[]);
+      loadTotals();
+    } finally {
+      resyncingRef.current = false;
+    }
+  }
+
+  // Auth + initial load (filters from the URL first)
   useEffect(() => {
+    filtersRef.current = parseFeedFilters(window.location.search);
+    setFilters(filtersRef.current);
     loadSessionAndFeed();
 
-    const { data: sub } = supabase.auth.onAuthStateChange((_event, session) => {
+    const { data: sub } = supabase.auth.onAuthStateChange((event, session) => {
       setSessionEmail(session?.user?.email ?? null);
       setUserId(session?.user?.id ?? null);
-      loadSessionAndFeed();
+      // Hourly token refreshes and the initial event don't change what's visible
+      if (event !== "TOKEN_REFRESHED" && event !== "INITIAL_SESSION") loadSessionAndFeed();
     });
 
     return () => sub.subscription.unsubscribe();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
-  // Refresh on focus/visibility
+  // Catch up on focus/visibility/reconnect (events may have been missed)
   useEffect(() => {
-    const onFocus = () => loadSessionAndFeed();
+    const onFocus = () => resyncFeed();
     const onVis = () => {
-      if (document.visibilityState === "visible") loadSessionAndFeed();
+      if (document.visibilityState === "visible") resyncFeed();
     };
 
     window.addEventListener("focus", onFocus);
+    window.addEventListener("online", onFocus);
     document.addEventListener("visibilitychange", onVis);
 
     return () => {
       window.removeEventListener("focus", onFocus);
+      window.removeEventListener("online", onFocus);
       document.removeEventListener("visibilitychange", onVis);
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
-  // Realtime refresh on inserts/updates
+  // Realtime: apply row payloads in place. handoff_updates needs no listener of
+  // its own: every appended update bumps its handoff row (hash-chain head),
+  // which arrives here as an UPDATE with the new last_update_at.
   useEffect(() => {
+    const onChange = (payload: RealtimePostgresChangesPayload<HandoffRow>) => {
+      scheduleTotals();
+      if (payload.eventType === "DELETE") {
+        const id = payload.old.id;
+        if (id) setHandoffs((prev) => removeFeedRow(prev, id));
+        return;
+      }
+      applyRows([payload.new]);
+    };
+
     const ch = supabase
       .channel("feed")
-      .on(
-        "postgres_changes",
-        { event: "INSERT", schema: "public", table: "handoffs" },
-        loadSessionAndFeed
-      )
-      .on(
-        "postgres_changes",
-        { event: "UPDATE", schema: "public", table: "handoffs" },
-        loadSessionAndFeed
-      )
-      .on(
-        "postgres_changes",
-        { event: "INSERT", schema: "public", table: "handoff_updates" },
-        loadSessionAndFeed
-      )
-      .subscribe();
+      .on("postgres_changes", { event: "*", schema: "public", table: "handoffs" }, onChange)
+      .subscribe((status) => {
+        // (Re)joined: anything between the last event and now was missed
+        if (status === "SUBSCRIBED" && cursorRef.current) resyncFeed();
+      });
 
     return () => {
       supabase.removeChannel(ch);
@@ -287,7 +519,30 @@ export default function Page() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  // Web Push state for this device; refresh the stored subscription silently
+  useEffect(() => {
+    if (!userId || !pushSupported()) return;
+    isPushEnabled().then(setPushOn);
+    syncPushSubscription();
+  }, [userId]);
+
+  async function togglePush() {
+    setErrorMsg(null);
+    setPushBusy(true);
+    try {
+      if (pushOn) await disablePush();
+      else await enablePush();
+      setPushOn(await isPushEnabled());
+    } catch (e) {
+      setErrorMsg(e instanceof Error ? e.message : "Could not change notifications.");
+    } finally {
+      setPushBusy(false);
+    }
+  }
+
   async function signOut() {
+    // Shared devices: stop this browser's alerts with the session
+    if (pushOn) await disablePush().catch(() => {});
     await supabase.auth.signOut();
     setSessionEmail(null);
     setUserId(null);
@@ -297,12 +552,69 @@ export default function Page() {
 
   function onRowClick(id: string) {
     if (!ENABLE_DETAIL_NAV) return;
+
+    // Not on the server yet: nothing to open; a rejected one can be discarded
+    if (queuedCreateIds.has(id)) {
+      const failed = outboxByHandoff.get(id)?.find((e) => e.kind === "create" && e.failed);
+      if (failed?.seq !== undefined && window.confirm(`Sync failed: ${failed.last_error}\n\nDiscard this handoff?`))
+        discardEntry(failed.seq);
+      return;
+    }
+
     router.push(`/handoff/${id}`);
   }
 
   const hasVisible = visibleHandoffs.length > 0;
 
+  // Virtualized card list (window scroll); only cards near the viewport mount
+  const listRef = useRef<HTMLDivElement>(null);
+  const [listTop, setListTop] = useState(0);
+  useEffect(() => {
+    // Banners and the actions row above the list change height; track its offset
+    const measure = () => {
+      const el = listRef.current;
+      if (el) setListTop(Math.round(el.getBoundingClientRect().top + window.scrollY));
+    };
+    measure();
+    const ro = new ResizeObserver(measure);
+    ro.observe(document.body);
+    return () => ro.disconnect();
+  }, [hasVisible]);
+  const virtualizer = useWindowVirtualizer({
+    count: visibleHandoffs.length,
+    estimateSize: () => ESTIMATED_CARD_HEIGHT,
+    overscan: 6,
+    scrollMargin: listTop,
+    getItemKey: (i) => visibleHandoffs[i].id,
+  });
+  const virtualRows = virtualizer.getVirtualItems();
+  const lastRendered = virtualRows.length > 0 ? virtualRows[virtualRows.length - 1].index : -1;
+
+  // Infinite scroll: open pages first, then resolved ones when shown
+  useEffect(() => {
+    if (loading || !userId || lastRendered < visibleHandoffs.length - 8) return;
+    if (!streams.open.done) loadMore("open");
+    else if (resolvedShown && !streams.resolved.done) loadMore("resolved");
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [loading, userId, lastRendered, visibleHandoffs.length, streams, resolvedShown]);
+
+  const moreToLoad = !streams.open.done || (resolvedShown && !streams.resolved.done);
+
   // --- Styles (inline) ---
+  const filterBar = (
+    <FeedFilterBar
+      filters={filters}
+      onChange={changeFilters}
+      categories={categoryOptions}
+      priorities={priorityOptions}
+      locations={Object.values(locationsByCode).sort(
+        (a, b) => a.sort_order - b.sort_order || a.code.localeCompare(b.code)
+      )}
+      categoryColors={categoryColors}
+      priorityColors={priorityColors}
+    />
+  );
+
   const btnBase: React.CSSProperties = {
     padding: "10px 14px",
     borderRadius: 10,
@@ -389,6 +701,39 @@ export default function Page() {
             Open: <b>{openCount}</b> · Resolved: <b>{resolvedCount}</b>
           </div>
 
+          {activeFilterCount > 0 && (
+            <div style={{ marginTop: 6, fontSize: 12, display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center" }}>
+              <span style={{ opacity: 0.8 }}>
+                Filtered:{" "}
+                <b>
+                  {[
+                    ...filters.status.map((v) => STATUS_FILTER_LABELS[v]),
+                    ...filters.priority,
+                    ...filters.category,
+                    ...filters.shift.map((v) => `${v} shift`),
+                    ...filters.location,
+                  ].join(" · ")}
+                </b>
+              </span>
+              <button
+                onClick={() => changeFilters(EMPTY_FEED_FILTERS)}
+                style={{
+                  padding: "2px 8px",
+                  borderRadius: 999,
+                  border: "1px solid rgba(255,255,255,0.14)",
+                  background: "transparent",
+                  color: "#fff",
+                  cursor: "pointer",
+                  fontSize: 11,
+                  fontWeight: 750,
+                  opacity: 0.8,
+                }}
+              >
+                Clear
+              </button>
+            </div>
+          )}
+
           {userId && (
             <button
               onClick={signOut}
@@ -434,6 +779,14 @@ export default function Page() {
             {showResolved ? "Hide Resolved" : "Show Resolved"}
           </button>
 
+          <button
+            onClick={() => setFiltersOpen((v) => !v)}
+            style={{ ...btnBase, fontWeight: activeFilterCount > 0 ? 850 : 750 }}
+            title="Filter by status, priority, category, shift and location"
+          >
+            {activeFilterCount > 0 ? `Filters (${activeFilterCount})` : "Filters"}
+          </button>
+
           <button
             onClick={() => router.push("/create")}
             disabled={!userId}
@@ -453,6 +806,35 @@ export default function Page() {
           >
             Refresh
           </button>
+
+          {userId && pushOn !== null && (
+            <button
+              onClick={togglePush}
+              disabled={pushBusy}
+              style={{ ...btnBase, opacity: 0.85, fontWeight: 700 }}
+              title="Push alerts for high-priority handoffs on this device"
+            >
+              {pushOn ? "🔔 Alerts on" : "🔕 Alerts off"}
+            </button>
+          )}
+
+          {userId && (
+            <button
+              onClick={() => router.push("/items")}
+              style={{ ...btnBase, opacity: 0.85, fontWeight: 700 }}
+            >
+              Items
+            </button>
+          )}
+
+          {userId && can(role, "admin.users") && (
+            <button
+              onClick={() => router.push("/admin")}
+              style={{ ...btnBase, opacity: 0.85, fontWeight: 700 }}
+            >
+              Admin
+            </button>
+          )}
         </div>
       </div>
 
@@ -462,6 +844,9 @@ export default function Page() {
         @media (max-width: 767px) {
           .cs-desktop-actions { display: none !important; }
         }
+        @media (max-width: 767px) {
+          .cs-desktop-only { display: none !important; }
+        }
         /* Mobile sticky bar hidden on desktop */
         @media (min-width: 768px) {
           .cs-mobile-bar { display: none !important; }
@@ -474,6 +859,13 @@ export default function Page() {
         }
       `}</style>
 
+      {/* Desktop filter panel (mobile opens it in the sticky bar) */}
+      {filtersOpen && (
+        <div className="cs-desktop-only" style={{ marginTop: 14 }}>
+          {filterBar}
+        </div>
+      )}
+
       {errorMsg && (
         <div
           style={{
@@ -540,7 +932,9 @@ export default function Page() {
               All clear.
             </div>
             <div style={{ opacity: 0.82, fontSize: 13 }}>
-              {showResolved
+              {activeFilterCount > 0
+                ? "No handoffs match these filters."
+                : showResolved
                 ? "No handoffs yet. Create the first one."
                 : "No open handoffs right now. You can create one, or show resolved."}
             </div>
@@ -564,12 +958,22 @@ export default function Page() {
               >
                 + Create Handoff
               </button>
-              <button
-                onClick={() => setShowResolved(true)}
-                style={{ ...btnBase, opacity: 0.85 }}
-              >
-                Show Resolved
-              </button>
+              {!resolvedShown && (
+                <button
+                  onClick={() => setShowResolved(true)}
+                  style={{ ...btnBase, opacity: 0.85 }}
+                >
+                  Show Resolved
+                </button>
+              )}
+              {activeFilterCount > 0 && (
+                <button
+                  onClick={() => changeFilters(EMPTY_FEED_FILTERS)}
+                  style={{ ...btnBase, opacity: 0.85 }}
+                >
+                  Clear filters
+                </button>
+              )}
             </div>
           </div>
         ) : (
@@ -591,11 +995,18 @@ export default function Page() {
               </div>
             )}
 
-            <div style={{ display: "grid", gap: 10, marginTop: 12 }}>
-              {visibleHandoffs.map((h) => {
+            <div
+              ref={listRef}
+              style={{ position: "relative", height: virtualizer.getTotalSize(), marginTop: 12 }}
+            >
+              {virtualRows.map((vr) => {
+                const h = visibleHandoffs[vr.index];
                 const resolved = isResolvedStatus(h.status);
                 const followup = isFollowupStatus(h.status);
                 const ts = h.last_update_at ?? h.created_at;
+                const loc = h.location_code ? locationsByCode[h.location_code] : undefined;
+                const queued = outboxByHandoff.get(h.id) ?? [];
+                const syncFailed = queued.find((e) => e.failed);
 
                 const cardStyle: React.CSSProperties = {
                   borderRadius: 14,
@@ -608,7 +1019,7 @@ export default function Page() {
                 if (resolved) {
                   Object.assign(cardStyle, resolvedCardStyle());
                 } else {
-                  Object.assign(cardStyle, glowStyleForPriority(h.priority));
+                  Object.assign(cardStyle, glowStyleForPriority(h.priority, priorityColors));
                   cardStyle.opacity = 0.96;
                 }
 
@@ -618,7 +1029,19 @@ export default function Page() {
 
                 return (
                   <div
-                    key={h.id}
+                    key={vr.key}
+                    data-index={vr.index}
+                    ref={virtualizer.measureElement}
+                    style={{
+                      position: "absolute",
+                      top: 0,
+                      left: 0,
+                      width: "100%",
+                      paddingBottom: 10,
+                      transform: `translateY(${vr.start - virtualizer.options.scrollMargin}px)`,
+                    }}
+                  >
+                  <div
                     onClick={() => onRowClick(h.id)}
                     role={ENABLE_DETAIL_NAV ? "button" : undefined}
                     tabIndex={ENABLE_DETAIL_NAV ? 0 : -1}
@@ -654,17 +1077,26 @@ export default function Page() {
                             background: "rgba(255,255,255,0.04)",
                             whiteSpace: "nowrap",
                           }}
+                          title={
+                            loc ? [loc.code, locationDetail(loc)].filter(Boolean).join(" · ") : undefined
+                          }
                         >
-                          {h.location_code ? h.location_code : "—"}
+                          {loc?.name ?? h.location_code ?? "—"}
                         </span>
 
-                        <span style={{ opacity: 0.65, fontSize: 12 }}>
+                        <span
+                          style={{
+                            opacity: 0.8,
+                            fontSize: 12,
+                            color: categoryColors[h.category] ?? DEFAULT_CATEGORY_COLOR,
+                          }}
+                        >
                           {h.category}
                         </span>
                       </div>
 
                       <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
-                        <div style={priorityDot(h.priority)} />
+                        <div style={priorityDot(h.priority, priorityColors)} />
                       </div>
                     </div>
 
@@ -684,6 +1116,22 @@ export default function Page() {
                       {h.summary}
                     </div>
 
+                    {h.item && (
+                      <div
+                        style={{
+                          marginTop: 6,
+                          fontSize: 12,
+                          opacity: 0.8,
+                          whiteSpace: "nowrap",
+                          overflow: "hidden",
+                          textOverflow: "ellipsis",
+                        }}
+                        title={`${h.item.sku} — ${h.item.description}`}
+                      >
+                        📦 <b>{h.item.sku}</b> {h.item.description} × <b>{formatQty(h.item_qty, h.item.uom)}</b>
+                      </div>
+                    )}
+
                     {/* Bottom row */}
                     <div
                       style={{
@@ -695,8 +1143,17 @@ export default function Page() {
                         flexWrap: "wrap",
                       }}
                     >
-                      <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+                      <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
                         <StatusPill status={h.status} />
+                        {queued.length > 0 && (
+                          <SyncPill
+                            failed={!!syncFailed}
+                            title={
+                              syncFailed?.last_error ??
+                              `${queued.length} change(s) saved on this device, waiting for a connection`
+                            }
+                          />
+                        )}
                         {followup && !resolved && (
                           <span
                             style={{
@@ -712,6 +1169,22 @@ export default function Page() {
                             Needs follow-up
                           </span>
                         )}
+                        {h.reopened_at && !resolved && (
+                          <span
+                            style={{
+                              fontSize: 11,
+                              padding: "4px 8px",
+                              borderRadius: 999,
+                              border: "1px solid rgba(255,255,255,0.22)",
+                              background: "rgba(255,255,255,0.06)",
+                              fontWeight: 900,
+                              opacity: 0.9,
+                            }}
+                            title={`Reopened ${fmtTime(h.reopened_at)}`}
+                          >
+                            Reopened
+                          </span>
+                        )}
                       </div>
 
                       <div style={{ opacity: 0.68, fontSize: 12, whiteSpace: "nowrap" }}>
@@ -734,9 +1207,22 @@ export default function Page() {
                       Last update: <b>{h.last_update_by_snapshot ?? "—"}</b>
                     </div>
                   </div>
+                  </div>
                 );
               })}
             </div>
+
+            <div style={{ padding: "6px 0 12px", textAlign: "center", opacity: 0.6, fontSize: 12 }}>
+              {loadingMore
+                ? "Loading more…"
+                : moreToLoad
+                ? !streams.open.done || !resolvedShown
+                  ? "Scroll for more"
+                  : "Scroll for resolved handoffs"
+                : resolvedShown
+                ? "End of feed"
+                : "End of open handoffs"}
+            </div>
           </>
         )}
       </div>
@@ -758,6 +1244,10 @@ export default function Page() {
         }}
       >
         <div style={{ maxWidth: 980, margin: "0 auto" }}>
+          {filtersOpen && (
+            <div style={{ maxHeight: "50vh", overflowY: "auto", marginBottom: 10 }}>{filterBar}</div>
+          )}
+
           <div style={{ display: "flex", gap: 10 }}>
             <button
               onClick={() => router.push(userId ? "/create" : "/auth")}
@@ -809,6 +1299,23 @@ export default function Page() {
               {showResolved ? "Hide Resolved" : "Show Resolved"}
             </button>
 
+            <button
+              onClick={() => setFiltersOpen((v) => !v)}
+              style={{
+                padding: "8px 10px",
+                borderRadius: 999,
+                border: "1px solid rgba(255,255,255,0.14)",
+                background: activeFilterCount > 0 ? "rgba(255,255,255,0.12)" : "rgba(255,255,255,0.04)",
+                color: "#fff",
+                cursor: "pointer",
+                opacity: 0.92,
+                fontSize: 12,
+                fontWeight: 850,
+              }}
+            >
+              {filtersOpen ? "Done" : activeFilterCount > 0 ? `Filters (${activeFilterCount})` : "Filters"}
+            </button>
+
             <div style={{ opacity: 0.7, fontSize: 12 }}>
               Open: <b>{openCount}</b>
             </div>
@@ -0,0 +1,26 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Append-only admin_audit rows. Every admin change writes one
+ * (before/after snapshots), in the same request as the change.
+ */
+
+export type AdminAuditEntry = {
+  actor_user_id: string;
+  actor_display_name_snapshot: string;
+  action: string;
+  target_type: string;
+  target_id?: string | null;
+  before?: unknown;
+  after?: unknown;
+};
+
+export async function writeAdminAudit(supabase: SupabaseClient, entry: AdminAuditEntry) {
+  const { error } = await supabase.from("admin_audit").insert({
+    ...entry,
+    target_id: entry.target_id ?? null,
+    before: entry.before ?? null,
+    after: entry.after ?? null,
+  });
+  if (error) throw error;
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { stripJpegMetadata } from "./exif";
+
+const seg = (marker: number, body: number[]) => [0xff, marker, 0x00, body.length + 2, ...body];
+const exif = seg(0xe1, [...Array.from("Exif\0\0", (c) => c.charCodeAt(0)), 0x4d, 0x4d, 0x00, 0x2a]);
+// SOS header, entropy data with a stuffed byte and a restart marker, EOI
+const scan = [...seg(0xda, [0x01, 0x01, 0x00, 0x00, 0x3f, 0x00]), 0x12, 0xff, 0x00, 0x34, 0xff, 0xd0, 0x56];
+const EOI = [0xff, 0xd9];
+
+describe("stripJpegMetadata", () => {
+  it("drops EXIF and keeps the image data", () => {
+    const src = Uint8Array.from([0xff, 0xd8, ...exif, ...scan, ...EOI]);
+    expect([...stripJpegMetadata(src)]).toEqual([0xff, 0xd8, ...scan, ...EOI]);
+  });
+
+  it("cuts trailing data after the primary EOI (MPF images, vendor trailers)", () => {
+    const trailer = [0xff, 0xd8, ...exif, ...scan, ...EOI];
+    const src = Uint8Array.from([0xff, 0xd8, ...scan, ...EOI, ...trailer]);
+    expect([...stripJpegMetadata(src)]).toEqual([0xff, 0xd8, ...scan, ...EOI]);
+  });
+
+  it("keeps every scan of a progressive file", () => {
+    const dht = seg(0xc4, [0x00, 0x01]);
+    const src = Uint8Array.from([0xff, 0xd8, ...scan, ...dht, ...scan, ...EOI]);
+    expect([...stripJpegMetadata(src)]).toEqual([...src]);
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * Metadata stripping for uploaded images, done on the raw container so no
+ * image library is needed and pixels are never re-encoded.
+ * - JPEG: drops APP1 (EXIF/XMP), APP13 (IPTC) and the other APPn/COM segments.
+ *   JFIF, ICC profiles and Adobe APP14 stay. A non-default EXIF orientation is
+ *   written back as a one-tag EXIF block so photos don't turn sideways.
+ *   The file is cut at the primary image's EOI: anything after it (MPF
+ *   secondary images, vendor trailers) can carry its own EXIF/GPS.
+ * - PNG: drops eXIf, tEXt, zTXt, iTXt and tIME chunks.
+ * - WebP: drops EXIF and "XMP " chunks and clears their VP8X flags.
+ * Throws on anything that doesn't parse; callers treat that as a bad upload.
+ */
+
+const ascii = (s: string) => Uint8Array.from(s, (c) => c.charCodeAt(0));
+
+function startsWith(bytes: Uint8Array, prefix: Uint8Array, at = 0) {
+  if (bytes.length < at + prefix.length) return false;
+  return prefix.every((b, i) => bytes[at + i] === b);
+}
+
+function concat(parts: Uint8Array[]) {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let at = 0;
+  for (const p of parts) {
+    out.set(p, at);
+    at += p.length;
+  }
+  return out;
+}
+
+const EXIF_HEADER = ascii("Exif\0\0");
+const ICC_HEADER = ascii("ICC_PROFILE\0");
+
+/** Orientation (tag 0x0112) from a TIFF block, or null */
+function readOrientation(tiff: Uint8Array): number | null {
+  if (tiff.length < 8) return null;
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const le = tiff[0] === 0x49 && tiff[1] === 0x49;
+  if (!le && !(tiff[0] === 0x4d && tiff[1] === 0x4d)) return null;
+
+  const ifd = view.getUint32(4, le);
+  if (ifd + 2 > tiff.length) return null;
+  const count = view.getUint16(ifd, le);
+
+  for (let n = 0; n < count; n++) {
+    const entry = ifd + 2 + n * 12;
+    if (entry + 12 > tiff.length) return null;
+    if (view.getUint16(entry, le) === 0x0112 && view.getUint16(entry + 2, le) === 3) {
+      const o = view.getUint16(entry + 8, le);
+      return o >= 1 && o <= 8 ? o : null;
+    }
+  }
+  return null;
+}
+
+/** Minimal APP1: big-endian TIFF, IFD0 with only Orientation */
+function orientationSegment(orientation: number) {
+  return Uint8Array.from([
+    0xff, 0xe1, 0x00, 0x22,
+    ...EXIF_HEADER,
+    0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08,
+    0x00, 0x01,
+    0x01, 0x12, 0x00, 0x03, 0x00, 0x00, 0x00, 0x01, 0x00, orientation, 0x00, 0x00,
+    0x00, 0x00, 0x00, 0x00,
+  ]);
+}
+
+/** End of entropy-coded data starting at `i`: index of the next real marker */
+function scanEnd(src: Uint8Array, i: number) {
+  while (i + 1 < src.length) {
+    if (src[i] === 0xff) {
+      const next = src[i + 1];
+      // 0x00 = stuffed byte, RSTn = restart marker, 0xFF = fill: still data
+      if (next !== 0x00 && next !== 0xff && !(next >= 0xd0 && next <= 0xd7)) return i;
+    }
+    i++;
+  }
+  return src.length;
+}
+
+export function stripJpegMetadata(src: Uint8Array): Uint8Array {
+  if (src[0] !== 0xff || src[1] !== 0xd8) throw new Error("Not a JPEG");
+
+  const out: Uint8Array[] = [src.subarray(0, 2)];
+  let insertAt = 1;
+  let orientation = 1;
+  let scanned = false;
+  let i = 2;
+
+  while (true) {
+    if (i + 1 >= src.length || src[i] !== 0xff) throw new Error("Corrupt JPEG");
+    while (src[i + 1] === 0xff) i++; // fill bytes
+    const marker = src[i + 1];
+
+    // End of image: drop whatever trails it
+    if (marker === 0xd9) {
+      if (!scanned) throw new Error("Corrupt JPEG (no image data)");
+      out.push(src.subarray(i, i + 2));
+      break;
+    }
+    if ((marker >= 0xd0 && marker <= 0xd7) || marker === 0x01) {
+      out.push(src.subarray(i, i + 2));
+      i += 2;
+      continue;
+    }
+
+    if (i + 4 > src.length) throw new Error("Corrupt JPEG");
+    const len = (src[i + 2] << 8) | src[i + 3];
+    const end = i + 2 + len;
+    if (len < 2 || end > src.length) throw new Error("Corrupt JPEG");
+
+    const segment = src.subarray(i, end);
+    const body = src.subarray(i + 4, end);
+    i = end;
+
+    // Start of scan: header, then entropy-coded data up to the next marker
+    // (progressive files have several scans with tables in between)
+    if (marker === 0xda) {
+      const dataEnd = scanEnd(src, end);
+      out.push(segment, src.subarray(end, dataEnd));
+      scanned = true;
+      i = dataEnd;
+      if (i >= src.length) break; // truncated after the scan: keep what's there
+      continue;
+    }
+
+    if (marker === 0xe1) {
+      if (startsWith(body, EXIF_HEADER)) orientation = readOrientation(body.subarray(6)) ?? orientation;
+      continue;
+    }
+    if (marker === 0xe0) {
+      out.push(segment);
+      if (out.length === 2) insertAt = 2; // keep JFIF first
+      continue;
+    }
+    if ((marker === 0xe2 && startsWith(body, ICC_HEADER)) || marker === 0xee) {
+      out.push(segment);
+      continue;
+    }
+    if ((marker >= 0xe0 && marker <= 0xef) || marker === 0xfe) continue;
+
+    out.push(segment);
+  }
+
+  if (orientation !== 1) out.splice(insertAt, 0, orientationSegment(orientation));
+  return concat(out);
+}
+
+const PNG_SIGNATURE = Uint8Array.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const PNG_DROP = new Set(["eXIf", "tEXt", "zTXt", "iTXt", "tIME"]);
+
+export function stripPngMetadata(src: Uint8Array): Uint8Array {
+  if (!startsWith(src, PNG_SIGNATURE)) throw new Error("Not a PNG");
+
+  const view = new DataView(src.buffer, src.byteOffset, src.byteLength);
+  const out: Uint8Array[] = [src.subarray(0, 8)];
+  let i = 8;
+
+  while (true) {
+    if (i + 12 > src.length) throw new Error("Corrupt PNG");
+    const len = view.getUint32(i);
+    const type = String.fromCharCode(...src.subarray(i + 4, i + 8));
+    const end = i + 12 + len;
+    if (end > src.length) throw new Error("Corrupt PNG");
+
+    if (!PNG_DROP.has(type)) out.push(src.subarray(i, end));
+    i = end;
+    if (type === "IEND") break;
+  }
+
+  return concat(out);
+}
+
+const RIFF = ascii("RIFF");
+const WEBP = ascii("WEBP");
+const WEBP_DROP = new Set(["EXIF", "XMP "]);
+
+export function stripWebpMetadata(src: Uint8Array): Uint8Array {
+  if (!startsWith(src, RIFF) || !startsWith(src, WEBP, 8)) throw new Error("Not a WebP");
+
+  const view = new DataView(src.buffer, src.byteOffset, src.byteLength);
+  const riffEnd = Math.min(src.length, 8 + view.getUint32(4, true));
+  const out: Uint8Array[] = [src.slice(0, 12)];
+  let i = 12;
+
+  while (i < riffEnd) {
+    if (i + 8 > riffEnd) throw new Error("Corrupt WebP");
+    const type = String.fromCharCode(...src.subarray(i, i + 4));
+    const size = view.getUint32(i + 4, true);
+    const end = i + 8 + size + (size % 2);
+    if (i + 8 + size > riffEnd) throw new Error("Corrupt WebP");
+
+    if (type === "VP8X") {
+      const chunk = src.slice(i, Math.min(end, riffEnd));
+      chunk[8] &= ~(0x08 | 0x04); // EXIF and XMP present flags
+      out.push(chunk);
+    } else if (!WEBP_DROP.has(type)) {
+      out.push(src.subarray(i, Math.min(end, riffEnd)));
+    }
+    i = end;
+  }
+
+  const result = concat(out);
+  new DataView(result.buffer).setUint32(4, result.length - 8, true);
+  return result;
+}
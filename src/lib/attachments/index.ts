@@ -0,0 +1,74 @@
+/**
+ * Attachments on handoff_updates (public.handoff_attachments).
+ * Client-safe limits, type sniffing and display helpers; the server-side
+ * sanitizer lives in ./prepare and the bytes in the attachment store.
+ */
+
+export const ATTACHMENT_TYPES = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "application/pdf": "pdf",
+} as const;
+
+export type AttachmentType = keyof typeof ATTACHMENT_TYPES;
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+export const MAX_ATTACHMENTS_PER_UPDATE = 4;
+
+/** For <input type="file" accept=...> */
+export const ATTACHMENT_ACCEPT = Object.keys(ATTACHMENT_TYPES).join(",");
+
+export type Attachment = {
+  id: string;
+  update_id: string;
+  filename: string;
+  content_type: AttachmentType;
+  size_bytes: number;
+  created_at: string;
+};
+
+export const ATTACHMENT_COLUMNS = "id, update_id, filename, content_type, size_bytes, created_at";
+
+export function isImageType(t: string) {
+  return t.startsWith("image/");
+}
+
+/** Type from magic bytes; the client-declared type is never trusted */
+export function sniffAttachmentType(bytes: Uint8Array): AttachmentType | null {
+  const at = (i: number, ...b: number[]) => b.every((x, j) => bytes[i + j] === x);
+  if (at(0, 0xff, 0xd8, 0xff)) return "image/jpeg";
+  if (at(0, 0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a)) return "image/png";
+  if (at(0, 0x52, 0x49, 0x46, 0x46) && at(8, 0x57, 0x45, 0x42, 0x50)) return "image/webp";
+  if (at(0, 0x25, 0x50, 0x44, 0x46, 0x2d)) return "application/pdf";
+  return null;
+}
+
+/** Basename only, no control chars, extension matching the sniffed type */
+export function cleanFilename(name: string, type: AttachmentType) {
+  const base = name.split(/[\\/]/).pop() ?? "";
+  const stem = base
+    .replace(/\.[^.]*$/, "")
+    .replace(/[\u0000-\u001f\u007f"<>|*?:]/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, 100);
+  return `${stem || "attachment"}.${ATTACHMENT_TYPES[type]}`;
+}
+
+export function formatBytes(n: number) {
+  if (n < 1024) return `${n} B`;
+  if (n < 1024 * 1024) return `${Math.round(n / 1024)} KB`;
+  return `${(n / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/** Pre-upload check in the browser; the server repeats it on the real bytes */
+export function checkAttachmentFiles(files: { name: string; size: number; type: string }[]) {
+  if (files.length > MAX_ATTACHMENTS_PER_UPDATE)
+    return `At most ${MAX_ATTACHMENTS_PER_UPDATE} files per update`;
+  for (const f of files) {
+    if (!(f.type in ATTACHMENT_TYPES)) return `${f.name}: only JPEG, PNG, WebP or PDF`;
+    if (f.size > MAX_ATTACHMENT_BYTES) return `${f.name} is larger than ${formatBytes(MAX_ATTACHMENT_BYTES)}`;
+  }
+  return null;
+}
@@ -0,0 +1,60 @@
+import { createHash } from "node:crypto";
+import {
+  cleanFilename,
+  formatBytes,
+  MAX_ATTACHMENT_BYTES,
+  sniffAttachmentType,
+  type AttachmentType,
+} from "./index";
+import { stripJpegMetadata, stripPngMetadata, stripWebpMetadata } from "./exif";
+
+/**
+ * Server-side upload sanitizer: sniff the real type, enforce the size limit,
+ * strip image metadata, hash what will actually be stored.
+ */
+
+export type PreparedAttachment = {
+  filename: string;
+  content_type: AttachmentType;
+  bytes: Uint8Array;
+  size_bytes: number;
+  sha256: string;
+};
+
+export type PrepareResult = { ok: true; file: PreparedAttachment } | { ok: false; error: string };
+
+const STRIPPERS: Partial<Record<AttachmentType, (b: Uint8Array) => Uint8Array>> = {
+  "image/jpeg": stripJpegMetadata,
+  "image/png": stripPngMetadata,
+  "image/webp": stripWebpMetadata,
+};
+
+export function prepareAttachment(name: string, raw: Uint8Array): PrepareResult {
+  if (raw.length === 0) return { ok: false, error: `${name} is empty` };
+  if (raw.length > MAX_ATTACHMENT_BYTES)
+    return { ok: false, error: `${name} is larger than ${formatBytes(MAX_ATTACHMENT_BYTES)}` };
+
+  const type = sniffAttachmentType(raw);
+  if (!type) return { ok: false, error: `${name}: only JPEG, PNG, WebP or PDF` };
+
+  let bytes = raw;
+  const strip = STRIPPERS[type];
+  if (strip) {
+    try {
+      bytes = strip(raw);
+    } catch {
+      return { ok: false, error: `${name}: could not read image` };
+    }
+  }
+
+  return {
+    ok: true,
+    file: {
+      filename: cleanFilename(name, type),
+      content_type: type,
+      bytes,
+      size_bytes: bytes.length,
+      sha256: createHash("sha256").update(bytes).digest("hex"),
+    },
+  };
+}
@@ -0,0 +1,198 @@
+import { createHash, createHmac, timingSafeEqual } from "node:crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Compliance export: handoffs + full handoff_updates history.
+ * Formats: csv (one row per update, handoff columns repeated), json, ndjson.
+ * The manifest carries counts + SHA-256 of the exact file bytes and is
+ * HMAC-signed with EXPORT_SIGNING_SECRET so it can be verified later.
+ */
+
+export const EXPORT_FORMATS = ["csv", "json", "ndjson"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export type ExportFilters = {
+  from: string;
+  to: string;
+  location_code?: string | null;
+  category?: string | null;
+};
+
+const HANDOFF_COLUMNS = [
+  "id",
+  "created_at",
+  "summary",
+  "category",
+  "priority",
+  "location_code",
+  "details",
+  "status",
+  "created_by_display_name_snapshot",
+  "last_update_at",
+  "last_update_by_snapshot",
+  "reopened_at",
+  "resolution_code",
+  "resolution_note",
+  "audit_seq",
+  "audit_head_hash",
+] as const;
+
+const UPDATE_COLUMNS = [
+  "id",
+  "handoff_id",
+  "created_at",
+  "source",
+  "author_display_name_snapshot",
+  "message",
+  "seq",
+  "prev_hash",
+  "content_hash",
+] as const;
+
+type Row = Record<string, unknown>;
+export type ExportHandoff = Row & { updates: Row[] };
+
+const PAGE = 1000;
+
+/** PostgREST caps rows per request; page through with range() */
+async function fetchAll(
+  build: (from: number, to: number) => PromiseLike<{ data: unknown; error: unknown }>
+) {
+  const out: Row[] = [];
+  for (let offset = 0; ; offset += PAGE) {
+    const { data, error } = await build(offset, offset + PAGE - 1);
+    if (error) throw error;
+    const rows = (data ?? []) as Row[];
+    out.push(...rows);
+    if (rows.length < PAGE) return out;
+  }
+}
+
+export async function fetchExportData(
+  supabase: SupabaseClient,
+  filters: ExportFilters
+): Promise<ExportHandoff[]> {
+  const handoffs = await fetchAll((a, b) => {
+    let q = supabase
+      .from("handoffs")
+      .select(HANDOFF_COLUMNS.join(", "))
+      .gte("created_at", filters.from)
+      .lt("created_at", filters.to);
+    if (filters.location_code) q = q.eq("location_code", filters.location_code);
+    if (filters.category) q = q.eq("category", filters.category);
+    return q.order("created_at", { ascending: true }).order("id").range(a, b);
+  });
+
+  const byId = new Map<string, ExportHandoff>();
+  for (const h of handoffs) byId.set(String(h.id), { ...h, updates: [] });
+
+  // Updates in id batches (keeps the IN list a sane size)
+  const ids = [...byId.keys()];
+  for (let i = 0; i < ids.length; i += 200) {
+    const batch = ids.slice(i, i + 200);
+    const updates = await fetchAll(
+      (a, b) =>
+        supabase
+          .from("handoff_updates")
+          .select(UPDATE_COLUMNS.join(", "))
+          .in("handoff_id", batch)
+          .order("handoff_id")
+          .order("seq", { ascending: true })
+          .order("created_at", { ascending: true })
+          .range(a, b)
+    );
+    for (const u of updates) byId.get(String(u.handoff_id))?.updates.push(u);
+  }
+
+  return [...byId.values()];
+}
+
+function csvCell(v: unknown) {
+  if (v === null || v === undefined) return "";
+  const s = typeof v === "object" ? JSON.stringify(v) : String(v);
+  // Neutralize spreadsheet formulas, quote when needed
+  const safe = /^[=+\-@\t\r]/.test(s) ? `'${s}` : s;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function serializeExport(data: ExportHandoff[], format: ExportFormat) {
+  if (format === "json") return JSON.stringify(data, null, 2) + "\n";
+  if (format === "ndjson") return data.map((h) => JSON.stringify(h)).join("\n") + (data.length ? "\n" : "");
+
+  const header = [
+    ...HANDOFF_COLUMNS.map((c) => `handoff_${c}`),
+    ...UPDATE_COLUMNS.filter((c) => c !== "handoff_id").map((c) => `update_${c}`),
+  ];
+  const lines = [header.join(",")];
+
+  for (const h of data) {
+    const hCells = HANDOFF_COLUMNS.map((c) => csvCell(h[c]));
+    const updates = h.updates.length ? h.updates : [null];
+    for (const u of updates) {
+      const uCells = UPDATE_COLUMNS.filter((c) => c !== "handoff_id").map((c) =>
+        csvCell(u ? u[c] : null)
+      );
+      lines.push([...hCells, ...uCells].join(","));
+    }
+  }
+
+  return lines.join("\r\n") + "\r\n";
+}
+
+export const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  ndjson: "application/x-ndjson; charset=utf-8",
+};
+
+export type ExportManifest = {
+  version: 1;
+  generated_at: string;
+  generated_by: string;
+  format: ExportFormat;
+  filename: string;
+  filters: ExportFilters;
+  counts: { handoffs: number; updates: number; bytes: number };
+  sha256: string;
+};
+
+export function buildManifest(args: {
+  data: ExportHandoff[];
+  body: string;
+  format: ExportFormat;
+  filters: ExportFilters;
+  generatedBy: string;
+}): ExportManifest {
+  const generated_at = new Date().toISOString();
+  return {
+    version: 1,
+    generated_at,
+    generated_by: args.generatedBy,
+    format: args.format,
+    filename: `cs-handoff-audit-${generated_at.slice(0, 10)}.${args.format}`,
+    filters: args.filters,
+    counts: {
+      handoffs: args.data.length,
+      updates: args.data.reduce((n, h) => n + h.updates.length, 0),
+      bytes: Buffer.byteLength(args.body, "utf8"),
+    },
+    sha256: createHash("sha256").update(args.body, "utf8").digest("hex"),
+  };
+}
+
+function signingSecret() {
+  const secret = process.env.EXPORT_SIGNING_SECRET;
+  if (!secret) throw new Error("Missing EXPORT_SIGNING_SECRET");
+  return secret;
+}
+
+/** Manifest JSON is signed exactly as serialized (no re-ordering on verify) */
+export function signManifest(manifestJson: string) {
+  return createHmac("sha256", signingSecret()).update(manifestJson, "utf8").digest("hex");
+}
+
+export function verifyManifestSignature(manifestJson: string, signature: string) {
+  const expected = Buffer.from(signManifest(manifestJson), "hex");
+  const got = Buffer.from(signature, "hex");
+  return got.length === expected.length && timingSafeEqual(got, expected);
+}
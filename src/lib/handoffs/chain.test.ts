@@ -0,0 +1,148 @@
+import { describe, expect, it } from "vitest";
+import {
+  GENESIS_HASH,
+  canonicalTimestamp,
+  canonicalUpdate,
+  hashUpdate,
+  verifyChainRows,
+  type ChainRow,
+} from "./chain";
+
+/**
+ * Fixtures follow public.handoff_update_canonical() (migration
+ * 20261018000600): to_char(created_at at time zone 'UTC',
+ * 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"'), octet_length prefixes, null = "".
+ * The expected strings and hashes were worked out from that definition and
+ * encode(sha256(convert_to(..., 'UTF8')), 'hex'), independently of chain.ts.
+ */
+
+const HANDOFF = "4f1c2d3e-0000-4000-8000-000000000001";
+
+const ROW1: ChainRow = {
+  id: "u1",
+  handoff_id: HANDOFF,
+  seq: 1,
+  created_at: "2026-10-18T12:34:56.123456+00:00",
+  source: "app",
+  author_user_id: "9a8b7c6d-0000-4000-8000-0000000000aa",
+  author_display_name_snapshot: "Nurse Lee",
+  message: "Need 4 trays — OR2",
+  prev_hash: GENESIS_HASH,
+  content_hash: "e6545d585cc5c3ee623c6cdb2e47fdfde0faa606615216083e405aa134de2e31",
+};
+
+const ROW2: ChainRow = {
+  id: "u2",
+  handoff_id: HANDOFF,
+  seq: 2,
+  created_at: "2026-10-18T05:35:00.5-07:00",
+  source: "system",
+  author_user_id: null,
+  author_display_name_snapshot: "system",
+  message: "SYSTEM: RESOLVED [fulfilled] (open → resolved) by Lee",
+  prev_hash: ROW1.content_hash,
+  content_hash: "9178aaed6f9f378feba4df3e9d1226cd63796e44269b69daf9240cec8a1fdc26",
+};
+
+function nextRow(prev: ChainRow, message: string): ChainRow {
+  const seq = (prev.seq ?? 0) + 1;
+  const row: ChainRow = {
+    ...prev,
+    id: `u${seq}`,
+    seq,
+    created_at: "2026-10-18T13:00:00.000001+00:00",
+    source: "app",
+    message,
+    prev_hash: prev.content_hash,
+    content_hash: null,
+  };
+  return { ...row, content_hash: hashUpdate(row.prev_hash!, row) };
+}
+
+describe("canonicalTimestamp", () => {
+  it.each([
+    ["2026-10-18T12:34:56.123456+00:00", "2026-10-18T12:34:56.123456Z"],
+    ["2026-10-18T12:34:56.123Z", "2026-10-18T12:34:56.123000Z"],
+    ["2026-10-18T12:34:56.1+00:00", "2026-10-18T12:34:56.100000Z"],
+    ["2026-10-18T12:34:56Z", "2026-10-18T12:34:56.000000Z"],
+    ["2026-10-18T12:34:56.123456", "2026-10-18T12:34:56.123456Z"],
+    ["2026-10-18 12:34:56.123456+00", "2026-10-18T12:34:56.123456Z"],
+    ["2026-10-18T18:04:56.123456+05:30", "2026-10-18T12:34:56.123456Z"],
+    ["2026-10-18T18:04:56.123456+0530", "2026-10-18T12:34:56.123456Z"],
+    ["2026-10-17T23:30:00.000001-05:00", "2026-10-18T04:30:00.000001Z"],
+    ["2026-10-18T05:35:00.5-07", "2026-10-18T12:35:00.500000Z"],
+  ])("%s -> %s", (input, expected) => {
+    expect(canonicalTimestamp(input)).toBe(expected);
+  });
+});
+
+describe("canonicalUpdate", () => {
+  it("length-prefixes UTF-8 bytes, not characters", () => {
+    expect(canonicalUpdate(GENESIS_HASH, ROW1)).toBe(
+      `64:${GENESIS_HASH}|36:${HANDOFF}|1:1|27:2026-10-18T12:34:56.123456Z|3:app|` +
+        "36:9a8b7c6d-0000-4000-8000-0000000000aa|9:Nurse Lee|20:Need 4 trays — OR2"
+    );
+  });
+
+  it("writes null fields as empty", () => {
+    const row = { ...ROW2, seq: null, author_display_name_snapshot: null };
+    expect(canonicalUpdate(ROW1.content_hash!, row)).toBe(
+      `64:${ROW1.content_hash}|36:${HANDOFF}|0:|27:2026-10-18T12:35:00.500000Z|6:system|0:|0:|` +
+        "55:SYSTEM: RESOLVED [fulfilled] (open → resolved) by Lee"
+    );
+  });
+});
+
+describe("hashUpdate", () => {
+  it("matches the hashes the migration's trigger writes", () => {
+    expect(hashUpdate(GENESIS_HASH, ROW1)).toBe(ROW1.content_hash);
+    expect(hashUpdate(ROW1.content_hash!, ROW2)).toBe(ROW2.content_hash);
+  });
+
+  it("does not depend on the offset a timestamp was read back in", () => {
+    expect(hashUpdate(GENESIS_HASH, { ...ROW1, created_at: "2026-10-18T08:34:56.123456-04:00" })).toBe(
+      ROW1.content_hash
+    );
+  });
+});
+
+describe("verifyChainRows", () => {
+  const ROW3 = nextRow(ROW2, "Trays delivered");
+  const anchor = { audit_seq: 3, audit_head_hash: ROW3.content_hash };
+
+  it("accepts an intact chain", () => {
+    const v = verifyChainRows([ROW1, ROW2, ROW3], anchor);
+    expect(v).toMatchObject({ ok: true, count: 3, head_hash: ROW3.content_hash, breaks: [] });
+  });
+
+  it("flags an edited message on that row only", () => {
+    const v = verifyChainRows([ROW1, { ...ROW2, message: "SYSTEM: RESOLVED" }, ROW3], anchor);
+    expect(v.ok).toBe(false);
+    expect(v.breaks).toEqual([{ id: "u2", seq: 2, reason: "hash_mismatch" }]);
+  });
+
+  it("flags a rewritten row whose successor still points at the old hash", () => {
+    const forged = { ...ROW2, message: "SYSTEM: BACK TO OPEN" };
+    forged.content_hash = hashUpdate(ROW1.content_hash!, forged);
+    const v = verifyChainRows([ROW1, forged, ROW3], anchor);
+    expect(v.breaks).toEqual([{ id: "u3", seq: 3, reason: "prev_mismatch" }]);
+  });
+
+  it("flags a deleted middle row at the row after the gap", () => {
+    const v = verifyChainRows([ROW1, ROW3], anchor);
+    expect(v.breaks).toEqual([
+      { id: "u3", seq: 3, reason: "seq_gap" },
+      { id: "u3", seq: 3, reason: "prev_mismatch" },
+    ]);
+  });
+
+  it("flags a truncated tail against the handoff's anchor", () => {
+    const v = verifyChainRows([ROW1, ROW2], anchor);
+    expect(v.breaks).toEqual([{ id: null, seq: 3, reason: "head_mismatch" }]);
+  });
+
+  it("flags rows without a hash", () => {
+    const v = verifyChainRows([ROW1, { ...ROW2, seq: null, content_hash: null }]);
+    expect(v.breaks).toEqual([{ id: "u2", seq: null, reason: "missing_hash" }]);
+  });
+});
@@ -0,0 +1,140 @@
+import { createHash } from "node:crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Re-walks the handoff_updates hash chain for one handoff.
+ * Hashes are written by the DB trigger (migration ..._hash_chain.sql);
+ * `canonicalUpdate` must stay byte-for-byte in sync with
+ * public.handoff_update_canonical().
+ */
+
+export const GENESIS_HASH = "0".repeat(64);
+
+export type ChainRow = {
+  id: string;
+  handoff_id: string;
+  seq: number | null;
+  created_at: string;
+  source: string;
+  author_user_id: string | null;
+  author_display_name_snapshot: string | null;
+  message: string;
+  prev_hash: string | null;
+  content_hash: string | null;
+};
+
+export type ChainBreak = {
+  id: string | null;
+  seq: number | null;
+  reason: "missing_hash" | "seq_gap" | "prev_mismatch" | "hash_mismatch" | "head_mismatch";
+};
+
+export type ChainVerification = {
+  ok: boolean;
+  count: number;
+  head_hash: string | null;
+  breaks: ChainBreak[];
+  verified_at: string;
+};
+
+/** "2026-10-18T12:34:56.123456+00:00" -> "2026-10-18T12:34:56.123456Z" (UTC, microseconds) */
+export function canonicalTimestamp(iso: string) {
+  const m = iso.match(/^(.+?[T ]\d{2}:\d{2}:\d{2})(?:\.(\d{1,6}))?(Z|[+-]\d{2}(?::?\d{2})?)?$/);
+  if (!m) return iso;
+
+  const micros = (m[2] || "").padEnd(6, "0");
+  const zone = !m[3] || m[3] === "Z" ? "Z" : m[3].length === 3 ? `${m[3]}:00` : m[3];
+  const seconds = new Date(`${m[1].replace(" ", "T")}${zone}`).toISOString().slice(0, 19);
+  return `${seconds}.${micros}Z`;
+}
+
+export function canonicalUpdate(prevHash: string, row: ChainRow) {
+  return [
+    prevHash,
+    row.handoff_id,
+    row.seq == null ? "" : String(row.seq),
+    canonicalTimestamp(row.created_at),
+    row.source ?? "",
+    row.author_user_id ?? "",
+    row.author_display_name_snapshot ?? "",
+    row.message ?? "",
+  ]
+    .map((v) => `${Buffer.byteLength(v, "utf8")}:${v}`)
+    .join("|");
+}
+
+export function hashUpdate(prevHash: string, row: ChainRow) {
+  return createHash("sha256").update(canonicalUpdate(prevHash, row), "utf8").digest("hex");
+}
+
+/** Rows must be ordered by seq ascending */
+export function verifyChainRows(
+  rows: ChainRow[],
+  anchor?: { audit_seq: number | null; audit_head_hash: string | null }
+): ChainVerification {
+  const breaks: ChainBreak[] = [];
+  let prev = GENESIS_HASH;
+  let expectedSeq = 1;
+
+  for (const row of rows) {
+    if (!row.content_hash || row.seq == null) {
+      breaks.push({ id: row.id, seq: row.seq, reason: "missing_hash" });
+      continue;
+    }
+    if (row.seq !== expectedSeq) {
+      breaks.push({ id: row.id, seq: row.seq, reason: "seq_gap" });
+    }
+    if (row.prev_hash !== prev) {
+      breaks.push({ id: row.id, seq: row.seq, reason: "prev_mismatch" });
+    }
+    if (hashUpdate(row.prev_hash ?? prev, row) !== row.content_hash) {
+      breaks.push({ id: row.id, seq: row.seq, reason: "hash_mismatch" });
+    }
+
+    prev = row.content_hash;
+    expectedSeq = row.seq + 1;
+  }
+
+  const head = rows.length ? prev : null;
+
+  // Tail truncation: the handoff row remembers the last seq/hash
+  if (anchor && (anchor.audit_seq ?? 0) > 0) {
+    if (anchor.audit_seq !== expectedSeq - 1 || anchor.audit_head_hash !== head) {
+      breaks.push({ id: null, seq: anchor.audit_seq, reason: "head_mismatch" });
+    }
+  }
+
+  return {
+    ok: breaks.length === 0,
+    count: rows.length,
+    head_hash: head,
+    breaks,
+    verified_at: new Date().toISOString(),
+  };
+}
+
+export async function verifyHandoffChain(
+  supabase: SupabaseClient,
+  handoffId: string
+): Promise<ChainVerification | null> {
+  const { data: h, error: hErr } = await supabase
+    .from("handoffs")
+    .select("id, audit_seq, audit_head_hash")
+    .eq("id", handoffId)
+    .maybeSingle();
+
+  if (hErr) throw hErr;
+  if (!h) return null;
+
+  const { data, error } = await supabase
+    .from("handoff_updates")
+    .select(
+      "id, handoff_id, seq, created_at, source, author_user_id, author_display_name_snapshot, message, prev_hash, content_hash"
+    )
+    .eq("handoff_id", handoffId)
+    .order("seq", { ascending: true, nullsFirst: true });
+
+  if (error) throw error;
+
+  return verifyChainRows((data ?? []) as ChainRow[], h);
+}
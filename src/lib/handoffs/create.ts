@@ -0,0 +1,235 @@
+import type { SupabaseClient, User } from "@supabase/supabase-js";
+import { getActiveToken, mintHandoffToken, type HandoffToken } from "./tokens";
+import { notifyHandoff, type NotifyResult } from "@/lib/sms/notify";
+import { enforceNoPhi } from "@/lib/phi/enforce";
+import { requireActiveLocation } from "@/lib/locations";
+import { applyTemplate, loadActiveTemplate } from "./templates";
+import { parseFieldSchema, validateFieldValues } from "./fields";
+import { MAX_ITEM_QTY, requireActiveItem } from "@/lib/items";
+import { isUuid } from "@/lib/offline/ids";
+
+/**
+ * Server-side create flow (service-role client):
+ * apply template (optional) -> validate (incl. PHI screen, category fields,
+ * location registry, catalog item) -> creator snapshot from profiles ->
+ * insert -> mint SMS token -> notify.
+ * If token minting fails the handoff insert is rolled back (deleted) so no
+ * half-created handoff is left behind. Notify failures are audited, not fatal.
+ * An optional client-generated `id` (offline queue) makes the call idempotent:
+ * a repeat by the same user returns the existing handoff with `duplicate`.
+ */
+
+export type CreateHandoffInput = {
+  id?: unknown;
+  summary?: unknown;
+  category?: unknown;
+  priority?: unknown;
+  location_code?: unknown;
+  template_id?: unknown;
+  details?: unknown;
+  item_id?: unknown;
+  item_qty?: unknown;
+};
+
+export type CreatedHandoff = {
+  id: string;
+  token: HandoffToken | null; // null only on a duplicate whose code was retired
+  notify: NotifyResult | { error: string };
+  duplicate?: boolean;
+};
+
+export type CreateHandoffResult =
+  | { ok: true; handoff: CreatedHandoff }
+  | { ok: false; status: number; error: string };
+
+const FALLBACK_PRIORITIES = ["low", "medium", "high"];
+
+async function loadEnum(supabase: SupabaseClient, rpc: string) {
+  const { data, error } = await supabase.rpc(rpc);
+  if (error) return null;
+  return ((data ?? []) as unknown[]).map((x) => String(x));
+}
+
+/** Replay of an earlier create with the same client id, or null */
+async function findExisting(
+  supabase: SupabaseClient,
+  user: User,
+  id: string
+): Promise<CreateHandoffResult | null> {
+  const { data, error } = await supabase
+    .from("handoffs")
+    .select("id, created_by")
+    .eq("id", id)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) return null;
+  if (data.created_by !== user.id) return { ok: false, status: 409, error: "id already in use" };
+
+  return {
+    ok: true,
+    handoff: { id, token: await getActiveToken(supabase, id), notify: { skipped: true }, duplicate: true },
+  };
+}
+
+export async function createHandoff(
+  supabase: SupabaseClient,
+  user: User,
+  input: CreateHandoffInput
+): Promise<CreateHandoffResult> {
+  let clientId: string | null = null;
+  if (input.id !== undefined && input.id !== null && input.id !== "") {
+    if (!isUuid(input.id)) return { ok: false, status: 400, error: "id must be a UUID" };
+    clientId = input.id.toLowerCase();
+    const existing = await findExisting(supabase, user, clientId);
+    if (existing) return existing;
+  }
+
+  let template_id: string | null = null;
+  if (input.template_id) {
+    const t = await loadActiveTemplate(supabase, input.template_id);
+    if (!t) return { ok: false, status: 400, error: "Unknown or inactive template" };
+    template_id = t.id;
+    input = applyTemplate(t, input);
+  }
+
+  let summary = String(input.summary ?? "").trim();
+  const category = String(input.category ?? "").trim();
+  const priority = String(input.priority ?? "").trim().toLowerCase();
+
+  if (summary.length < 5)
+    return { ok: false, status: 400, error: "summary must be at least 5 characters" };
+  if (summary.length > 500)
+    return { ok: false, status: 400, error: "summary must be 500 characters or fewer" };
+
+  const phi = await enforceNoPhi(supabase, summary, {
+    route: "/api/handoff/create",
+    source: "app",
+    user_id: user.id,
+  });
+  if (!phi.ok) return { ok: false, status: phi.status, error: phi.error };
+  summary = phi.text;
+
+  // Enum-driven validation (DB source of truth)
+  const categories = await loadEnum(supabase, "get_cs_category_enum");
+  if (!categories)
+    return { ok: false, status: 500, error: "Failed to load category enum" };
+  if (!categories.includes(category))
+    return { ok: false, status: 400, error: `Invalid category: ${category || "(empty)"}` };
+
+  const priorities = (await loadEnum(supabase, "get_cs_priority_enum")) ?? FALLBACK_PRIORITIES;
+  if (!priorities.includes(priority))
+    return { ok: false, status: 400, error: `Invalid priority: ${priority || "(empty)"}` };
+
+  // Category-specific structured fields (schema lives on cs_categories)
+  const { data: catRow, error: catErr } = await supabase
+    .from("cs_categories")
+    .select("fields")
+    .eq("value", category)
+    .maybeSingle();
+  if (catErr) throw catErr;
+
+  const schema = parseFieldSchema(catRow?.fields ?? []);
+  if (!schema.ok) return { ok: false, status: 500, error: `Bad field schema for ${category}: ${schema.error}` };
+
+  const checked = validateFieldValues(schema.fields, input.details);
+  if (!checked.ok) return { ok: false, status: 400, error: checked.error };
+  const details = checked.values;
+
+  // Free-text field values get the same PHI screen as the summary
+  for (const f of schema.fields) {
+    if (f.type !== "text" || typeof details[f.key] !== "string") continue;
+    const fieldPhi = await enforceNoPhi(supabase, details[f.key] as string, {
+      route: "/api/handoff/create",
+      source: "app",
+      user_id: user.id,
+    });
+    if (!fieldPhi.ok) return { ok: false, status: fieldPhi.status, error: `${f.label}: ${fieldPhi.error}` };
+    details[f.key] = fieldPhi.text;
+  }
+
+  // Location must be a registered, active code
+  const loc = await requireActiveLocation(supabase, input.location_code);
+  if (!loc.ok) return loc;
+  const location_code = loc.location.code;
+
+  // Optional catalog item + quantity (both or neither)
+  let item_id: string | null = null;
+  let item_qty: number | null = null;
+  if (input.item_id) {
+    const item = await requireActiveItem(supabase, input.item_id);
+    if (!item.ok) return item;
+    const qty = Number(input.item_qty ?? 1);
+    if (!Number.isInteger(qty) || qty < 1 || qty > MAX_ITEM_QTY)
+      return { ok: false, status: 400, error: `item_qty must be a whole number from 1 to ${MAX_ITEM_QTY}` };
+    item_id = item.item.id;
+    item_qty = qty;
+  } else if (input.item_qty !== undefined && input.item_qty !== null && input.item_qty !== "") {
+    return { ok: false, status: 400, error: "item_qty needs an item_id" };
+  }
+
+  // Creator snapshot comes from the profile, never from the client
+  const { data: prof, error: profErr } = await supabase
+    .from("profiles")
+    .select("display_name")
+    .eq("user_id", user.id)
+    .maybeSingle();
+
+  if (profErr) throw profErr;
+
+  const displayName = (prof?.display_name || "").trim();
+  if (!displayName)
+    return { ok: false, status: 403, error: "Finish onboarding before creating handoffs" };
+
+  const { data: h, error: insErr } = await supabase
+    .from("handoffs")
+    .insert({
+      ...(clientId ? { id: clientId } : {}),
+      summary,
+      category,
+      priority,
+      status: "open",
+      location_code,
+      created_by: user.id,
+      created_by_display_name_snapshot: displayName,
+      template_id,
+      details,
+      item_id,
+      item_qty,
+    })
+    .select("id")
+    .single();
+
+  if (insErr) {
+    // Two replays raced past findExisting; the loser reports the winner's row
+    if (clientId && insErr.code === "23505") {
+      const existing = await findExisting(supabase, user, clientId);
+      if (existing) return existing;
+    }
+    throw insErr;
+  }
+
+  let token: HandoffToken;
+  try {
+    token = await mintHandoffToken(supabase, h.id);
+  } catch (e) {
+    // Roll back: a handoff without a reply code is not usable by SMS
+    await supabase.from("handoffs").delete().eq("id", h.id);
+    throw e;
+  }
+
+  let notify: CreatedHandoff["notify"];
+  try {
+    notify = await notifyHandoff(supabase, {
+      handoff_id: h.id,
+      summary,
+      priority,
+      location_code,
+      created_by: user.id,
+    });
+  } catch (e) {
+    console.error("CREATE NOTIFY ERROR:", e);
+    notify = { error: e instanceof Error ? e.message : "Notify failed" };
+  }
+
+  return { ok: true, handoff: { id: h.id, token, notify } };
+}
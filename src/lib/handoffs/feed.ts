@@ -0,0 +1,177 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { FeedFilters } from "@/lib/handoffs/filters";
+
+/**
+ * Feed row shape, keyset paging and the client-side merge used by realtime
+ * and resync. Client-safe. Realtime payloads carry the raw handoffs row (no
+ * item embed), so merges keep an already-loaded embed while item_id is
+ * unchanged.
+ *
+ * Paging: the feed is two streams, open (anything not resolved) then
+ * resolved, each ordered by (last_update_at, created_at, id) desc and paged
+ * through the handoff_feed() RPC with the last row of a page as the cursor.
+ */
+
+export type HandoffRow = {
+  id: string;
+  created_at: string;
+  updated_at?: string | null;
+  summary: string;
+  category: string;
+  priority: string;
+  location_code: string | null;
+  status: string | null;
+  last_update_at?: string | null;
+  reopened_at?: string | null;
+  item_id?: string | null;
+  item_qty?: number | null;
+  item?: { sku: string; description: string; uom: string } | null;
+
+  // ✅ fast feed attribution (set by update/resolve flow)
+  last_update_by_snapshot?: string | null;
+};
+
+export const FEED_COLUMNS =
+  "id, created_at, updated_at, summary, category, priority, location_code, status, last_update_at, reopened_at, last_update_by_snapshot, item_id, item_qty, item:supply_items(sku, description, uom)";
+
+export const FEED_PAGE_SIZE = 50;
+
+export type FeedStream = "open" | "resolved";
+
+export type FeedCursor = { last_update_at: string; created_at: string; id: string };
+
+export type FeedPage = { rows: HandoffRow[]; cursor: FeedCursor | null; done: boolean };
+
+export function isResolvedRow(h: Pick<HandoffRow, "status">) {
+  return (h.status || "open").trim().toLowerCase() === "resolved";
+}
+
+function sortKey(h: HandoffRow) {
+  return h.last_update_at ?? h.created_at;
+}
+
+/** Feed order: unresolved first, then the paging key, newest first */
+export function compareFeedRows(a: HandoffRow, b: HandoffRow) {
+  const ar = isResolvedRow(a);
+  const br = isResolvedRow(b);
+  if (ar !== br) return ar ? 1 : -1;
+
+  const d =
+    new Date(sortKey(b)).getTime() - new Date(sortKey(a)).getTime() ||
+    new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
+  if (d !== 0) return d;
+  return a.id < b.id ? 1 : a.id > b.id ? -1 : 0;
+}
+
+/** RPC args; unset ones are left out so GET/HEAD calls don't send "null" */
+function feedArgs(stream: FeedStream, cursor: FeedCursor | null, filters?: FeedFilters) {
+  const args: Record<string, unknown> = { p_resolved: stream === "resolved" };
+  if (cursor) {
+    args.p_before_last = cursor.last_update_at;
+    args.p_before_created = cursor.created_at;
+    args.p_before_id = cursor.id;
+  }
+  if (filters && filters.shift.length > 0) {
+    args.p_shifts = filters.shift;
+    args.p_tz = Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+  }
+  return args;
+}
+
+const FILTER_COLUMNS = [
+  ["category", "category"],
+  ["priority", "priority"],
+  ["location", "location_code"],
+  ["status", "status"],
+] as const;
+
+/** Column filters shared by pages and counts (shift is an RPC arg) */
+function withFilters<Q extends { in: (column: string, values: string[]) => unknown }>(
+  q: Q,
+  filters?: FeedFilters
+): Q {
+  for (const [key, column] of FILTER_COLUMNS) {
+    if (filters && filters[key].length > 0) q = q.in(column, filters[key]) as Q;
+  }
+  return q;
+}
+
+/** Next page of one stream, strictly after `cursor` (first page when null) */
+export async function fetchFeedPage(
+  supabase: SupabaseClient,
+  stream: FeedStream,
+  cursor: FeedCursor | null,
+  filters?: FeedFilters,
+  pageSize = FEED_PAGE_SIZE
+): Promise<FeedPage> {
+  const { data, error } = await withFilters(supabase.rpc("handoff_feed", feedArgs(stream, cursor, filters)), filters)
+    .select(FEED_COLUMNS)
+    .order("last_update_at", { ascending: false })
+    .order("created_at", { ascending: false })
+    .order("id", { ascending: false })
+    .limit(pageSize);
+
+  if (error) throw error;
+
+  const rows = (data ?? []) as unknown as HandoffRow[]; // item embed is many-to-one (object), not an array
+  const last = rows[rows.length - 1];
+  return {
+    rows,
+    cursor: last
+      ? { last_update_at: last.last_update_at ?? last.created_at, created_at: last.created_at, id: last.id }
+      : cursor,
+    done: rows.length < pageSize,
+  };
+}
+
+/** Size of one stream under the filters (whole feed, not just loaded pages) */
+export async function countFeed(supabase: SupabaseClient, stream: FeedStream, filters?: FeedFilters) {
+  const { count, error } = await withFilters(
+    supabase.rpc("handoff_feed", feedArgs(stream, null, filters), { head: true, count: "exact" }),
+    filters
+  );
+  if (error) throw error;
+  return count ?? 0;
+}
+
+/** Resync re-reads this far behind the cursor (commit vs. timestamp skew) */
+export const RESYNC_OVERLAP_MS = 30_000;
+
+/** More changed rows than this since the cursor: do a full reload instead */
+export const RESYNC_LIMIT = 200;
+
+/** Rows whose item embed must be fetched after a merge */
+export function needsItemEmbed(prev: HandoffRow | undefined, next: Partial<HandoffRow>) {
+  if (!next.item_id) return false;
+  return !prev?.item || prev.item_id !== next.item_id;
+}
+
+/** Upsert by id; a patch never drops fields it doesn't mention */
+export function mergeFeedRows(prev: HandoffRow[], rows: Partial<HandoffRow>[]): HandoffRow[] {
+  if (rows.length === 0) return prev;
+
+  const byId = new Map(prev.map((h) => [h.id, h]));
+  for (const r of rows) {
+    if (!r.id) continue;
+    const old = byId.get(r.id);
+    const merged = { ...old, ...r } as HandoffRow;
+    if (old && r.item === undefined && old.item_id === merged.item_id) merged.item = old.item;
+    if (!merged.item_id) merged.item = null;
+    byId.set(r.id, merged);
+  }
+  return Array.from(byId.values());
+}
+
+export function removeFeedRow(prev: HandoffRow[], id: string) {
+  return prev.some((h) => h.id === id) ? prev.filter((h) => h.id !== id) : prev;
+}
+
+/** Newest updated_at (falls back to created_at) across rows, or null */
+export function feedCursor(rows: Partial<HandoffRow>[], current: string | null = null) {
+  let best = current ? new Date(current).getTime() : 0;
+  for (const r of rows) {
+    const t = new Date(r.updated_at ?? r.created_at ?? 0).getTime();
+    if (t > best) best = t;
+  }
+  return best > 0 ? new Date(best).toISOString() : null;
+}
@@ -0,0 +1,159 @@
+/**
+ * Category-specific structured fields.
+ * cs_categories.fields holds the schema (array of FieldDef); handoffs.details
+ * holds the typed values keyed by FieldDef.key. Client-safe: the create form
+ * renders from the schema and the server re-validates with the same code.
+ */
+
+export const FIELD_TYPES = ["text", "number", "select", "asset_tag"] as const;
+export type FieldType = (typeof FIELD_TYPES)[number];
+
+export type FieldDef = {
+  key: string;
+  label: string;
+  type: FieldType;
+  required?: boolean;
+  options?: string[]; // select only
+  min?: number; // number only
+  max?: number; // number only
+  integer?: boolean; // number only
+  unit?: string; // number only, display ("ea", "box")
+};
+
+export type FieldValue = string | number;
+export type FieldValues = Record<string, FieldValue>;
+
+export const MAX_FIELDS = 12;
+const KEY_RE = /^[a-z][a-z0-9_]{0,31}$/;
+const TEXT_MAX = 200;
+
+/** Biomed / asset tags: letters, digits, dashes ("BME-004512") */
+export const ASSET_TAG_RE = /^[A-Z0-9][A-Z0-9-]{2,23}$/;
+
+export function normAssetTag(s: string) {
+  return s.trim().toUpperCase().replace(/\s+/g, "");
+}
+
+export function isFieldType(v: unknown): v is FieldType {
+  return typeof v === "string" && (FIELD_TYPES as readonly string[]).includes(v);
+}
+
+export type SchemaCheck = { ok: true; fields: FieldDef[] } | { ok: false; error: string };
+
+/** Validates an admin-submitted schema and drops unknown properties. */
+export function parseFieldSchema(raw: unknown): SchemaCheck {
+  if (raw === null || raw === undefined) return { ok: true, fields: [] };
+  if (!Array.isArray(raw)) return { ok: false, error: "fields must be an array" };
+  if (raw.length > MAX_FIELDS) return { ok: false, error: `At most ${MAX_FIELDS} fields per category` };
+
+  const fields: FieldDef[] = [];
+  const seen = new Set<string>();
+
+  for (const f of raw) {
+    const o = (f && typeof f === "object" ? f : {}) as Record<string, unknown>;
+    const key = String(o.key ?? "").trim();
+    const label = String(o.label ?? "").trim();
+
+    if (!KEY_RE.test(key)) return { ok: false, error: `Invalid field key "${key}" (lowercase, digits, _)` };
+    if (seen.has(key)) return { ok: false, error: `Duplicate field key "${key}"` };
+    if (!label || label.length > 40) return { ok: false, error: `Field ${key}: label required (max 40 chars)` };
+    if (!isFieldType(o.type)) return { ok: false, error: `Field ${key}: type must be ${FIELD_TYPES.join(", ")}` };
+    seen.add(key);
+
+    const def: FieldDef = { key, label, type: o.type };
+    if (o.required === true) def.required = true;
+
+    if (o.type === "select") {
+      const options = Array.isArray(o.options)
+        ? o.options.map((x) => String(x).trim()).filter(Boolean)
+        : [];
+      if (options.length === 0) return { ok: false, error: `Field ${key}: select needs options` };
+      def.options = Array.from(new Set(options));
+    }
+
+    if (o.type === "number") {
+      for (const b of ["min", "max"] as const) {
+        if (o[b] === undefined || o[b] === null || o[b] === "") continue;
+        const n = Number(o[b]);
+        if (!Number.isFinite(n)) return { ok: false, error: `Field ${key}: ${b} must be a number` };
+        def[b] = n;
+      }
+      if (def.min !== undefined && def.max !== undefined && def.min > def.max)
+        return { ok: false, error: `Field ${key}: min is greater than max` };
+      if (o.integer === true) def.integer = true;
+      const unit = String(o.unit ?? "").trim();
+      if (unit) def.unit = unit.slice(0, 12);
+    }
+
+    fields.push(def);
+  }
+
+  return { ok: true, fields };
+}
+
+export type ValuesCheck = { ok: true; values: FieldValues } | { ok: false; error: string };
+
+/**
+ * Coerces form input into typed values. Empty optional fields are omitted;
+ * keys not in the schema are rejected so details can't carry free-form data.
+ */
+export function validateFieldValues(fields: FieldDef[], raw: unknown): ValuesCheck {
+  const input = (raw && typeof raw === "object" && !Array.isArray(raw) ? raw : {}) as Record<string, unknown>;
+  const known = new Set(fields.map((f) => f.key));
+  const extra = Object.keys(input).find((k) => !known.has(k));
+  if (extra) return { ok: false, error: `Unknown field: ${extra}` };
+
+  const values: FieldValues = {};
+
+  for (const f of fields) {
+    const v = input[f.key];
+    const empty = v === undefined || v === null || String(v).trim() === "";
+    if (empty) {
+      if (f.required) return { ok: false, error: `${f.label} is required` };
+      continue;
+    }
+
+    if (f.type === "number") {
+      const n = typeof v === "number" ? v : Number(String(v).trim());
+      if (!Number.isFinite(n)) return { ok: false, error: `${f.label} must be a number` };
+      if (f.integer && !Number.isInteger(n)) return { ok: false, error: `${f.label} must be a whole number` };
+      if (f.min !== undefined && n < f.min) return { ok: false, error: `${f.label} must be at least ${f.min}` };
+      if (f.max !== undefined && n > f.max) return { ok: false, error: `${f.label} must be at most ${f.max}` };
+      values[f.key] = n;
+      continue;
+    }
+
+    const s = String(v).trim();
+
+    if (f.type === "select") {
+      if (!f.options?.includes(s)) return { ok: false, error: `${f.label}: pick one of ${f.options?.join(", ")}` };
+      values[f.key] = s;
+    } else if (f.type === "asset_tag") {
+      const tag = normAssetTag(s);
+      if (!ASSET_TAG_RE.test(tag)) return { ok: false, error: `${f.label} must look like an asset tag (e.g. BME-004512)` };
+      values[f.key] = tag;
+    } else {
+      if (s.length > TEXT_MAX) return { ok: false, error: `${f.label} must be ${TEXT_MAX} characters or fewer` };
+      values[f.key] = s;
+    }
+  }
+
+  return { ok: true, values };
+}
+
+export function formatFieldValue(f: FieldDef | undefined, v: FieldValue) {
+  if (f?.type === "number" && f.unit) return `${v} ${f.unit}`;
+  return String(v);
+}
+
+/** Label/value pairs in schema order; values for removed fields still show. */
+export function describeDetails(fields: FieldDef[], values: FieldValues | null | undefined) {
+  const v = values ?? {};
+  const out = fields
+    .filter((f) => v[f.key] !== undefined)
+    .map((f) => ({ key: f.key, label: f.label, value: formatFieldValue(f, v[f.key]) }));
+  for (const k of Object.keys(v)) {
+    if (!fields.some((f) => f.key === k)) out.push({ key: k, label: k.replace(/_/g, " "), value: String(v[k]) });
+  }
+  return out;
+}
@@ -0,0 +1,99 @@
+import { normLocationCode } from "@/lib/locations";
+import { isShift, shiftAt, type Shift } from "@/lib/shifts";
+import { isHandoffStatus, normStatus, type HandoffStatus } from "@/lib/handoffs/status";
+import type { HandoffRow } from "@/lib/handoffs/feed";
+
+/**
+ * Feed filters, kept in the feed URL so a view can be shared:
+ * /?location=ICU3&priority=high&status=needs_followup&shift=NOC
+ * Client-safe. Each key takes a comma-separated list; an empty list means
+ * "any". Values are normalized but not checked against the admin-managed
+ * option lists, so a link still works after an option is retired.
+ */
+
+export type FeedFilters = {
+  category: string[];
+  priority: string[];
+  location: string[];
+  status: HandoffStatus[];
+  shift: Shift[];
+};
+
+export type FeedFilterKey = keyof FeedFilters;
+
+export const FEED_FILTER_KEYS: FeedFilterKey[] = ["category", "priority", "location", "status", "shift"];
+
+export const EMPTY_FEED_FILTERS: FeedFilters = {
+  category: [],
+  priority: [],
+  location: [],
+  status: [],
+  shift: [],
+};
+
+function list(q: URLSearchParams, key: string) {
+  return (q.get(key) ?? "")
+    .split(",")
+    .map((v) => v.trim())
+    .filter(Boolean);
+}
+
+const uniq = <T,>(xs: T[]) => [...new Set(xs)];
+
+export function parseFeedFilters(search: string | URLSearchParams): FeedFilters {
+  const q = typeof search === "string" ? new URLSearchParams(search) : search;
+  return {
+    category: uniq(list(q, "category").map((v) => v.toLowerCase())),
+    priority: uniq(list(q, "priority").map((v) => v.toLowerCase())),
+    location: uniq(list(q, "location").map(normLocationCode).filter(Boolean)),
+    status: uniq(list(q, "status").map((v) => v.toLowerCase()).filter(isHandoffStatus)),
+    shift: uniq(list(q, "shift").map((v) => v.toUpperCase()).filter(isShift)),
+  };
+}
+
+/** "?priority=high&location=ICU3" ("" when nothing is set); fixed key order */
+export function feedFiltersSearch(f: FeedFilters) {
+  const q = new URLSearchParams();
+  for (const key of FEED_FILTER_KEYS) if (f[key].length > 0) q.set(key, f[key].join(","));
+  const s = q.toString().replace(/%2C/g, ",");
+  return s ? `?${s}` : "";
+}
+
+export function countFeedFilters(f: FeedFilters) {
+  return FEED_FILTER_KEYS.reduce((n, key) => n + f[key].length, 0);
+}
+
+/** Adds or removes one value of one filter */
+export function toggleFeedFilter<K extends FeedFilterKey>(
+  f: FeedFilters,
+  key: K,
+  value: FeedFilters[K][number]
+): FeedFilters {
+  const cur = f[key] as string[];
+  const next = cur.includes(value) ? cur.filter((v) => v !== value) : [...cur, value];
+  return { ...f, [key]: next };
+}
+
+/** Picking the Resolved status shows resolved cards without the toggle */
+export function filtersWantResolved(f: FeedFilters) {
+  return f.status.includes("resolved");
+}
+
+/**
+ * Same test the server applies, for rows that arrive outside a filtered page
+ * (realtime, resync, queued creates). Shift uses the browser's local time.
+ */
+export function matchesFeedFilters(h: HandoffRow, f: FeedFilters) {
+  if (f.category.length > 0 && !f.category.includes((h.category || "").toLowerCase())) return false;
+  if (f.priority.length > 0 && !f.priority.includes((h.priority || "").toLowerCase())) return false;
+  if (f.location.length > 0 && !f.location.includes(h.location_code ?? "")) return false;
+  if (f.status.length > 0 && !f.status.includes(normStatus(h.status))) return false;
+  if (f.shift.length > 0 && !f.shift.includes(shiftAt(new Date(h.created_at)))) return false;
+  return true;
+}
+
+export const STATUS_FILTER_LABELS: Record<HandoffStatus, string> = {
+  open: "Open",
+  needs_followup: "Needs follow-up",
+  resolved: "Resolved",
+};
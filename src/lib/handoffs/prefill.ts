@@ -0,0 +1,42 @@
+import { normLocationCode } from "@/lib/locations";
+
+/**
+ * /create deep links (QR stickers): /create?location=ICU3&category=...&priority=...
+ * Client-safe. Parsing only normalizes; the create page checks each value
+ * against the loaded registry/enums and ignores anything unknown.
+ */
+
+export type CreatePrefill = {
+  location?: string;
+  category?: string;
+  priority?: string;
+};
+
+export function parseCreatePrefill(search: string | URLSearchParams): CreatePrefill {
+  const q = typeof search === "string" ? new URLSearchParams(search) : search;
+  const out: CreatePrefill = {};
+
+  const location = normLocationCode(q.get("location"));
+  const category = (q.get("category") ?? "").trim().toLowerCase();
+  const priority = (q.get("priority") ?? "").trim().toLowerCase();
+
+  if (location) out.location = location;
+  if (category) out.category = category;
+  if (priority) out.priority = priority;
+  return out;
+}
+
+export function buildCreateUrl(origin: string, prefill: CreatePrefill) {
+  const url = new URL("/create", origin);
+  if (prefill.location) url.searchParams.set("location", prefill.location);
+  if (prefill.category) url.searchParams.set("category", prefill.category);
+  if (prefill.priority) url.searchParams.set("priority", prefill.priority);
+  return url.toString();
+}
+
+/** Base URL printed into QR codes (stickers outlive dev hosts). */
+export function appOrigin() {
+  const configured = (process.env.NEXT_PUBLIC_APP_URL || "").trim().replace(/\/+$/, "");
+  if (configured) return configured;
+  return typeof window !== "undefined" ? window.location.origin : "http://localhost:3000";
+}
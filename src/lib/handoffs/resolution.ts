@@ -0,0 +1,94 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { transitionHandoff, type TransitionActor, type TransitionResult } from "./status";
+
+/**
+ * Resolution reason codes (cs_resolution_code enum, DB source of truth).
+ * Loaded via get_cs_resolution_code_enum; these constants are the fallback
+ * and the list of codes that need a closing note.
+ */
+
+export const FALLBACK_RESOLUTION_CODES = [
+  "fulfilled",
+  "not_needed",
+  "duplicate",
+  "escalated_other_dept",
+  "unable_to_fulfill",
+  "other",
+];
+
+/** Codes where "how" isn't obvious without a note */
+export const NOTE_REQUIRED_CODES = [
+  "duplicate",
+  "escalated_other_dept",
+  "unable_to_fulfill",
+  "other",
+];
+
+export const DEFAULT_RESOLUTION_CODE = "fulfilled";
+
+export function resolutionNoteRequired(code: string) {
+  return NOTE_REQUIRED_CODES.includes(code);
+}
+
+export async function loadResolutionCodes(supabase: SupabaseClient) {
+  const { data, error } = await supabase.rpc("get_cs_resolution_code_enum");
+  if (error || !data) return FALLBACK_RESOLUTION_CODES;
+  const codes = (data as unknown[]).map((x) => String(x));
+  return codes.length > 0 ? codes : FALLBACK_RESOLUTION_CODES;
+}
+
+export type ResolveRequest = {
+  handoff_id: string;
+  code: unknown;
+  note?: unknown;
+  actor: TransitionActor;
+};
+
+/** Validate code + note, then resolve through the state machine */
+export async function resolveHandoff(
+  supabase: SupabaseClient,
+  req: ResolveRequest
+): Promise<TransitionResult> {
+  const codes = await loadResolutionCodes(supabase);
+  const code = String(req.code ?? "").trim().toLowerCase();
+  const note = String(req.note ?? "").trim();
+
+  if (!codes.includes(code)) {
+    return {
+      ok: false,
+      status: 400,
+      error: `resolution_code required. Expected one of: ${codes.join(", ")}`,
+    };
+  }
+
+  if (resolutionNoteRequired(code) && note.length < 3) {
+    return { ok: false, status: 400, error: `A closing note is required for "${code}"` };
+  }
+
+  if (note.length > 500) {
+    return { ok: false, status: 400, error: "Closing note must be 500 characters or fewer" };
+  }
+
+  return transitionHandoff(supabase, {
+    handoff_id: req.handoff_id,
+    to: "resolved",
+    reason: note || null,
+    label: `RESOLVED [${code}]`,
+    patch: { resolution_code: code, resolution_note: note || null },
+    actor: req.actor,
+  });
+}
+
+/**
+ * SMS: "H:ABC123 DONE duplicate of H:XYZ" -> code "duplicate", note "of H:XYZ".
+ * No recognizable code -> fulfilled, whole text is the note.
+ */
+export function parseResolutionText(text: string, codes: string[]) {
+  const [first = "", ...rest] = text.trim().split(/\s+/);
+  const candidate = first.toLowerCase().replace(/-/g, "_");
+
+  if (codes.includes(candidate)) {
+    return { code: candidate, note: rest.join(" ").trim() };
+  }
+  return { code: DEFAULT_RESOLUTION_CODE, note: text.trim() };
+}
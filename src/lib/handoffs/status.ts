@@ -0,0 +1,142 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * ✅ Canonical cs_status state machine (server-side, used by every route).
+ *
+ *   open           -> needs_followup (reason) | resolved
+ *   needs_followup -> open | resolved
+ *   resolved       -> open (reason) | needs_followup (reason)   ("reopen")
+ *
+ * Every change writes a system row to handoff_updates, in the same
+ * transaction as the status (transition_handoff() in SQL).
+ * Status is compare-and-set on the previous value, so two writers racing
+ * on the same handoff can't both win.
+ */
+
+export const HANDOFF_STATUSES = ["open", "needs_followup", "resolved"] as const;
+export type HandoffStatus = (typeof HANDOFF_STATUSES)[number];
+
+type TransitionRule = { reasonRequired: boolean; label: string };
+
+const TRANSITIONS: Record<HandoffStatus, Partial<Record<HandoffStatus, TransitionRule>>> = {
+  open: {
+    needs_followup: { reasonRequired: true, label: "NEEDS FOLLOW-UP" },
+    resolved: { reasonRequired: false, label: "RESOLVED" },
+  },
+  needs_followup: {
+    open: { reasonRequired: false, label: "BACK TO OPEN" },
+    resolved: { reasonRequired: false, label: "RESOLVED" },
+  },
+  resolved: {
+    open: { reasonRequired: true, label: "REOPENED" },
+    needs_followup: { reasonRequired: true, label: "REOPENED" },
+  },
+};
+
+export function isHandoffStatus(s: unknown): s is HandoffStatus {
+  return HANDOFF_STATUSES.includes(s as HandoffStatus);
+}
+
+export function normStatus(status?: string | null): HandoffStatus {
+  const s = (status || "open").trim().toLowerCase();
+  return isHandoffStatus(s) ? s : "open";
+}
+
+export function getTransitionRule(from: HandoffStatus, to: HandoffStatus) {
+  return TRANSITIONS[from][to] ?? null;
+}
+
+export function allowedTransitions(from: HandoffStatus): HandoffStatus[] {
+  return Object.keys(TRANSITIONS[from]) as HandoffStatus[];
+}
+
+export type TransitionActor = {
+  user_id: string | null;
+  display: string;
+  source: "app" | "sms" | "system";
+};
+
+/** The columns transition_handoff() accepts alongside the status */
+export type TransitionPatch = {
+  resolution_code?: string | null;
+  resolution_note?: string | null;
+  reopened_at?: string | null;
+};
+
+export type TransitionRequest = {
+  handoff_id: string;
+  to: unknown;
+  reason?: string | null;
+  actor: TransitionActor;
+  /** Overrides the audit label, e.g. "DONE via SMS" */
+  label?: string;
+  /** Extra columns written with the status change (same row, same CAS) */
+  patch?: TransitionPatch;
+};
+
+export type TransitionResult =
+  | { ok: true; changed: boolean; from: HandoffStatus; to: HandoffStatus }
+  | { ok: false; status: number; error: string };
+
+export async function transitionHandoff(
+  supabase: SupabaseClient,
+  req: TransitionRequest
+): Promise<TransitionResult> {
+  if (!isHandoffStatus(req.to)) {
+    return {
+      ok: false,
+      status: 400,
+      error: `Unknown status "${String(req.to)}". Expected one of: ${HANDOFF_STATUSES.join(", ")}`,
+    };
+  }
+  const to = req.to;
+
+  const { data: h, error: hErr } = await supabase
+    .from("handoffs")
+    .select("id, status")
+    .eq("id", req.handoff_id)
+    .maybeSingle();
+
+  if (hErr) throw hErr;
+  if (!h) return { ok: false, status: 404, error: "Handoff not found" };
+
+  const from = normStatus(h.status);
+  if (from === to) return { ok: true, changed: false, from, to };
+
+  const rule = getTransitionRule(from, to);
+  if (!rule) {
+    return {
+      ok: false,
+      status: 409,
+      error: `Cannot move handoff from ${from} to ${to}. Allowed: ${
+        allowedTransitions(from).join(", ") || "none"
+      }`,
+    };
+  }
+
+  const reason = (req.reason || "").trim();
+  if (rule.reasonRequired && reason.length < 3) {
+    return { ok: false, status: 400, error: `A reason is required to move ${from} → ${to}` };
+  }
+
+  const msg = `SYSTEM: ${req.label ?? rule.label} (${from} → ${to}) by ${req.actor.display}${
+    req.actor.source === "sms" ? " via SMS" : ""
+  }${reason ? `: ${reason}` : ""}`;
+
+  // Status + audit row together; false = the compare-and-set lost
+  const { data: changed, error: rpcErr } = await supabase.rpc("transition_handoff", {
+    p_handoff_id: req.handoff_id,
+    p_from: h.status,
+    p_to: to,
+    p_author_user_id: req.actor.user_id,
+    p_message: msg,
+    p_patch: req.patch ?? {},
+  });
+
+  if (rpcErr) throw rpcErr;
+  if (!changed) {
+    return { ok: false, status: 409, error: "Handoff changed meanwhile. Reload and try again." };
+  }
+
+  return { ok: true, changed: true, from, to };
+}
@@ -0,0 +1,50 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { CreateHandoffInput } from "./create";
+
+/**
+ * Handoff templates (public.handoff_templates). Client-safe types plus the
+ * server-side merge used by createHandoff when a template_id is posted.
+ * Explicit fields in the request win; the template fills the gaps, and the
+ * merged result goes through the normal create validation.
+ */
+
+export type HandoffTemplate = {
+  id: string;
+  name: string;
+  category: string;
+  summary: string;
+  priority: string | null;
+  location_code: string | null;
+  is_preset: boolean;
+  sort_order: number;
+  active: boolean;
+};
+
+export const TEMPLATE_COLUMNS =
+  "id, name, category, summary, priority, location_code, is_preset, sort_order, active";
+
+function blank(v: unknown) {
+  return v === undefined || v === null || String(v).trim() === "";
+}
+
+export function applyTemplate(t: HandoffTemplate, input: CreateHandoffInput): CreateHandoffInput {
+  return {
+    ...input,
+    summary: blank(input.summary) ? t.summary : input.summary,
+    category: blank(input.category) ? t.category : input.category,
+    priority: blank(input.priority) ? t.priority ?? undefined : input.priority,
+    location_code: blank(input.location_code) ? t.location_code ?? undefined : input.location_code,
+  };
+}
+
+export async function loadActiveTemplate(supabase: SupabaseClient, id: unknown) {
+  if (typeof id !== "string" || !id) return null;
+  const { data, error } = await supabase
+    .from("handoff_templates")
+    .select(TEMPLATE_COLUMNS)
+    .eq("id", id)
+    .eq("active", true)
+    .maybeSingle();
+  if (error) throw error;
+  return (data as HandoffTemplate | null) ?? null;
+}
@@ -0,0 +1,118 @@
+import { randomInt } from "node:crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * SMS reply tokens (handoff_tokens).
+ * - Short, unambiguous alphabet: no 0/O, 1/I
+ * - Collision-checked against the table (unique on token)
+ * - One active token per handoff; old ones are retired, never deleted
+ * - Retired automatically when the handoff is resolved (DB trigger)
+ */
+
+export const TOKEN_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+export const TOKEN_LENGTH = 6;
+
+const MAX_ATTEMPTS = 8;
+const TTL_HOURS = Number(process.env.HANDOFF_TOKEN_TTL_HOURS || 24 * 7);
+
+export type HandoffToken = {
+  token: string;
+  handoff_id: string;
+  created_at: string;
+  expires_at: string | null;
+};
+
+export function generateToken(length = TOKEN_LENGTH) {
+  let out = "";
+  for (let i = 0; i < length; i++) {
+    out += TOKEN_ALPHABET[randomInt(TOKEN_ALPHABET.length)];
+  }
+  return out;
+}
+
+/** Active = not retired and not expired */
+export async function getActiveToken(
+  supabase: SupabaseClient,
+  handoffId: string
+): Promise<HandoffToken | null> {
+  const { data, error } = await supabase
+    .from("handoff_tokens")
+    .select("token, handoff_id, created_at, expires_at")
+    .eq("handoff_id", handoffId)
+    .is("retired_at", null)
+    .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return (data as HandoffToken | null) ?? null;
+}
+
+/** Resolve an inbound token to its handoff (active tokens only) */
+export async function lookupToken(supabase: SupabaseClient, token: string) {
+  const { data, error } = await supabase
+    .from("handoff_tokens")
+    .select("handoff_id")
+    .eq("token", token.toUpperCase())
+    .is("retired_at", null)
+    .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`)
+    .maybeSingle();
+
+  if (error) throw error;
+  return (data?.handoff_id as string | undefined) ?? null;
+}
+
+export async function retireHandoffTokens(supabase: SupabaseClient, handoffId: string) {
+  const { error } = await supabase
+    .from("handoff_tokens")
+    .update({ retired_at: new Date().toISOString() })
+    .eq("handoff_id", handoffId)
+    .is("retired_at", null);
+
+  if (error) throw error;
+}
+
+/**
+ * Mint a new token for a handoff, retiring any active one first.
+ * Retries on collision (pre-check + unique violation 23505).
+ */
+export async function mintHandoffToken(
+  supabase: SupabaseClient,
+  handoffId: string
+): Promise<HandoffToken> {
+  await retireHandoffTokens(supabase, handoffId);
+
+  const expires_at = new Date(Date.now() + TTL_HOURS * 3600_000).toISOString();
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const token = generateToken();
+
+    const { data: existing, error: exErr } = await supabase
+      .from("handoff_tokens")
+      .select("token")
+      .eq("token", token)
+      .maybeSingle();
+
+    if (exErr) throw exErr;
+    if (existing) continue;
+
+    const { data, error } = await supabase
+      .from("handoff_tokens")
+      .insert({ token, handoff_id: handoffId, expires_at })
+      .select("token, handoff_id, created_at, expires_at")
+      .single();
+
+    if (error?.code === "23505") continue; // lost a race, try again
+    if (error) throw error;
+
+    return data as HandoffToken;
+  }
+
+  throw new Error("Could not mint a unique handoff token. Try again.");
+}
+
+/** Existing active token, or a fresh one */
+export async function ensureHandoffToken(supabase: SupabaseClient, handoffId: string) {
+  return (await getActiveToken(supabase, handoffId)) ?? mintHandoffToken(supabase, handoffId);
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { parseItemCsv, validateItemInput } from "./items";
+
+describe("validateItemInput", () => {
+  it("only returns the optional fields that were sent", () => {
+    expect(validateItemInput({ sku: "ab-1", description: "Gauze 4x4" })).toEqual({
+      ok: true,
+      item: { sku: "AB-1", description: "Gauze 4x4" },
+    });
+  });
+
+  it("normalizes fields that were sent, blank included", () => {
+    const r = validateItemInput({ sku: "AB-1", description: "Gauze", uom: "", par_level: "", active: "no" });
+    expect(r).toEqual({
+      ok: true,
+      item: { sku: "AB-1", description: "Gauze", uom: "EA", par_level: null, active: false },
+    });
+  });
+});
+
+describe("parseItemCsv", () => {
+  it("leaves columns missing from the header out of every item", () => {
+    const { items, errors } = parseItemCsv("sku,description,par_level\nAB-1,Gauze,12\nAB-2,Tape,\n");
+    expect(errors).toEqual([]);
+    expect(items).toEqual([
+      { sku: "AB-1", description: "Gauze", par_level: 12 },
+      { sku: "AB-2", description: "Tape", par_level: null },
+    ]);
+  });
+});
@@ -0,0 +1,179 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { normLocationCode } from "@/lib/locations";
+
+/**
+ * Supply item catalog (public.supply_items). Client-safe helpers, the CSV
+ * import parser, and the server-side lookup used by create validation.
+ */
+
+export type SupplyItem = {
+  id: string;
+  sku: string;
+  description: string;
+  uom: string;
+  default_location_code: string | null;
+  par_level: number | null;
+  active: boolean;
+};
+
+export const ITEM_COLUMNS = "id, sku, description, uom, default_location_code, par_level, active";
+
+export const SKU_RE = /^[A-Z0-9][A-Z0-9._/-]{0,39}$/;
+export const UOM_RE = /^[A-Z]{1,8}$/;
+export const MAX_ITEM_QTY = 100000;
+
+export function normSku(s: unknown) {
+  return String(s ?? "").trim().toUpperCase().replace(/\s+/g, "");
+}
+
+/** "12 BX" / "1 EA" */
+export function formatQty(qty: number | null | undefined, uom?: string | null) {
+  if (qty === null || qty === undefined) return "";
+  return `${qty} ${uom || "EA"}`;
+}
+
+export function matchesItem(item: SupplyItem, query: string) {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  return item.sku.toLowerCase().includes(q) || item.description.toLowerCase().includes(q);
+}
+
+/**
+ * sku + description, plus only the optional columns the caller sent: an
+ * upsert by SKU then leaves the rest of an existing row alone, and new rows
+ * take the table defaults (uom EA, active true).
+ */
+export type ItemInput = Pick<SupplyItem, "sku" | "description"> &
+  Partial<Omit<SupplyItem, "id" | "sku" | "description">>;
+
+export type ItemCheck = { ok: true; item: ItemInput } | { ok: false; error: string };
+
+/** Normalizes and validates one catalog row (admin form or CSV line). */
+export function validateItemInput(raw: Record<string, unknown>): ItemCheck {
+  const has = (key: string) => raw[key] !== undefined;
+  const sku = normSku(raw.sku);
+  const description = String(raw.description ?? "").trim();
+  const uom = String(raw.uom ?? "").trim().toUpperCase() || "EA";
+  const locRaw = raw.default_location_code ?? raw.default_location;
+  const loc = normLocationCode(locRaw);
+  const parRaw = String(raw.par_level ?? "").trim();
+  const activeRaw = raw.active;
+
+  if (!SKU_RE.test(sku)) return { ok: false, error: `Invalid SKU "${sku}"` };
+  if (description.length < 2 || description.length > 200)
+    return { ok: false, error: `${sku}: description must be 2–200 characters` };
+  if (!UOM_RE.test(uom)) return { ok: false, error: `${sku}: unit of measure must be 1–8 letters (EA, BX, CS)` };
+
+  let par_level: number | null = null;
+  if (parRaw) {
+    const n = Number(parRaw);
+    if (!Number.isInteger(n) || n < 0) return { ok: false, error: `${sku}: par level must be a whole number` };
+    par_level = n;
+  }
+
+  let active = true;
+  if (typeof activeRaw === "boolean") active = activeRaw;
+  else if (activeRaw !== undefined && String(activeRaw).trim() !== "")
+    active = !/^(false|no|n|0|inactive)$/i.test(String(activeRaw).trim());
+
+  const item: ItemInput = { sku, description };
+  if (has("uom")) item.uom = uom;
+  if (locRaw !== undefined) item.default_location_code = loc || null;
+  if (has("par_level")) item.par_level = par_level;
+  if (has("active")) item.active = active;
+
+  return { ok: true, item };
+}
+
+/** RFC 4180-ish: quoted fields, doubled quotes, CRLF or LF. */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        cell += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += c;
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((c) => c.trim() !== ""));
+}
+
+export const ITEM_CSV_HEADERS = ["sku", "description", "uom", "default_location", "par_level", "active"];
+
+export type ItemCsvResult = {
+  items: ItemInput[];
+  errors: { row: number; error: string }[]; // row 1 = header; blank lines not counted
+};
+
+/**
+ * Header row required (sku, description; uom, default_location, par_level,
+ * active optional, any order). Columns left out of the header are left out
+ * of every item, so re-importing a partial sheet keeps stored values. Bad lines are reported, not fatal; a SKU that
+ * appears twice keeps its last line. Pass knownLocations to also reject
+ * default locations that aren't registered.
+ */
+export function parseItemCsv(text: string, knownLocations?: Set<string>): ItemCsvResult {
+  const rows = parseCsv(text.replace(/^\uFEFF/, ""));
+  const errors: ItemCsvResult["errors"] = [];
+  if (rows.length === 0) return { items: [], errors: [{ row: 1, error: "Empty file" }] };
+
+  const header = rows[0].map((h) => h.trim().toLowerCase().replace(/\s+/g, "_"));
+  if (!header.includes("sku") || !header.includes("description"))
+    return { items: [], errors: [{ row: 1, error: "Header must include sku and description" }] };
+
+  const bySku = new Map<string, ItemInput>();
+  rows.slice(1).forEach((cells, i) => {
+    const raw: Record<string, unknown> = {};
+    header.forEach((h, j) => {
+      if (ITEM_CSV_HEADERS.includes(h)) raw[h] = cells[j] ?? "";
+    });
+    const checked = validateItemInput(raw);
+    const loc = checked.ok ? checked.item.default_location_code : null;
+    if (!checked.ok) errors.push({ row: i + 2, error: checked.error });
+    else if (loc && knownLocations && !knownLocations.has(loc))
+      errors.push({ row: i + 2, error: `${checked.item.sku}: unknown location ${loc}` });
+    else bySku.set(checked.item.sku, checked.item);
+  });
+
+  return { items: Array.from(bySku.values()), errors };
+}
+
+export type ItemLookup = { ok: true; item: SupplyItem } | { ok: false; status: number; error: string };
+
+export async function requireActiveItem(supabase: SupabaseClient, id: unknown): Promise<ItemLookup> {
+  if (typeof id !== "string" || !id) return { ok: false, status: 400, error: "item_id required" };
+
+  const { data, error } = await supabase.from("supply_items").select(ITEM_COLUMNS).eq("id", id).maybeSingle();
+  if (error) throw error;
+  if (!data) return { ok: false, status: 400, error: "Unknown item" };
+  if (!data.active) return { ok: false, status: 400, error: `Item ${data.sku} is inactive` };
+
+  return { ok: true, item: data as SupplyItem };
+}
@@ -0,0 +1,66 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Location registry (public.locations). Client-safe helpers plus the
+ * server-side lookup used by create validation.
+ */
+
+export type Location = {
+  code: string;
+  name: string;
+  building: string | null;
+  floor: string | null;
+  active: boolean;
+  sort_order: number;
+};
+
+export const LOCATION_COLUMNS = "code, name, building, floor, active, sort_order";
+
+export const LOCATION_CODE_RE = /^[A-Z0-9][A-Z0-9_-]{0,15}$/;
+
+/** "icu 3" -> "ICU3" (same rule as the migration backfill) */
+export function normLocationCode(s: unknown) {
+  return String(s ?? "")
+    .trim()
+    .toUpperCase()
+    .replace(/[^A-Z0-9_-]+/g, "")
+    .slice(0, 16);
+}
+
+/** "Tower B, Fl 3" (empty when neither is set) */
+export function locationDetail(loc: Pick<Location, "building" | "floor">) {
+  return [loc.building, loc.floor ? `Fl ${loc.floor}` : null].filter(Boolean).join(", ");
+}
+
+export function matchesLocation(loc: Location, query: string) {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  return [loc.code, loc.name, loc.building, loc.floor].some((v) =>
+    (v ?? "").toLowerCase().includes(q)
+  );
+}
+
+export type LocationCheck =
+  | { ok: true; location: Location }
+  | { ok: false; status: number; error: string };
+
+/** Rejects unknown and inactive codes. */
+export async function requireActiveLocation(
+  supabase: SupabaseClient,
+  code: unknown
+): Promise<LocationCheck> {
+  const c = normLocationCode(code);
+  if (!c) return { ok: false, status: 400, error: "location_code required" };
+
+  const { data, error } = await supabase
+    .from("locations")
+    .select(LOCATION_COLUMNS)
+    .eq("code", c)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return { ok: false, status: 400, error: `Unknown location: ${c}` };
+  if (!data.active) return { ok: false, status: 400, error: `Location ${c} is inactive` };
+
+  return { ok: true, location: data as Location };
+}
@@ -0,0 +1,206 @@
+import { supabase } from "@/lib/supabaseClient";
+
+/**
+ * Durable outbox (IndexedDB) for creates and updates made without a
+ * connection. Entries carry client-generated ids and replay in insertion
+ * order; the API treats a repeated id as a no-op, so a replay whose
+ * response got lost is harmless. Browser-only.
+ *
+ * - Network errors, 401 and 5xx stop the replay (retried on the next flush)
+ * - Other 4xx mark the entry failed and move on; it stays until discarded
+ */
+
+export type OutboxKind = "create" | "update";
+
+/** What a pending create looks like on the feed before it syncs */
+export type OutboxPreview = {
+  summary: string;
+  category: string;
+  priority: string;
+  location_code: string | null;
+};
+
+export type OutboxEntry = {
+  seq?: number; // IndexedDB key, assigned on enqueue = replay order
+  id: string; // client-generated handoff / update id (also in body)
+  kind: OutboxKind;
+  handoff_id: string; // create: same as id
+  body: Record<string, unknown>;
+  files?: { name: string; type: string; blob: Blob }[]; // update attachments
+  preview?: OutboxPreview;
+  queued_at: string;
+  attempts: number;
+  last_error?: string | null;
+  failed?: boolean;
+};
+
+export type SendResult =
+  | { queued: true }
+  | { queued: false; ok: boolean; status: number; json: Record<string, unknown> };
+
+/** window event fired whenever the outbox changes */
+export const OUTBOX_EVENT = "cs-outbox";
+
+const DB_NAME = "cs-handoff";
+const STORE = "outbox";
+
+const ENDPOINTS: Record<OutboxKind, string> = {
+  create: "/api/handoff/create",
+  update: "/api/handoff/update",
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb() {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, 1);
+      req.onupgradeneeded = () => {
+        req.result.createObjectStore(STORE, { keyPath: "seq", autoIncrement: true });
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        dbPromise = null;
+        reject(req.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, fn: (s: IDBObjectStore) => IDBRequest<T>) {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const req = fn(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(req.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function changed() {
+  window.dispatchEvent(new Event(OUTBOX_EVENT));
+}
+
+/** All entries in replay order (failed ones included) */
+export async function listOutbox(): Promise<OutboxEntry[]> {
+  const rows = await withStore<OutboxEntry[]>("readonly", (s) => s.getAll());
+  return rows.sort((a, b) => (a.seq ?? 0) - (b.seq ?? 0));
+}
+
+export async function enqueue(entry: Omit<OutboxEntry, "seq" | "queued_at" | "attempts">) {
+  await withStore("readwrite", (s) =>
+    s.add({ ...entry, queued_at: new Date().toISOString(), attempts: 0 })
+  );
+  changed();
+}
+
+export async function discardEntry(seq: number) {
+  await withStore("readwrite", (s) => s.delete(seq));
+  changed();
+}
+
+function isNetworkError(e: unknown) {
+  // fetch rejects with TypeError when the request never reached the server
+  return e instanceof TypeError;
+}
+
+async function send(entry: OutboxEntry, accessToken: string): Promise<Response> {
+  if (entry.files && entry.files.length > 0) {
+    const form = new FormData();
+    for (const [k, v] of Object.entries(entry.body)) if (v !== undefined && v !== null) form.set(k, String(v));
+    entry.files.forEach((f) => form.append("files", new File([f.blob], f.name, { type: f.type })));
+    return fetch(ENDPOINTS[entry.kind], {
+      method: "POST",
+      headers: { Authorization: `Bearer ${accessToken}` },
+      body: form,
+    });
+  }
+
+  return fetch(ENDPOINTS[entry.kind], {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${accessToken}` },
+    body: JSON.stringify(entry.body),
+  });
+}
+
+async function accessToken() {
+  const { data } = await supabase.auth.getSession();
+  return data.session?.access_token ?? null;
+}
+
+let flushing: Promise<{ sent: number; failed: number; remaining: number }> | null = null;
+
+/** Replays pending entries in order; concurrent calls share one run */
+export function flushOutbox() {
+  if (!flushing) {
+    flushing = runFlush().finally(() => {
+      flushing = null;
+    });
+  }
+  return flushing;
+}
+
+async function runFlush() {
+  let sent = 0;
+  let failed = 0;
+
+  const pending = (await listOutbox()).filter((e) => !e.failed);
+  const token = pending.length > 0 ? await accessToken() : null;
+
+  for (const entry of token ? pending : []) {
+    let res: Response;
+    try {
+      res = await send(entry, token as string);
+    } catch (e) {
+      if (!isNetworkError(e)) throw e;
+      await withStore("readwrite", (s) => s.put({ ...entry, attempts: entry.attempts + 1, last_error: "Offline" }));
+      break;
+    }
+
+    if (res.ok) {
+      await withStore("readwrite", (s) => s.delete(entry.seq as number));
+      sent++;
+      continue;
+    }
+
+    const j = await res.json().catch(() => ({}));
+    const last_error = String(j?.error || `HTTP ${res.status}`);
+    const permanent = res.status >= 400 && res.status < 500 && res.status !== 401 && res.status !== 408;
+    await withStore("readwrite", (s) =>
+      s.put({ ...entry, attempts: entry.attempts + 1, last_error, failed: permanent })
+    );
+    if (!permanent) break;
+    failed++;
+  }
+
+  const remaining = (await listOutbox()).filter((e) => !e.failed).length;
+  if (pending.length > 0) changed();
+  return { sent, failed, remaining };
+}
+
+/**
+ * Sends now when possible, otherwise queues. Anything already waiting in
+ * the outbox goes first, so a new write never overtakes an older one
+ * (e.g. an update for a handoff that was created offline).
+ */
+export async function sendOrQueue(entry: Omit<OutboxEntry, "seq" | "queued_at" | "attempts">): Promise<SendResult> {
+  const backlog = (await listOutbox().catch(() => [])).some((e) => !e.failed);
+
+  if (!backlog && navigator.onLine !== false) {
+    const token = await accessToken();
+    if (!token) throw new Error("Not signed in.");
+    try {
+      const res = await send({ ...entry, queued_at: "", attempts: 0 }, token);
+      const json = (await res.json().catch(() => ({}))) as Record<string, unknown>;
+      if (res.status < 500) return { queued: false, ok: res.ok, status: res.status, json };
+    } catch (e) {
+      if (!isNetworkError(e)) throw e;
+    }
+  }
+
+  await enqueue(entry);
+  flushOutbox().catch(() => {});
+  return { queued: true };
+}
@@ -0,0 +1,55 @@
+import { useEffect, useMemo, useState } from "react";
+import { flushOutbox, listOutbox, OUTBOX_EVENT, type OutboxEntry } from "./queue";
+
+/**
+ * Live view of the outbox for pages, plus the replay triggers: on mount,
+ * when the browser comes back online, and when the tab becomes visible.
+ * `onSynced` runs after a flush that delivered something (reload data).
+ */
+export function useOutbox(onSynced?: () => void) {
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const refresh = () =>
+      listOutbox()
+        .then((rows) => {
+          if (!cancelled) setEntries(rows);
+        })
+        .catch(() => {});
+
+    const flush = () =>
+      flushOutbox()
+        .then((r) => {
+          if (r.sent > 0) onSynced?.();
+        })
+        .catch(() => {});
+
+    const onVis = () => {
+      if (document.visibilityState === "visible") flush();
+    };
+
+    refresh();
+    flush();
+    window.addEventListener(OUTBOX_EVENT, refresh);
+    window.addEventListener("online", flush);
+    document.addEventListener("visibilitychange", onVis);
+
+    return () => {
+      cancelled = true;
+      window.removeEventListener(OUTBOX_EVENT, refresh);
+      window.removeEventListener("online", flush);
+      document.removeEventListener("visibilitychange", onVis);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  /** handoff ids with unsynced work (pending creates and updates) */
+  const pendingHandoffIds = useMemo(
+    () => new Set(entries.filter((e) => !e.failed).map((e) => e.handoff_id)),
+    [entries]
+  );
+
+  return { entries, pendingHandoffIds, flush: flushOutbox };
+}
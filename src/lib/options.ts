@@ -0,0 +1,65 @@
+/**
+ * Admin-managed category / priority options (cs_categories, cs_priorities).
+ * Client-safe. Colors are stored as #rrggbb; the defaults below are the
+ * original hard-coded palette and apply when a value has no row yet.
+ */
+
+import type { FieldDef } from "@/lib/handoffs/fields";
+
+export type OptionKind = "category" | "priority";
+
+export type OptionRow = {
+  value: string;
+  label: string;
+  color: string;
+  sort_order: number;
+  active: boolean;
+  fields?: FieldDef[]; // categories only (structured fields schema)
+};
+
+export const OPTION_TABLES: Record<OptionKind, string> = {
+  category: "cs_categories",
+  priority: "cs_priorities",
+};
+
+export const DEFAULT_PRIORITY_COLORS: Record<string, string> = {
+  high: "#ff5050",
+  medium: "#ffbe3c",
+  low: "#50ffa0",
+};
+
+export const DEFAULT_CATEGORY_COLOR = "#9aa0a6";
+
+export type ColorMap = Record<string, string>;
+
+export function isHexColor(s: unknown): s is string {
+  return typeof s === "string" && /^#[0-9a-fA-F]{6}$/.test(s);
+}
+
+export function hexToRgba(hex: string, alpha: number) {
+  const h = isHexColor(hex) ? hex.slice(1) : "ffffff";
+  const r = parseInt(h.slice(0, 2), 16);
+  const g = parseInt(h.slice(2, 4), 16);
+  const b = parseInt(h.slice(4, 6), 16);
+  return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+}
+
+export function priorityColor(priority?: string | null, colors?: ColorMap) {
+  const p = (priority || "").toLowerCase();
+  return colors?.[p] ?? DEFAULT_PRIORITY_COLORS[p] ?? DEFAULT_PRIORITY_COLORS.low;
+}
+
+export function toColorMap(rows: Pick<OptionRow, "value" | "color">[] | null | undefined): ColorMap {
+  const out: ColorMap = {};
+  for (const r of rows ?? []) if (isHexColor(r.color)) out[r.value] = r.color;
+  return out;
+}
+
+/** Soft glow by priority — used on open feed cards and the detail card. */
+export function glowStyleForPriority(priority?: string | null, colors?: ColorMap) {
+  const c = priorityColor(priority, colors);
+  return {
+    boxShadow: `0 0 18px ${hexToRgba(c, 0.22)}, 0 0 42px ${hexToRgba(c, 0.1)}`,
+    border: `1px solid ${hexToRgba(c, 0.26)}`,
+  };
+}
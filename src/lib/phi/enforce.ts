@@ -0,0 +1,67 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { blockingPhi, describePhi, phiKinds, redactPhi, screenPhi, type PhiKind } from "./index";
+
+/**
+ * Server-side PHI enforcement.
+ * PHI_MODE=reject (default) refuses the write; PHI_MODE=redact stores a
+ * redacted copy. Either way the attempt is logged to phi_blocks with the
+ * kinds found — never the offending text. Warning-only findings (bare
+ * "pt Name") pass through.
+ */
+
+export type PhiContext = {
+  route: string;
+  source: "app" | "sms" | "system";
+  handoff_id?: string | null;
+  user_id?: string | null;
+};
+
+export type PhiEnforceResult =
+  | { ok: true; text: string; redacted: boolean; kinds: PhiKind[] }
+  | { ok: false; status: 422; error: string; kinds: PhiKind[] };
+
+export function phiMode(): "reject" | "redact" {
+  return process.env.PHI_MODE === "redact" ? "redact" : "reject";
+}
+
+export async function logPhiBlock(
+  supabase: SupabaseClient,
+  ctx: PhiContext,
+  kinds: PhiKind[],
+  action: "rejected" | "redacted"
+) {
+  const { error } = await supabase.from("phi_blocks").insert({
+    route: ctx.route,
+    source: ctx.source,
+    handoff_id: ctx.handoff_id ?? null,
+    user_id: ctx.user_id ?? null,
+    kinds,
+    action,
+  });
+  // Logging must never turn a block into a 500
+  if (error) console.error("PHI BLOCK LOG ERROR:", error.message);
+}
+
+export async function enforceNoPhi(
+  supabase: SupabaseClient,
+  text: string,
+  ctx: PhiContext
+): Promise<PhiEnforceResult> {
+  const findings = blockingPhi(screenPhi(text));
+  if (findings.length === 0) return { ok: true, text, redacted: false, kinds: [] };
+
+  const kinds = phiKinds(findings);
+
+  if (phiMode() === "redact") {
+    await logPhiBlock(supabase, ctx, kinds, "redacted");
+    return { ok: true, text: redactPhi(text, findings), redacted: true, kinds };
+  }
+
+  await logPhiBlock(supabase, ctx, kinds, "rejected");
+  return {
+    ok: false,
+    status: 422,
+    error: `Looks like PHI (${describePhi(findings)}). Remove patient info and try again.`,
+    kinds,
+  };
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { blockingPhi, phiKinds, screenPhi } from "./index";
+
+const blocked = (text: string) => phiKinds(blockingPhi(screenPhi(text)));
+const warned = (text: string) => phiKinds(screenPhi(text).filter((f) => f.severity === "warn"));
+
+describe("screenPhi", () => {
+  it.each([
+    "Patient Transport needs wheelchairs",
+    "PT Gym needs towels",
+    "Pt Lift battery dead",
+    "Mr Coffee carafe cracked",
+    "Ms Office license",
+    "Lot 123-45-6789 recalled, pull from 4W",
+    "Batch #555-123-4567 short dated",
+    "Rm 12 pt needs gloves",
+    "Room 4 Patient Transport cart missing",
+  ])("does not block supply text: %s", (text) => {
+    expect(blocked(text)).toEqual([]);
+  });
+
+  it.each([
+    ["SSN 123-45-6789", "ssn"],
+    ["MRN: 00123456", "mrn"],
+    ["DOB 01/02/1950", "dob"],
+    ["call 555-123-4567", "phone"],
+    ["email jane.doe@example.com", "email"],
+    ["Rm 12B bed 2 pt John Smith", "room_patient"],
+    ["pt Smith rm 4 needs a pump", "room_patient"],
+    ["Patient Garcia in Room 210 needs IV tubing", "room_patient"],
+  ])("blocks %s", (text, kind) => {
+    expect(blocked(text)).toContain(kind);
+  });
+
+  it("only warns on a bare title + name", () => {
+    expect(blocked("pt Garcia needs a walker")).toEqual([]);
+    expect(warned("pt Garcia needs a walker")).toEqual(["patient_name"]);
+    expect(warned("Mrs. Lee asked for blankets")).toEqual(["patient_name"]);
+  });
+
+  it("does not warn on department or equipment words", () => {
+    expect(screenPhi("Patient Transport needs wheelchairs")).toEqual([]);
+    expect(screenPhi("PT Gym needs towels")).toEqual([]);
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * PHI screening (client + server safe, no deps).
+ * Heuristic on purpose: catches the common ways PHI leaks into a supply
+ * handoff (MRN, DOB, SSN, phone, email, "Rm 12 bed B pt Smith").
+ * Client uses it for warnings; server enforces via lib/phi/enforce, which
+ * only blocks "block" findings. A bare title + name ("pt Garcia") is just a
+ * warning: on its own it's too often a department or device ("PT Gym").
+ */
+
+export type PhiKind =
+  | "ssn"
+  | "mrn"
+  | "dob"
+  | "phone"
+  | "email"
+  | "patient_name"
+  | "room_patient";
+
+export type PhiSeverity = "block" | "warn";
+
+export type PhiFinding = {
+  kind: PhiKind;
+  severity: PhiSeverity;
+  start: number;
+  end: number;
+};
+
+export const PHI_LABELS: Record<PhiKind, string> = {
+  ssn: "SSN",
+  mrn: "MRN / medical record number",
+  dob: "date of birth",
+  phone: "phone number",
+  email: "email address",
+  patient_name: "patient name",
+  room_patient: "room/bed with patient name",
+};
+
+// Words that follow "PT"/"Patient"/"Mr" in department, service and device
+// names ("Patient Transport", "PT Gym", "Pt Lift", "Mr Coffee")
+const NOT_NAMES = [
+  "Access", "Bed", "Beds", "Care", "Chair", "Coffee", "Education", "Equipment", "Experience",
+  "Gym", "Lift", "Lifts", "Monitor", "Monitors", "Office", "Rehab", "Relations", "Room",
+  "Safety", "Scale", "Services", "Supplies", "Supply", "Therapy", "Tower", "Transport",
+];
+const NAME = `(?!(?:${NOT_NAMES.join("|")})\\b)[A-Z][a-z'-]+(?:\\s+[A-Z][a-z'-]+)?`;
+// Titles matched case-insensitively; the name must stay Capitalized
+const PT_CI = "(?:[Pp][Tt]|[Pp]atient|[Mm][Rr][Ss]?|[Mm][Ss]|[Mm]iss)\\.?";
+const ROOM =
+  "\\b(?:[Rr][Oo][Oo][Mm]|[Rr][Mm])\\.?\\s*#?\\s*\\d{1,4}[A-Za-z]?(?:\\s*[-/,]?\\s*(?:[Bb][Ee][Dd]|[Bb][Dd])\\.?\\s*#?\\s*[A-Za-z0-9]{1,3})?";
+// Supply identifiers that look like SSNs / phone numbers ("Lot 123-45-6789")
+const NOT_AFTER_ID = "(?<!\\b(?:lot|batch|ref|serial|sn|s/n|po|part|cat|catalog|model|item|sku)\\.?\\s*(?:#|no\\.?|number)?\\s*[:#]?\\s*)";
+
+const RULES: { kind: PhiKind; severity: PhiSeverity; re: RegExp }[] = [
+  { kind: "ssn", severity: "block", re: new RegExp(`${NOT_AFTER_ID}\\b\\d{3}-\\d{2}-\\d{4}\\b`, "gi") },
+  { kind: "mrn", severity: "block", re: /\b(?:MRN|MR#|MR\s*no\.?|medical\s+record(?:\s+(?:no\.?|number|#))?)\s*[:#]?\s*[A-Z]{0,3}\d{5,12}\b/gi },
+  {
+    kind: "dob",
+    severity: "block",
+    re: /\b(?:DOB|D\.O\.B\.?|date\s+of\s+birth|born)\s*[:\-]?\s*\d{1,2}[\/.-]\d{1,2}[\/.-]\d{2,4}\b/gi,
+  },
+  {
+    kind: "phone",
+    severity: "block",
+    re: new RegExp(
+      `${NOT_AFTER_ID}(?:\\+1[\\s.-]?)?\\(?\\b\\d{3}\\)?[\\s.-]\\d{3}[\\s.-]\\d{4}\\b|\\+1\\d{10}\\b`,
+      "gi"
+    ),
+  },
+  { kind: "email", severity: "block", re: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g },
+  // Room/bed + name, e.g. "Rm 12B bed 2 pt John Smith" or "pt Smith rm 4"
+  {
+    kind: "room_patient",
+    severity: "block",
+    re: new RegExp(`${ROOM}[^.\\n]{0,30}?\\b${PT_CI}\\s+${NAME}|\\b${PT_CI}\\s+${NAME}[^.\\n]{0,30}?${ROOM}`, "g"),
+  },
+  // Bare patient name after a title ("pt Garcia", "Mrs. Lee"): warning only
+  { kind: "patient_name", severity: "warn", re: new RegExp(`\\b${PT_CI}\\s+${NAME}`, "g") },
+];
+
+export function screenPhi(text: string): PhiFinding[] {
+  const findings: PhiFinding[] = [];
+
+  for (const { kind, severity, re } of RULES) {
+    re.lastIndex = 0;
+    for (const m of text.matchAll(re)) {
+      const start = m.index ?? 0;
+      const end = start + m[0].length;
+      // Skip spans already covered by a stronger rule
+      if (findings.some((f) => start < f.end && end > f.start)) continue;
+      findings.push({ kind, severity, start, end });
+    }
+  }
+
+  return findings.sort((a, b) => a.start - b.start);
+}
+
+/** Findings the server refuses (or redacts); the rest are client warnings */
+export function blockingPhi(findings: PhiFinding[]) {
+  return findings.filter((f) => f.severity === "block");
+}
+
+export function phiKinds(findings: PhiFinding[]): PhiKind[] {
+  return [...new Set(findings.map((f) => f.kind))];
+}
+
+export function describePhi(findings: PhiFinding[]) {
+  return phiKinds(findings)
+    .map((k) => PHI_LABELS[k])
+    .join(", ");
+}
+
+export function redactPhi(text: string, findings = screenPhi(text)) {
+  let out = "";
+  let cursor = 0;
+  for (const f of findings) {
+    out += text.slice(cursor, f.start) + `[REDACTED ${f.kind.toUpperCase()}]`;
+    cursor = f.end;
+  }
+  return out + text.slice(cursor);
+}
@@ -0,0 +1,109 @@
+import { supabase } from "@/lib/supabaseClient";
+
+/**
+ * Browser side of Web Push: service worker registration and the
+ * subscribe/unsubscribe round trips to /api/push/subscribe.
+ * Browser-only; never import from server code (and not via ./index).
+ */
+
+export function pushSupported() {
+  return (
+    typeof window !== "undefined" &&
+    "serviceWorker" in navigator &&
+    "PushManager" in window &&
+    "Notification" in window
+  );
+}
+
+export function registerServiceWorker() {
+  if (typeof window === "undefined" || !("serviceWorker" in navigator)) return Promise.resolve(null);
+  return navigator.serviceWorker.register("/sw.js", { scope: "/" }).catch((e) => {
+    console.error("Service worker registration failed:", e);
+    return null;
+  });
+}
+
+function base64UrlToBytes(s: string) {
+  const b64 = (s + "=".repeat((4 - (s.length % 4)) % 4)).replace(/-/g, "+").replace(/_/g, "/");
+  return Uint8Array.from(atob(b64), (c) => c.charCodeAt(0));
+}
+
+async function authHeaders() {
+  const { data } = await supabase.auth.getSession();
+  const token = data.session?.access_token;
+  if (!token) throw new Error("Not signed in.");
+  return { "Content-Type": "application/json", Authorization: `Bearer ${token}` };
+}
+
+function sameKey(a: ArrayBuffer | null | undefined, b: Uint8Array) {
+  if (!a) return true;
+  const x = new Uint8Array(a);
+  return x.length === b.length && x.every((v, i) => v === b[i]);
+}
+
+async function currentSubscription() {
+  // getRegistration (not .ready): resolves even when no worker is registered
+  const reg = await navigator.serviceWorker.getRegistration("/");
+  return reg ? reg.pushManager.getSubscription() : null;
+}
+
+async function saveSubscription(sub: PushSubscription) {
+  const res = await fetch("/api/push/subscribe", {
+    method: "POST",
+    headers: await authHeaders(),
+    body: JSON.stringify({ subscription: sub.toJSON() }),
+  });
+  const j = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(j?.error || "Could not save push subscription");
+}
+
+export async function isPushEnabled() {
+  if (!pushSupported() || Notification.permission !== "granted") return false;
+  return Boolean(await currentSubscription());
+}
+
+/** Asks for permission (call from a tap), subscribes and stores the subscription */
+export async function enablePush() {
+  if (!pushSupported()) throw new Error("This browser can't receive push notifications.");
+  await registerServiceWorker();
+
+  const permission = await Notification.requestPermission();
+  if (permission !== "granted") throw new Error("Notifications are blocked for this site.");
+
+  const res = await fetch("/api/push/subscribe");
+  const j = await res.json().catch(() => ({}));
+  if (!res.ok || !j?.public_key) throw new Error(j?.error || "Push is not configured");
+
+  const reg = await navigator.serviceWorker.ready;
+  let sub = await reg.pushManager.getSubscription();
+  const key = base64UrlToBytes(j.public_key);
+
+  // Server key changed (e.g. dev throwaway key): start over
+  if (sub && !sameKey(sub.options.applicationServerKey, key)) {
+    await sub.unsubscribe();
+    sub = null;
+  }
+
+  sub ??= await reg.pushManager.subscribe({ userVisibleOnly: true, applicationServerKey: key });
+  await saveSubscription(sub);
+}
+
+export async function disablePush() {
+  if (!pushSupported()) return;
+  const sub = await currentSubscription();
+  if (!sub) return;
+
+  await fetch("/api/push/subscribe", {
+    method: "DELETE",
+    headers: await authHeaders(),
+    body: JSON.stringify({ endpoint: sub.endpoint }),
+  }).catch(() => null);
+  await sub.unsubscribe();
+}
+
+/** Re-stores an existing subscription (no prompt) so a rotated endpoint or a new sign-in on this device is picked up */
+export async function syncPushSubscription() {
+  if (!pushSupported() || Notification.permission !== "granted") return;
+  const sub = await currentSubscription();
+  if (sub) await saveSubscription(sub).catch(() => {});
+}
@@ -0,0 +1,62 @@
+import { createLocalPushTransport } from "./local";
+import { createWebPushTransport, generateVapidKeys } from "./webpush";
+import type { PushTransport } from "./transport";
+
+export * from "./transport";
+
+/**
+ * Env:
+ * - PUSH_TRANSPORT: "webpush" | "local" | "none"
+ *   (default: webpush when VAPID_PRIVATE_KEY is set, else local outside
+ *   production and none in production: the local transport never delivers)
+ * - VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY: `npx web-push generate-vapid-keys`
+ * - VAPID_SUBJECT: mailto:/https: contact (default NEXT_PUBLIC_APP_URL)
+ * - PUSH_LOCAL_OUTFILE: NDJSON file for the local transport (console if unset)
+ */
+
+let cached: PushTransport | null | undefined;
+let devKeys: { publicKey: string; privateKey: string } | undefined;
+
+function transportKind() {
+  const fallback = process.env.NODE_ENV === "production" ? "none" : "local";
+  return (process.env.PUSH_TRANSPORT || (process.env.VAPID_PRIVATE_KEY ? "webpush" : fallback)).toLowerCase();
+}
+
+/** Returns null when push is disabled (PUSH_TRANSPORT=none or unconfigured in production) */
+export function getPushTransport(): PushTransport | null {
+  if (cached !== undefined) return cached;
+
+  const kind = transportKind();
+
+  if (kind === "none") {
+    cached = null;
+  } else if (kind === "webpush") {
+    const publicKey = process.env.VAPID_PUBLIC_KEY;
+    const privateKey = process.env.VAPID_PRIVATE_KEY;
+    const subject = process.env.VAPID_SUBJECT || process.env.NEXT_PUBLIC_APP_URL;
+
+    if (!publicKey) throw new Error("Missing VAPID_PUBLIC_KEY");
+    if (!privateKey) throw new Error("Missing VAPID_PRIVATE_KEY");
+    if (!subject) throw new Error("Missing VAPID_SUBJECT");
+
+    cached = createWebPushTransport({ publicKey, privateKey, subject });
+  } else if (kind === "local") {
+    cached = createLocalPushTransport({ outFile: process.env.PUSH_LOCAL_OUTFILE });
+  } else {
+    throw new Error(`Unknown PUSH_TRANSPORT: ${kind}`);
+  }
+
+  return cached;
+}
+
+/**
+ * Key browsers subscribe with. The local transport never delivers, so
+ * without VAPID_PUBLIC_KEY it hands out a per-process throwaway key to let
+ * the subscribe flow run in dev.
+ */
+export function getVapidPublicKey(): string | null {
+  if (process.env.VAPID_PUBLIC_KEY) return process.env.VAPID_PUBLIC_KEY;
+  if (transportKind() !== "local") return null;
+  devKeys ??= generateVapidKeys();
+  return devKeys.publicKey;
+}
@@ -0,0 +1,34 @@
+import { appendFile } from "node:fs/promises";
+import { maskEndpoint, type PushPayload, type PushSendResult, type PushTarget, type PushTransport } from "./transport";
+
+/**
+ * Local stand-in for dev/tests.
+ * Appends one NDJSON line per push to `outFile`, or logs to console.
+ * Nothing is delivered to the browser.
+ */
+
+export type LocalPushOptions = {
+  outFile?: string | null;
+};
+
+export function createLocalPushTransport(opts: LocalPushOptions = {}): PushTransport {
+  return {
+    name: "local",
+    async send(target: PushTarget, payload: PushPayload): Promise<PushSendResult> {
+      const line = JSON.stringify({
+        at: new Date().toISOString(),
+        endpoint: target.endpoint,
+        host: maskEndpoint(target.endpoint),
+        ...payload,
+      });
+
+      if (opts.outFile) {
+        await appendFile(opts.outFile, line + "\n", "utf8");
+      } else {
+        console.log("PUSH (local):", line);
+      }
+
+      return { endpoint: target.endpoint, status: "sent" };
+    },
+  };
+}
@@ -0,0 +1,102 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  getPushTransport,
+  isPushServiceEndpoint,
+  summarizePush,
+  type PushPayload,
+  type PushSendResult,
+} from "./index";
+
+/**
+ * Fan an alert (high-priority create or manual) out to every stored push subscription
+ * (skipping inactive profiles and the handoff's creator), then prune
+ * subscriptions the push service reports gone. Never throws on delivery
+ * errors; DB errors propagate.
+ */
+
+export type PushAlertInput = {
+  handoff_id: string;
+  summary?: string | null;
+  priority: string; // title label, e.g. "high" -> "(HIGH)"
+  location_code?: string | null;
+  exclude_user_id?: string | null;
+};
+
+export type PushAlertResult = {
+  transport: string;
+  summary: string;
+  counts: { sent: number; gone: number; failed: number };
+};
+
+type SubRow = {
+  id: string;
+  user_id: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+  failure_count: number;
+};
+
+export async function pushHandoffAlert(
+  supabase: SupabaseClient,
+  input: PushAlertInput
+): Promise<PushAlertResult> {
+  const transport = getPushTransport();
+  if (!transport) return { transport: "none", summary: "disabled", counts: { sent: 0, gone: 0, failed: 0 } };
+
+  const [subs, inactive] = await Promise.all([
+    supabase.from("push_subscriptions").select("id, user_id, endpoint, p256dh, auth, failure_count"),
+    supabase.from("profiles").select("user_id").eq("active", false),
+  ]);
+  if (subs.error) throw subs.error;
+  if (inactive.error) throw inactive.error;
+
+  const skip = new Set((inactive.data ?? []).map((p) => p.user_id as string));
+  if (input.exclude_user_id) skip.add(input.exclude_user_id);
+  const targets = ((subs.data ?? []) as SubRow[]).filter((s) => !skip.has(s.user_id));
+
+  const payload: PushPayload = {
+    title: `CS HANDOFF (${input.priority.toUpperCase()})${input.location_code ? ` [${input.location_code}]` : ""}`,
+    body: String(input.summary || "").slice(0, 120),
+    url: `/handoff/${input.handoff_id}`,
+    tag: `handoff-${input.handoff_id}`,
+  };
+
+  const results: PushSendResult[] = await Promise.all(
+    targets.map((t) =>
+      // Rows saved before the host allow-list are never contacted, just pruned
+      isPushServiceEndpoint(t.endpoint)
+        ? transport.send(t, payload).catch((e) => ({
+            endpoint: t.endpoint,
+            status: "failed" as const,
+            error: e instanceof Error ? e.message : "Send failed",
+          }))
+        : { endpoint: t.endpoint, status: "gone" as const, error: "Not a known push service" }
+    )
+  );
+
+  // Bookkeeping is best-effort: a failed prune must not fail the alert
+  const now = new Date().toISOString();
+  await Promise.all(
+    results.map((r, i) => {
+      const row = targets[i];
+      const q = supabase.from("push_subscriptions");
+      const op =
+        r.status === "gone"
+          ? q.delete().eq("id", row.id)
+          : r.status === "sent"
+          ? q.update({ last_success_at: now, failure_count: 0 }).eq("id", row.id)
+          : q.update({ failure_count: row.failure_count + 1 }).eq("id", row.id);
+      return op.then(({ error }) => {
+        if (error) console.error("PUSH BOOKKEEPING ERROR:", error.message);
+      });
+    })
+  );
+
+  const n = (s: PushSendResult["status"]) => results.filter((r) => r.status === s).length;
+  return {
+    transport: transport.name,
+    summary: summarizePush(results),
+    counts: { sent: n("sent"), gone: n("gone"), failed: n("failed") },
+  };
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { isPushServiceEndpoint, parseSubscription } from "./transport";
+
+const keys = { p256dh: "B".repeat(87), auth: "a".repeat(22) };
+
+describe("isPushServiceEndpoint", () => {
+  it.each([
+    "https://fcm.googleapis.com/fcm/send/abc",
+    "https://updates.push.services.mozilla.com/wpush/v2/abc",
+    "https://wns2-by3p.notify.windows.com/w/?token=abc",
+    "https://web.push.apple.com/QAbc",
+  ])("accepts %s", (endpoint) => {
+    expect(isPushServiceEndpoint(endpoint)).toBe(true);
+  });
+
+  it.each([
+    "https://internal.example.com/hook",
+    "https://169.254.169.254/latest/meta-data",
+    "https://fcm.googleapis.com.evil.test/x",
+    "https://notify.windows.com.evil.test/x",
+    "https://fcm.googleapis.com:8443/x",
+    "http://fcm.googleapis.com/fcm/send/abc",
+  ])("rejects %s", (endpoint) => {
+    expect(isPushServiceEndpoint(endpoint)).toBe(false);
+  });
+});
+
+describe("parseSubscription", () => {
+  it("only returns subscriptions for known push services", () => {
+    expect(parseSubscription({ endpoint: "https://fcm.googleapis.com/fcm/send/abc", keys })).not.toBeNull();
+    expect(parseSubscription({ endpoint: "https://internal.example.com/hook", keys })).toBeNull();
+  });
+});
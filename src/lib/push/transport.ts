@@ -0,0 +1,85 @@
+/**
+ * Provider-agnostic Web Push transport.
+ * Callers talk to `PushTransport` only; the concrete adapter (VAPID web-push,
+ * local) is picked from env in `getPushTransport()`.
+ */
+
+export type PushTarget = {
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+};
+
+/** What the service worker receives (public/sw.js) */
+export type PushPayload = {
+  title: string;
+  body: string;
+  url: string; // same-origin path to open on click
+  tag?: string; // replaces an earlier notification with the same tag
+};
+
+/** "gone" = the push service no longer knows this subscription; delete it */
+export type PushSendStatus = "sent" | "gone" | "failed";
+
+export type PushSendResult = {
+  endpoint: string;
+  status: PushSendStatus;
+  error?: string | null;
+};
+
+export interface PushTransport {
+  readonly name: string;
+  send(target: PushTarget, payload: PushPayload): Promise<PushSendResult>;
+}
+
+/**
+ * Push services browsers actually hand out (Chrome/Edge via FCM, Firefox,
+ * legacy Edge/WNS, Safari). The server POSTs to every stored endpoint, so
+ * anything else would let a user point it at an arbitrary host.
+ */
+const PUSH_SERVICE_HOSTS = ["fcm.googleapis.com", "updates.push.services.mozilla.com", "web.push.apple.com"];
+const PUSH_SERVICE_SUFFIXES = [".notify.windows.com"];
+
+export function isPushServiceEndpoint(endpoint: string) {
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== "https:" || url.port !== "" || url.username || url.password) return false;
+  const host = url.hostname.toLowerCase();
+  return PUSH_SERVICE_HOSTS.includes(host) || PUSH_SERVICE_SUFFIXES.some((s) => host.endsWith(s));
+}
+
+/** Browser PushSubscription.toJSON() -> PushTarget, or null if malformed */
+export function parseSubscription(raw: unknown): PushTarget | null {
+  const o = (raw && typeof raw === "object" ? raw : {}) as {
+    endpoint?: unknown;
+    keys?: { p256dh?: unknown; auth?: unknown };
+  };
+  const endpoint = typeof o.endpoint === "string" ? o.endpoint : "";
+  const p256dh = typeof o.keys?.p256dh === "string" ? o.keys.p256dh : "";
+  const auth = typeof o.keys?.auth === "string" ? o.keys.auth : "";
+
+  if (!/^https:\/\/\S+$/.test(endpoint) || endpoint.length > 1000) return null;
+  if (!isPushServiceEndpoint(endpoint)) return null;
+  if (!/^[A-Za-z0-9_-]{40,200}$/.test(p256dh) || !/^[A-Za-z0-9_-]{8,64}$/.test(auth)) return null;
+  return { endpoint, p256dh, auth };
+}
+
+/** Push service host only, for logs and audit rows */
+export function maskEndpoint(endpoint: string) {
+  try {
+    return new URL(endpoint).host;
+  } catch {
+    return "?";
+  }
+}
+
+/** One-line audit summary, e.g. "3 sent, 1 gone, 0 failed" */
+export function summarizePush(results: PushSendResult[]) {
+  if (results.length === 0) return "skipped (no subscriptions)";
+  const n = (s: PushSendStatus) => results.filter((r) => r.status === s).length;
+  return `${n("sent")} sent, ${n("gone")} gone, ${n("failed")} failed`;
+}
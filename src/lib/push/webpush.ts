@@ -0,0 +1,51 @@
+import webpush, { WebPushError } from "web-push";
+import type { PushPayload, PushSendResult, PushTarget, PushTransport } from "./transport";
+
+/**
+ * VAPID Web Push adapter (RFC 8030/8291/8292 via the web-push package).
+ * Payloads are encrypted per subscription; 404/410 from the push service
+ * mean the subscription is gone.
+ */
+
+export type WebPushOptions = {
+  publicKey: string;
+  privateKey: string;
+  subject: string; // mailto: or https: contact for the push service
+  ttlSeconds?: number;
+  timeoutMs?: number;
+};
+
+export function createWebPushTransport(opts: WebPushOptions): PushTransport {
+  const vapidDetails = { subject: opts.subject, publicKey: opts.publicKey, privateKey: opts.privateKey };
+
+  return {
+    name: "webpush",
+    async send(target: PushTarget, payload: PushPayload): Promise<PushSendResult> {
+      try {
+        await webpush.sendNotification(
+          { endpoint: target.endpoint, keys: { p256dh: target.p256dh, auth: target.auth } },
+          JSON.stringify(payload),
+          {
+            vapidDetails,
+            TTL: opts.ttlSeconds ?? 4 * 60 * 60,
+            urgency: "high",
+            timeout: opts.timeoutMs ?? 10_000,
+          }
+        );
+        return { endpoint: target.endpoint, status: "sent" };
+      } catch (e) {
+        if (e instanceof WebPushError && (e.statusCode === 404 || e.statusCode === 410))
+          return { endpoint: target.endpoint, status: "gone", error: `HTTP ${e.statusCode}` };
+        return {
+          endpoint: target.endpoint,
+          status: "failed",
+          error: e instanceof WebPushError ? `HTTP ${e.statusCode}` : e instanceof Error ? e.message : "Send failed",
+        };
+      }
+    },
+  };
+}
+
+export function generateVapidKeys() {
+  return webpush.generateVAPIDKeys();
+}
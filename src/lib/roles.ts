@@ -0,0 +1,77 @@
+/**
+ * Role model + permission matrix (profiles.role).
+ * Client-safe: pages use `can()` to hide actions, routes enforce it via
+ * requirePermission() in lib/serverAuth.
+ *
+ *   tech        create, update, resolve
+ *   lead        + reopen, regenerate SMS code, send SMS alert
+ *   supervisor  + compliance export
+ *   admin       + manage users/roles and settings
+ */
+
+export const ROLES = ["tech", "lead", "supervisor", "admin"] as const;
+export type Role = (typeof ROLES)[number];
+
+export const DEFAULT_ROLE: Role = "tech";
+
+export type Permission =
+  | "handoff.create"
+  | "handoff.update"
+  | "handoff.resolve"
+  | "handoff.reopen"
+  | "handoff.token.regenerate"
+  | "sms.alert"
+  | "export.audit"
+  | "admin.users"
+  | "admin.settings";
+
+const MATRIX: Record<Role, Permission[]> = {
+  tech: ["handoff.create", "handoff.update", "handoff.resolve"],
+  lead: [
+    "handoff.create",
+    "handoff.update",
+    "handoff.resolve",
+    "handoff.reopen",
+    "handoff.token.regenerate",
+    "sms.alert",
+  ],
+  supervisor: [
+    "handoff.create",
+    "handoff.update",
+    "handoff.resolve",
+    "handoff.reopen",
+    "handoff.token.regenerate",
+    "sms.alert",
+    "export.audit",
+  ],
+  admin: [
+    "handoff.create",
+    "handoff.update",
+    "handoff.resolve",
+    "handoff.reopen",
+    "handoff.token.regenerate",
+    "sms.alert",
+    "export.audit",
+    "admin.users",
+    "admin.settings",
+  ],
+};
+
+export function isRole(s: unknown): s is Role {
+  return ROLES.includes(s as Role);
+}
+
+/** Unknown / legacy free-text roles ("CS") fall back to tech */
+export function normRole(role?: string | null): Role {
+  const r = (role || "").trim().toLowerCase();
+  return isRole(r) ? r : DEFAULT_ROLE;
+}
+
+export function can(role: string | null | undefined, perm: Permission) {
+  return MATRIX[normRole(role)].includes(perm);
+}
+
+export function roleLabel(role?: string | null) {
+  const r = normRole(role);
+  return r.charAt(0).toUpperCase() + r.slice(1);
+}
@@ -0,0 +1,68 @@
+import type { NextRequest } from "next/server";
+import type { SupabaseClient, User } from "@supabase/supabase-js";
+import { can, normRole, type Permission, type Role } from "@/lib/roles";
+
+/**
+ * Bearer-token auth for route handlers.
+ * Client sends `Authorization: Bearer <supabase access_token>`.
+ */
+
+export type BearerAuth =
+  | { ok: true; user: User; accessToken: string }
+  | { ok: false; status: 401; error: string };
+
+export async function getBearerUser(
+  req: NextRequest,
+  supabaseAnon: SupabaseClient
+): Promise<BearerAuth> {
+  const auth = req.headers.get("authorization") || "";
+  const m = auth.match(/^Bearer\s+(.+)$/i);
+  if (!m) return { ok: false, status: 401, error: "Missing bearer token" };
+
+  const accessToken = m[1];
+  const { data, error } = await supabaseAnon.auth.getUser(accessToken);
+
+  if (error || !data?.user) return { ok: false, status: 401, error: "Invalid session" };
+
+  return { ok: true, user: data.user, accessToken };
+}
+
+/** Audit name for a signed-in user: profiles.display_name, else email */
+export async function getActorDisplay(supabase: SupabaseClient, user: User) {
+  const { data } = await supabase
+    .from("profiles")
+    .select("display_name")
+    .eq("user_id", user.id)
+    .maybeSingle();
+
+  return (data?.display_name || "").trim() || user.email || user.id;
+}
+
+export type PermissionCheck =
+  | { ok: true; role: Role }
+  | { ok: false; status: 403; error: string; role: Role };
+
+/**
+ * Role from profiles (service client), checked against the permission matrix.
+ * Deactivated profiles are refused outright.
+ */
+export async function requirePermission(
+  supabase: SupabaseClient,
+  user: User,
+  perm: Permission
+): Promise<PermissionCheck> {
+  const { data } = await supabase
+    .from("profiles")
+    .select("role, active")
+    .eq("user_id", user.id)
+    .maybeSingle();
+
+  const role = normRole(data?.role);
+  if (data?.active === false) {
+    return { ok: false, status: 403, error: "Account deactivated. Contact an admin.", role };
+  }
+  if (!can(role, perm)) {
+    return { ok: false, status: 403, error: `Your role (${role}) cannot do this (${perm})`, role };
+  }
+  return { ok: true, role };
+}
@@ -0,0 +1,18 @@
+/** Shift codes used by profiles.shift (onboarding + admin). */
+export const SHIFTS = ["AM", "PM", "NOC"] as const;
+
+export type Shift = (typeof SHIFTS)[number];
+
+export function isShift(v: unknown): v is Shift {
+  return typeof v === "string" && (SHIFTS as readonly string[]).includes(v);
+}
+
+/** Local hour each shift starts (same as handoff_shift() in SQL) */
+export const SHIFT_START_HOURS: Record<Shift, number> = { AM: 7, PM: 15, NOC: 23 };
+
+/** Shift a moment falls in, by local time */
+export function shiftAt(d: Date): Shift {
+  const h = d.getHours();
+  if (h >= SHIFT_START_HOURS.NOC || h < SHIFT_START_HOURS.AM) return "NOC";
+  return h < SHIFT_START_HOURS.PM ? "AM" : "PM";
+}
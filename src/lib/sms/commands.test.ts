@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { TOKEN_ALPHABET, generateToken } from "@/lib/handoffs/tokens";
+import { commandTargetStatus, parseSmsCommand } from "./commands";
+
+describe("parseSmsCommand", () => {
+  it.each([
+    ["H:ABC234 ACK", "ACK", ""],
+    ["h:abc234 ack", "ACK", ""],
+    ["H:ABC234 ok", "ACK", ""],
+    ["H:ABC234 Done", "DONE", ""],
+    ["H:ABC234 resolved duplicate of H:XYZ789", "DONE", "duplicate of H:XYZ789"],
+    ["H:ABC234 FOLLOWUP need 2 more trays", "FOLLOWUP", "need 2 more trays"],
+    ["H:ABC234 follow-up need 2", "FOLLOWUP", "need 2"],
+    ["H:ABC234 FU need 2", "FOLLOWUP", "need 2"],
+    ["H:ABC234 status", "STATUS", ""],
+    ["H:ABC234 ?", "STATUS", ""],
+    ["done H:ABC234", "DONE", ""],
+    ["FOLLOWUP H:ABC234 need 2", "FOLLOWUP", "need 2"],
+  ])("%s -> %s", (body, kind, note) => {
+    expect(parseSmsCommand(body)).toEqual({ token: "ABC234", kind, note });
+  });
+
+  it.each([
+    ["  H:ABC234   DONE   not_needed   left   on 4W  ", "DONE", "not_needed left on 4W"],
+    ["\tH:ABC234\nFOLLOWUP\n need  2 ", "FOLLOWUP", "need 2"],
+    ["H:ABC234     ACK    ", "ACK", ""],
+  ])("collapses extra whitespace: %j", (body, kind, note) => {
+    expect(parseSmsCommand(body)).toEqual({ token: "ABC234", kind, note });
+  });
+
+  it.each(["H:ABC234 FOLLOWUP", "H:ABC234 followup   ", "FU H:ABC234"])(
+    "FOLLOWUP without a reason parses with an empty note: %s",
+    (body) => {
+      expect(parseSmsCommand(body)).toEqual({ token: "ABC234", kind: "FOLLOWUP", note: "" });
+    }
+  );
+
+  it.each(["H:ABC234 CANCEL", "H:ABC234 ACKED", "H:ABC234 on my way", "thanks H:ABC234"])(
+    "unknown verbs become a plain note with the whole body: %s",
+    (body) => {
+      expect(parseSmsCommand(body)).toEqual({ token: "ABC234", kind: "NOTE", note: body });
+    }
+  );
+
+  it.each(["", "ACK", "DONE ABC234", "H: ABC234 DONE", "H:ABC DONE", "XH:ABC234 DONE"])(
+    "returns null without a token: %j",
+    (body) => {
+      expect(parseSmsCommand(body)).toBeNull();
+    }
+  );
+
+  it("reads every character of the token alphabet, either case", () => {
+    for (let i = 0; i < TOKEN_ALPHABET.length; i += 6) {
+      const token = TOKEN_ALPHABET.slice(i, i + 6).padEnd(6, "2");
+      expect(parseSmsCommand(`h:${token.toLowerCase()} done`)?.token).toBe(token);
+    }
+  });
+
+  it("round-trips generated tokens, which never use 0/O/1/I", () => {
+    expect(TOKEN_ALPHABET).not.toMatch(/[0O1I]/);
+    for (let i = 0; i < 50; i++) {
+      const token = generateToken();
+      expect(token).not.toMatch(/[0O1I]/);
+      expect(parseSmsCommand(`H:${token} ACK`)).toEqual({ token, kind: "ACK", note: "" });
+    }
+  });
+});
+
+describe("commandTargetStatus", () => {
+  it.each([
+    ["ACK", "open"],
+    ["DONE", "resolved"],
+    ["FOLLOWUP", "needs_followup"],
+    ["STATUS", null],
+    ["NOTE", null],
+  ] as const)("%s -> %s", (kind, status) => {
+    expect(commandTargetStatus(kind)).toBe(status);
+  });
+});
@@ -0,0 +1,76 @@
+import type { HandoffStatus } from "@/lib/handoffs/status";
+
+/**
+ * Inbound SMS command grammar.
+ *
+ *   H:ABC123 ACK                -> acknowledged (needs_followup -> open)
+ *   H:ABC123 DONE [code] [note] -> resolved (code defaults to "fulfilled")
+ *   H:ABC123 FOLLOWUP need 2    -> needs_followup (rest of text is the note)
+ *   H:ABC123 STATUS             -> reply with current state, no write
+ *   H:ABC123 anything else      -> plain note (appended as-is)
+ *
+ * Tokens and verbs are case-insensitive; the verb may follow the token or precede it.
+ */
+
+export type SmsCommandKind = "ACK" | "DONE" | "FOLLOWUP" | "STATUS" | "NOTE";
+
+export type SmsCommand = {
+  token: string;
+  kind: SmsCommandKind;
+  /** Free text after the verb (FOLLOWUP/ACK/DONE) or the whole body (NOTE) */
+  note: string;
+};
+
+const VERBS: Record<string, Exclude<SmsCommandKind, "NOTE">> = {
+  ACK: "ACK",
+  OK: "ACK",
+  DONE: "DONE",
+  RESOLVED: "DONE",
+  FOLLOWUP: "FOLLOWUP",
+  "FOLLOW-UP": "FOLLOWUP",
+  FU: "FOLLOWUP",
+  STATUS: "STATUS",
+  "?": "STATUS",
+};
+
+// Expect token like H:ABC123 somewhere in the reply (any case: phones lowercase it)
+const TOKEN_RE = /\bH:([A-Z0-9]{4,12})\b/i;
+
+export function parseSmsCommand(body: string): SmsCommand | null {
+  const text = body.trim();
+  const m = text.match(TOKEN_RE);
+  if (!m || m.index === undefined) return null;
+
+  const token = m[1].toUpperCase();
+  const before = text.slice(0, m.index).trim();
+  const after = text.slice(m.index + m[0].length).trim();
+
+  // "H:ABC123 DONE ..." (preferred) or "DONE H:ABC123"
+  const [firstAfter = "", ...restAfter] = after.split(/\s+/);
+  const verbAfter = VERBS[firstAfter.toUpperCase()];
+  if (verbAfter) {
+    return { token, kind: verbAfter, note: restAfter.join(" ").trim() };
+  }
+
+  const verbBefore = VERBS[before.toUpperCase()];
+  if (verbBefore) {
+    return { token, kind: verbBefore, note: after };
+  }
+
+  return { token, kind: "NOTE", note: text };
+}
+
+/** Target status per command (null = no status change) */
+export function commandTargetStatus(kind: SmsCommandKind): HandoffStatus | null {
+  if (kind === "ACK") return "open";
+  if (kind === "DONE") return "resolved";
+  if (kind === "FOLLOWUP") return "needs_followup";
+  return null;
+}
+
+export function commandLabel(kind: SmsCommandKind) {
+  if (kind === "ACK") return "ACKNOWLEDGED";
+  if (kind === "DONE") return "RESOLVED";
+  if (kind === "FOLLOWUP") return "NEEDS FOLLOW-UP";
+  return kind;
+}
@@ -0,0 +1,61 @@
+import { createLocalTransport } from "./local";
+import { createTwilioTransport } from "./twilio";
+import { parseRecipients, type SmsTransport } from "./transport";
+
+export * from "./transport";
+
+/**
+ * Env:
+ * - SMS_TRANSPORT: "twilio" | "local" | "none"
+ *   (default: twilio when TWILIO_ACCOUNT_SID is set, else local outside
+ *   production and none in production, so an unconfigured deploy records
+ *   alerts as skipped instead of "sent" to the console)
+ * - TWILIO_ACCOUNT_SID / TWILIO_AUTH_TOKEN / TWILIO_FROM_NUMBER / TWILIO_API_BASE_URL
+ * - SMS_LOCAL_OUTFILE: NDJSON file for the local transport (console if unset)
+ * - SMS_ALERT_RECIPIENTS: comma-separated E.164 numbers for high-priority alerts
+ */
+
+let cached: SmsTransport | null | undefined;
+
+/** Returns null when SMS is disabled (SMS_TRANSPORT=none or unconfigured in production) */
+export function getSmsTransport(): SmsTransport | null {
+  if (cached !== undefined) return cached;
+
+  const kind = (
+    process.env.SMS_TRANSPORT ||
+    (process.env.TWILIO_ACCOUNT_SID
+      ? "twilio"
+      : process.env.NODE_ENV === "production"
+      ? "none"
+      : "local")
+  ).toLowerCase();
+
+  if (kind === "none") {
+    cached = null;
+  } else if (kind === "twilio") {
+    const accountSid = process.env.TWILIO_ACCOUNT_SID;
+    const authToken = process.env.TWILIO_AUTH_TOKEN;
+    const from = process.env.TWILIO_FROM_NUMBER;
+
+    if (!accountSid) throw new Error("Missing TWILIO_ACCOUNT_SID");
+    if (!authToken) throw new Error("Missing TWILIO_AUTH_TOKEN");
+    if (!from) throw new Error("Missing TWILIO_FROM_NUMBER");
+
+    cached = createTwilioTransport({
+      accountSid,
+      authToken,
+      from,
+      baseUrl: process.env.TWILIO_API_BASE_URL,
+    });
+  } else if (kind === "local") {
+    cached = createLocalTransport({ outFile: process.env.SMS_LOCAL_OUTFILE });
+  } else {
+    throw new Error(`Unknown SMS_TRANSPORT: ${kind}`);
+  }
+
+  return cached;
+}
+
+export function getAlertRecipients() {
+  return parseRecipients(process.env.SMS_ALERT_RECIPIENTS);
+}
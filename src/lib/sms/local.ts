@@ -0,0 +1,31 @@
+import { appendFile } from "node:fs/promises";
+import type { SmsMessage, SmsSendResult, SmsTransport } from "./transport";
+
+/**
+ * Local stand-in for dev/tests.
+ * Appends one NDJSON line per message to `outFile`, or logs to console.
+ */
+
+export type LocalTransportOptions = {
+  outFile?: string | null;
+};
+
+export function createLocalTransport(opts: LocalTransportOptions = {}): SmsTransport {
+  let seq = 0;
+
+  return {
+    name: "local",
+    async send(msg: SmsMessage): Promise<SmsSendResult> {
+      const id = `local-${Date.now()}-${++seq}`;
+      const line = JSON.stringify({ id, at: new Date().toISOString(), ...msg });
+
+      if (opts.outFile) {
+        await appendFile(opts.outFile, line + "\n", "utf8");
+      } else {
+        console.log("SMS (local):", line);
+      }
+
+      return { to: msg.to, status: "sent", provider_id: id };
+    },
+  };
+}
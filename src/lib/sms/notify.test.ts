@@ -0,0 +1,89 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { PushPayload } from "@/lib/push/index";
+
+const sent: PushPayload[] = [];
+
+vi.mock("@/lib/push/index", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/push/index")>()),
+  getPushTransport: () => ({
+    name: "test",
+    send: async (sub: { endpoint: string }, payload: PushPayload) => {
+      sent.push(payload);
+      return { endpoint: sub.endpoint, status: "sent" as const };
+    },
+  }),
+}));
+
+vi.mock("@/lib/handoffs/tokens", () => ({ getActiveToken: async () => null }));
+
+const { notifyHandoff } = await import("./notify");
+
+/** Just enough of the query builder for notifyHandoff + pushHandoffAlert */
+function fakeSupabase() {
+  const inserts: { table: string; row: Record<string, unknown> }[] = [];
+  const ok = { data: null, error: null };
+  const supabase = {
+    from: (table: string) => ({
+      select: () =>
+        table === "profiles"
+          ? { eq: async () => ({ data: [], error: null }) }
+          : Promise.resolve({
+              data: [
+                {
+                  id: "s1",
+                  user_id: "u2",
+                  endpoint: "https://fcm.googleapis.com/fcm/send/abc",
+                  p256dh: "p",
+                  auth: "a",
+                  failure_count: 0,
+                },
+              ],
+              error: null,
+            }),
+      update: () => ({ eq: async () => ok }),
+      delete: () => ({ eq: async () => ok }),
+      insert: async (row: Record<string, unknown>) => {
+        inserts.push({ table, row });
+        return ok;
+      },
+    }),
+  };
+  return { supabase: supabase as unknown as SupabaseClient, inserts };
+}
+
+describe("notifyHandoff", () => {
+  beforeEach(() => {
+    sent.length = 0;
+    vi.stubEnv("SMS_TRANSPORT", "none");
+  });
+
+  it("skips non-high handoffs unless someone asked", async () => {
+    const { supabase } = fakeSupabase();
+    expect(await notifyHandoff(supabase, { handoff_id: "h1", priority: "low" })).toEqual({ skipped: true });
+    expect(sent).toHaveLength(0);
+  });
+
+  it("labels a manual alert with the handoff's own priority", async () => {
+    const { supabase, inserts } = fakeSupabase();
+    const res = await notifyHandoff(supabase, {
+      handoff_id: "h1",
+      summary: "Scope tray short",
+      priority: "Low",
+      location_code: "OR2",
+      created_by: "u1",
+      requested_by: "Lead",
+    });
+
+    expect(res.skipped).toBe(false);
+    expect(sent).toHaveLength(1);
+    expect(sent[0].title).toBe("CS HANDOFF (LOW) [OR2]");
+    expect(inserts[0].row.message).toMatch(/^SYSTEM: SMS ALERT \(low, sent by Lead\) \[OR2\]/);
+  });
+
+  it("keeps HIGH for high-priority creates", async () => {
+    const { supabase } = fakeSupabase();
+    await notifyHandoff(supabase, { handoff_id: "h1", priority: "high" });
+    expect(sent[0].title).toBe("CS HANDOFF (HIGH)");
+  });
+});
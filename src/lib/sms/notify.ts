@@ -0,0 +1,109 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { getActiveToken } from "@/lib/handoffs/tokens";
+import {
+  getAlertRecipients,
+  getSmsTransport,
+  sendToAll,
+  summarizeResults,
+  type SmsSendResult,
+} from "./index";
+import { pushHandoffAlert, type PushAlertResult } from "@/lib/push/notify";
+
+/**
+ * High-priority alert pipeline, shared by /api/sms/notify, /api/handoff/create
+ * and the manual "Send SMS Alert" button (/api/handoff/alert, any priority).
+ * - Sends through the configured SMS transport
+ * - Pushes to stored Web Push subscriptions (lib/push), creator excluded
+ * - Append-only "system" update records sent / failed / skipped per recipient
+ */
+
+export type NotifyInput = {
+  handoff_id: string;
+  summary?: string | null;
+  priority: string;
+  location_code?: string | null;
+  created_by?: string | null; // not pushed to (they created / requested it)
+  requested_by?: string | null; // manual alert: sent whatever the priority
+};
+
+export type NotifyResult =
+  | { skipped: true }
+  | {
+      skipped: false;
+      alerted: boolean;
+      counts: { sent: number; failed: number; skipped: number };
+      push: PushAlertResult | { error: string };
+    };
+
+export function shouldNotify(priority?: string | null) {
+  // Only alert for HIGH priority
+  return String(priority || "").toLowerCase() === "high";
+}
+
+export async function notifyHandoff(
+  supabase: SupabaseClient,
+  input: NotifyInput
+): Promise<NotifyResult> {
+  const { handoff_id, summary, priority, location_code, created_by, requested_by } = input;
+
+  if (!requested_by && !shouldNotify(priority)) return { skipped: true };
+  const level = String(priority || "").toLowerCase() || "unknown";
+
+  // Reply code so staff can ACK/DONE by text (best-effort)
+  const token = await getActiveToken(supabase, handoff_id).catch(() => null);
+
+  const text = `CS HANDOFF (${level.toUpperCase()})${
+    location_code ? ` [${location_code}]` : ""
+  }: ${String(summary || "").slice(0, 120)}${
+    token ? `\nReply H:${token.token} ACK / DONE / FOLLOWUP <note>` : ""
+  }`;
+
+  // Outbound send (never throws; every recipient gets a result)
+  const transport = getSmsTransport();
+  const recipients = getAlertRecipients();
+
+  const results: SmsSendResult[] = transport
+    ? await sendToAll(transport, recipients, text)
+    : recipients.map((to) => ({ to, status: "skipped" as const, error: "SMS disabled" }));
+
+  const sent = results.filter((r) => r.status === "sent").length;
+  const failed = results.filter((r) => r.status === "failed").length;
+
+  let push: PushAlertResult | { error: string };
+  try {
+    push = await pushHandoffAlert(supabase, {
+      handoff_id,
+      summary,
+      priority: level,
+      location_code,
+      exclude_user_id: created_by,
+    });
+  } catch (e) {
+    console.error("PUSH ALERT ERROR:", e);
+    push = { error: e instanceof Error ? e.message : "Push failed" };
+  }
+
+  // Append-only audit update (no PHI)
+  const msg = `SYSTEM: SMS ALERT (${level}${requested_by ? `, sent by ${requested_by}` : ""})${
+    location_code ? ` [${location_code}]` : ""
+  } via ${transport?.name ?? "none"}: ${summarizeResults(results)}; PUSH ${
+    "error" in push ? `failed (${push.error})` : `via ${push.transport}: ${push.summary}`
+  }`;
+
+  const { error } = await supabase.from("handoff_updates").insert({
+    handoff_id,
+    author_user_id: null,
+    author_display_name_snapshot: "system",
+    source: "system",
+    message: msg,
+  });
+
+  if (error) throw error;
+
+  return {
+    skipped: false,
+    alerted: sent > 0,
+    counts: { sent, failed, skipped: results.length - sent - failed },
+    push,
+  };
+}
@@ -0,0 +1,20 @@
+import { createHmac } from "node:crypto";
+import { describe, expect, it } from "vitest";
+import { computeTwilioSignature } from "./signature";
+
+const url = "https://handoff.example.org/api/sms/inbound";
+const hmac = (data: string) => createHmac("sha1", "token").update(data, "utf8").digest("base64");
+
+describe("computeTwilioSignature", () => {
+  it("appends sorted keys with their values to the URL", () => {
+    expect(computeTwilioSignature("token", url, { To: "+1555", Body: "ACK", From: "+1444" })).toBe(
+      hmac(`${url}BodyACKFrom+1444To+1555`)
+    );
+  });
+
+  it("signs every value of a repeated key, in order", () => {
+    const sig = computeTwilioSignature("token", url, { Body: "ACK", MediaUrl: ["b", "a"] });
+    expect(sig).toBe(hmac(`${url}BodyACKMediaUrlbMediaUrla`));
+    expect(sig).not.toBe(computeTwilioSignature("token", url, { Body: "ACK", MediaUrl: "a" }));
+  });
+});
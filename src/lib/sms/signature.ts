@@ -0,0 +1,116 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import type { NextRequest } from "next/server";
+
+/**
+ * Shared webhook verification for /api/sms/*.
+ * - Form posts (Twilio): X-Twilio-Signature = base64(HMAC-SHA1(TWILIO_AUTH_TOKEN, url + sorted params)),
+ *   a repeated key contributing key + value once per value, in body order
+ * - JSON posts (internal): x-webhook-secret must equal SMS_WEBHOOK_SECRET
+ * No secret configured => refuse. Never fail open.
+ */
+
+export type WebhookAuthResult =
+  | { ok: true }
+  | { ok: false; status: number; error: string };
+
+function safeEqual(a: string, b: string) {
+  const ab = Buffer.from(a, "utf8");
+  const bb = Buffer.from(b, "utf8");
+  if (ab.length !== bb.length) return false;
+  return timingSafeEqual(ab, bb);
+}
+
+/** Signed form fields; every value of a repeated key, in body order */
+export type SignedParams = Record<string, string | string[]>;
+
+export function computeTwilioSignature(authToken: string, url: string, params: SignedParams) {
+  const data = Object.keys(params)
+    .sort()
+    .reduce((acc, k) => [params[k]].flat().reduce((a, v) => a + k + v, acc), url);
+
+  return createHmac("sha1", authToken).update(data, "utf8").digest("base64");
+}
+
+/**
+ * The URL Twilio signed (public URL, not the internal one behind a proxy).
+ * SMS_WEBHOOK_BASE_URL overrides origin, e.g. https://handoff.example.org
+ */
+export function publicRequestUrl(req: NextRequest) {
+  const u = new URL(req.url);
+  const base = process.env.SMS_WEBHOOK_BASE_URL;
+
+  if (base) {
+    return base.replace(/\/+$/, "") + u.pathname + u.search;
+  }
+
+  const proto = req.headers.get("x-forwarded-proto");
+  const host = req.headers.get("x-forwarded-host");
+  if (proto) u.protocol = `${proto.split(",")[0].trim()}:`;
+  if (host) u.host = host.split(",")[0].trim();
+  return u.toString();
+}
+
+export function verifyTwilioRequest(req: NextRequest, params: SignedParams): WebhookAuthResult {
+  const authToken = process.env.TWILIO_AUTH_TOKEN;
+  if (!authToken) {
+    return { ok: false, status: 503, error: "Webhook verification not configured" };
+  }
+
+  const got = req.headers.get("x-twilio-signature");
+  if (!got) return { ok: false, status: 401, error: "Missing signature" };
+
+  const expected = computeTwilioSignature(authToken, publicRequestUrl(req), params);
+  if (!safeEqual(got, expected)) {
+    return { ok: false, status: 401, error: "Invalid signature" };
+  }
+
+  return { ok: true };
+}
+
+export function verifySharedSecret(req: NextRequest): WebhookAuthResult {
+  const secret = process.env.SMS_WEBHOOK_SECRET;
+  if (!secret) {
+    return { ok: false, status: 503, error: "Webhook secret not configured" };
+  }
+
+  const got = req.headers.get("x-webhook-secret");
+  if (!got || !safeEqual(got, secret)) {
+    return { ok: false, status: 401, error: "Unauthorized" };
+  }
+
+  return { ok: true };
+}
+
+export type VerifiedWebhook =
+  | { ok: true; kind: "form" | "json"; params: Record<string, string>; json: unknown }
+  | { ok: false; status: number; error: string };
+
+/**
+ * Read the body once and verify it.
+ * Form-encoded => Twilio signature; anything else => JSON + shared secret.
+ * params keeps the first value of a repeated form key; all are signed.
+ */
+export async function readVerifiedWebhook(req: NextRequest): Promise<VerifiedWebhook> {
+  const contentType = req.headers.get("content-type") || "";
+  const raw = await req.text();
+
+  if (contentType.includes("application/x-www-form-urlencoded")) {
+    const form = new URLSearchParams(raw);
+    const keys = [...new Set(form.keys())];
+    const auth = verifyTwilioRequest(req, Object.fromEntries(keys.map((k) => [k, form.getAll(k)])));
+    const params = Object.fromEntries(keys.map((k) => [k, form.get(k) ?? ""]));
+    if (!auth.ok) return auth;
+    return { ok: true, kind: "form", params, json: null };
+  }
+
+  const auth = verifySharedSecret(req);
+  if (!auth.ok) return auth;
+
+  let json: unknown;
+  try {
+    json = raw ? JSON.parse(raw) : {};
+  } catch {
+    return { ok: false, status: 400, error: "Invalid JSON" };
+  }
+  return { ok: true, kind: "json", params: {}, json };
+}
@@ -0,0 +1,70 @@
+/**
+ * Provider-agnostic SMS transport.
+ * Routes talk to `SmsTransport` only; the concrete adapter (Twilio, local)
+ * is picked from env in `getSmsTransport()`.
+ */
+
+export type SmsMessage = {
+  to: string;
+  body: string;
+};
+
+export type SmsSendStatus = "sent" | "failed" | "skipped";
+
+export type SmsSendResult = {
+  to: string;
+  status: SmsSendStatus;
+  provider_id?: string | null;
+  error?: string | null;
+};
+
+export interface SmsTransport {
+  readonly name: string;
+  send(msg: SmsMessage): Promise<SmsSendResult>;
+}
+
+/** Mask a phone number for audit rows: +15551234567 -> ***4567 */
+export function maskPhone(phone: string) {
+  const digits = phone.replace(/\D/g, "");
+  return digits.length >= 4 ? `***${digits.slice(-4)}` : "***";
+}
+
+/** Parse a comma/space separated list of E.164 numbers */
+export function parseRecipients(raw?: string | null): string[] {
+  return (raw || "")
+    .split(/[\s,;]+/)
+    .map((s) => s.trim())
+    .filter((s) => /^\+[1-9]\d{6,14}$/.test(s));
+}
+
+/** Send to many recipients; never throws, every recipient gets a result */
+export async function sendToAll(
+  transport: SmsTransport,
+  recipients: string[],
+  body: string
+): Promise<SmsSendResult[]> {
+  const results: SmsSendResult[] = [];
+  for (const to of recipients) {
+    try {
+      results.push(await transport.send({ to, body }));
+    } catch (e) {
+      results.push({
+        to,
+        status: "failed",
+        error: e instanceof Error ? e.message : "Send failed",
+      });
+    }
+  }
+  return results;
+}
+
+/** One-line audit summary, e.g. "sent ***4567; failed ***9876 (timeout)" */
+export function summarizeResults(results: SmsSendResult[]) {
+  if (results.length === 0) return "skipped (no recipients)";
+  return results
+    .map((r) => {
+      const base = `${r.status} ${maskPhone(r.to)}`;
+      return r.status === "sent" || !r.error ? base : `${base} (${r.error})`;
+    })
+    .join("; ");
+}
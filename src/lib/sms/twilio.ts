@@ -0,0 +1,67 @@
+import type { SmsMessage, SmsSendResult, SmsTransport } from "./transport";
+
+/**
+ * Twilio-compatible REST adapter.
+ * POST {baseUrl}/2010-04-01/Accounts/{sid}/Messages.json (form-encoded, basic auth).
+ * `baseUrl` can point at any Twilio-compatible gateway.
+ */
+
+export type TwilioTransportOptions = {
+  accountSid: string;
+  authToken: string;
+  from: string;
+  baseUrl?: string;
+  timeoutMs?: number;
+};
+
+export function createTwilioTransport(opts: TwilioTransportOptions): SmsTransport {
+  const baseUrl = (opts.baseUrl || "https://api.twilio.com").replace(/\/+$/, "");
+  const url = `${baseUrl}/2010-04-01/Accounts/${encodeURIComponent(
+    opts.accountSid
+  )}/Messages.json`;
+  const auth = Buffer.from(`${opts.accountSid}:${opts.authToken}`).toString("base64");
+
+  return {
+    name: "twilio",
+    async send(msg: SmsMessage): Promise<SmsSendResult> {
+      const body = new URLSearchParams({
+        To: msg.to,
+        From: opts.from,
+        Body: msg.body,
+      });
+
+      try {
+        const res = await fetch(url, {
+          method: "POST",
+          headers: {
+            Authorization: `Basic ${auth}`,
+            "Content-Type": "application/x-www-form-urlencoded",
+          },
+          body: body.toString(),
+          signal: AbortSignal.timeout(opts.timeoutMs ?? 10_000),
+        });
+
+        const j = (await res.json().catch(() => ({}))) as {
+          sid?: string;
+          message?: string;
+        };
+
+        if (!res.ok) {
+          return {
+            to: msg.to,
+            status: "failed",
+            error: j.message || `HTTP ${res.status}`,
+          };
+        }
+
+        return { to: msg.to, status: "sent", provider_id: j.sid ?? null };
+      } catch (e) {
+        return {
+          to: msg.to,
+          status: "failed",
+          error: e instanceof Error ? e.message : "Network error",
+        };
+      }
+    },
+  };
+}
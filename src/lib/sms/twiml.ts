@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+
+/**
+ * TwiML replies for Twilio form posts.
+ * Twilio only delivers <Message> bodies on 2xx, so errors go out as 200 + text.
+ */
+
+function escapeXml(s: string) {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+export function twiml(message?: string | null) {
+  const body = message ? `<Message>${escapeXml(message)}</Message>` : "";
+  return `<?xml version="1.0" encoding="UTF-8"?><Response>${body}</Response>`;
+}
+
+export function twimlResponse(message?: string | null) {
+  return new NextResponse(twiml(message), {
+    status: 200,
+    headers: { "Content-Type": "text/xml; charset=utf-8" },
+  });
+}
@@ -0,0 +1,39 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createLocalStore } from "./local";
+import { createSupabaseStore } from "./supabase";
+import type { AttachmentStore } from "./store";
+
+export * from "./store";
+
+/**
+ * Env:
+ * - STORAGE_BACKEND: "supabase" | "local"
+ *   (default: supabase in production, local otherwise)
+ * - STORAGE_BUCKET: Supabase Storage bucket (default "handoff-attachments")
+ * - STORAGE_LOCAL_DIR: root for the local backend (default ".data/attachments")
+ */
+
+let cached: AttachmentStore | undefined;
+
+/** `service` is only used by the Supabase backend and must be service-role */
+export function getAttachmentStore(service: SupabaseClient): AttachmentStore {
+  if (cached) return cached;
+
+  const kind = (
+    process.env.STORAGE_BACKEND ||
+    (process.env.NODE_ENV === "production" ? "supabase" : "local")
+  ).toLowerCase();
+
+  if (kind === "supabase") {
+    cached = createSupabaseStore({
+      client: service,
+      bucket: process.env.STORAGE_BUCKET || "handoff-attachments",
+    });
+  } else if (kind === "local") {
+    cached = createLocalStore({ rootDir: process.env.STORAGE_LOCAL_DIR || ".data/attachments" });
+  } else {
+    throw new Error(`Unknown STORAGE_BACKEND: ${kind}`);
+  }
+
+  return cached;
+}
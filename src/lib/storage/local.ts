@@ -0,0 +1,44 @@
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { assertStorageKey, type AttachmentStore, type StoredObject } from "./store";
+
+/**
+ * Local stand-in for dev/tests.
+ * One file per key under `rootDir`; the content type comes from the DB row,
+ * so none is stored alongside.
+ */
+
+export type LocalStoreOptions = {
+  rootDir: string;
+};
+
+export function createLocalStore(opts: LocalStoreOptions): AttachmentStore {
+  const root = path.resolve(opts.rootDir);
+
+  function fileFor(key: string) {
+    assertStorageKey(key);
+    const file = path.resolve(root, key);
+    if (!file.startsWith(root + path.sep)) throw new Error(`Invalid storage key: ${key}`);
+    return file;
+  }
+
+  return {
+    name: "local",
+    async put(key: string, bytes: Uint8Array): Promise<void> {
+      const file = fileFor(key);
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(file, bytes, { flag: "wx" });
+    },
+    async get(key: string): Promise<StoredObject | null> {
+      try {
+        return { bytes: await readFile(fileFor(key)), contentType: null };
+      } catch (e) {
+        if ((e as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw e;
+      }
+    },
+    async remove(keys: string[]): Promise<void> {
+      await Promise.all(keys.map((k) => rm(fileFor(k), { force: true })));
+    },
+  };
+}
@@ -0,0 +1,27 @@
+/**
+ * Provider-agnostic blob store for attachments.
+ * Routes talk to `AttachmentStore` only; the concrete backend (Supabase
+ * Storage, local filesystem) is picked from env in `getAttachmentStore()`.
+ */
+
+export type StoredObject = {
+  bytes: Uint8Array;
+  contentType: string | null;
+};
+
+export interface AttachmentStore {
+  readonly name: "supabase" | "local";
+  put(key: string, bytes: Uint8Array, contentType: string): Promise<void>;
+  /** null when the key doesn't exist */
+  get(key: string): Promise<StoredObject | null>;
+  /** Best-effort cleanup; missing keys are not an error */
+  remove(keys: string[]): Promise<void>;
+}
+
+const KEY_RE = /^[A-Za-z0-9][A-Za-z0-9._-]*(\/[A-Za-z0-9][A-Za-z0-9._-]*)*$/;
+
+/** Keys are server-generated ("handoffs/<uuid>/<uuid>.jpg"); refuse anything else */
+export function assertStorageKey(key: string) {
+  if (!KEY_RE.test(key) || key.includes("..") || key.length > 200)
+    throw new Error(`Invalid storage key: ${key}`);
+}
@@ -0,0 +1,42 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { assertStorageKey, type AttachmentStore, type StoredObject } from "./store";
+
+/**
+ * Supabase Storage adapter. Needs a service-role client: the bucket is
+ * private and every read goes through an authorized API route.
+ */
+
+export type SupabaseStoreOptions = {
+  client: SupabaseClient;
+  bucket: string;
+};
+
+export function createSupabaseStore(opts: SupabaseStoreOptions): AttachmentStore {
+  const bucket = () => opts.client.storage.from(opts.bucket);
+
+  return {
+    name: "supabase",
+    async put(key: string, bytes: Uint8Array, contentType: string): Promise<void> {
+      assertStorageKey(key);
+      const { error } = await bucket().upload(key, bytes, { contentType, upsert: false });
+      if (error) throw new Error(`Storage upload failed: ${error.message}`);
+    },
+    async get(key: string): Promise<StoredObject | null> {
+      assertStorageKey(key);
+      const { data, error } = await bucket().download(key);
+      if (error) {
+        // storage-js reports missing objects as a 400/404 StorageError
+        const status = (error as { status?: number; statusCode?: string }).status;
+        if (status === 404 || status === 400 || /not found/i.test(error.message)) return null;
+        throw new Error(`Storage download failed: ${error.message}`);
+      }
+      return { bytes: new Uint8Array(await data.arrayBuffer()), contentType: data.type || null };
+    },
+    async remove(keys: string[]): Promise<void> {
+      if (keys.length === 0) return;
+      keys.forEach(assertStorageKey);
+      const { error } = await bucket().remove(keys);
+      if (error) console.error("Storage remove failed:", error.message);
+    },
+  };
+}
@@ -0,0 +1,47 @@
+-- SMS reply tokens: one active token per handoff, retired (never deleted).
+
+create table if not exists public.handoff_tokens (
+  token text primary key,
+  handoff_id uuid not null references public.handoffs (id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+alter table public.handoff_tokens
+  add column if not exists expires_at timestamptz,
+  add column if not exists retired_at timestamptz;
+
+alter table public.handoff_tokens
+  drop constraint if exists handoff_tokens_token_format;
+alter table public.handoff_tokens
+  add constraint handoff_tokens_token_format
+  check (token ~ '^[A-HJ-NP-Z2-9]{4,12}$') not valid;
+
+create index if not exists handoff_tokens_handoff_active_idx
+  on public.handoff_tokens (handoff_id)
+  where retired_at is null;
+
+-- Server (service role) owns minting; clients never read or write tokens directly.
+alter table public.handoff_tokens enable row level security;
+
+-- Retire tokens as soon as a handoff is resolved, whatever path resolved it.
+create or replace function public.retire_handoff_tokens_on_resolve()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.status = 'resolved' and old.status is distinct from new.status then
+    update public.handoff_tokens
+       set retired_at = now()
+     where handoff_id = new.id
+       and retired_at is null;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists handoffs_retire_tokens on public.handoffs;
+create trigger handoffs_retire_tokens
+  after update of status on public.handoffs
+  for each row execute function public.retire_handoff_tokens_on_resolve();
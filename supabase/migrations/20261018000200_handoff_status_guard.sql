@@ -0,0 +1,22 @@
+-- Status changes go through the server state machine (lib/handoffs/status.ts).
+-- Clients may still insert handoffs, but only the service role may change status.
+
+create or replace function public.guard_handoff_status_change()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.status is distinct from old.status
+     and coalesce(auth.role(), '') <> 'service_role' then
+    raise exception 'handoff status must be changed through the server (% -> %)',
+      old.status, new.status
+      using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists handoffs_guard_status on public.handoffs;
+create trigger handoffs_guard_status
+  before update of status on public.handoffs
+  for each row execute function public.guard_handoff_status_change();
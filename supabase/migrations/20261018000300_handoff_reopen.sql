@@ -0,0 +1,4 @@
+-- Reopen support: last reopen time, shown on the feed and used for sorting.
+
+alter table public.handoffs
+  add column if not exists reopened_at timestamptz;
@@ -0,0 +1,31 @@
+-- Resolution reason codes: how a handoff was closed, not just that it was.
+
+do $$
+begin
+  if not exists (select 1 from pg_type where typname = 'cs_resolution_code') then
+    create type public.cs_resolution_code as enum (
+      'fulfilled',
+      'not_needed',
+      'duplicate',
+      'escalated_other_dept',
+      'unable_to_fulfill',
+      'other'
+    );
+  end if;
+end;
+$$;
+
+alter table public.handoffs
+  add column if not exists resolution_code public.cs_resolution_code,
+  add column if not exists resolution_note text;
+
+-- Same pattern as get_cs_category_enum / get_cs_priority_enum
+create or replace function public.get_cs_resolution_code_enum()
+returns text[]
+language sql
+stable
+as $$
+  select array_agg(e::text order by e) from unnest(enum_range(null::public.cs_resolution_code)) e;
+$$;
+
+grant execute on function public.get_cs_resolution_code_enum() to authenticated, service_role;
@@ -0,0 +1,17 @@
+-- Blocked/redacted PHI attempts. Stores what kind of PHI was found, never the text.
+
+create table if not exists public.phi_blocks (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  route text not null,
+  source text not null,
+  handoff_id uuid references public.handoffs (id) on delete set null,
+  user_id uuid,
+  kinds text[] not null default '{}',
+  action text not null check (action in ('rejected', 'redacted'))
+);
+
+create index if not exists phi_blocks_created_at_idx on public.phi_blocks (created_at desc);
+
+-- Service role only.
+alter table public.phi_blocks enable row level security;
@@ -0,0 +1,146 @@
+-- Tamper-evident hash chain over handoff_updates (per handoff).
+--
+-- content_hash = sha256(canonical(prev_hash, handoff_id, seq, created_at, source,
+--                                 author_user_id, author_display_name_snapshot, message))
+-- canonical = each field as "<utf8 byte length>:<value>" joined by "|" (null = "").
+-- Must stay byte-for-byte in sync with src/lib/handoffs/chain.ts.
+--
+-- handoffs.audit_head_hash / audit_seq anchor the tail so deleting the latest
+-- rows is detectable too. Updates/deletes on handoff_updates are refused.
+
+alter table public.handoff_updates
+  add column if not exists seq bigint,
+  add column if not exists prev_hash text,
+  add column if not exists content_hash text;
+
+alter table public.handoffs
+  add column if not exists audit_seq bigint not null default 0,
+  add column if not exists audit_head_hash text;
+
+create or replace function public.handoff_update_canonical(
+  p_prev_hash text,
+  p_handoff_id uuid,
+  p_seq bigint,
+  p_created_at timestamptz,
+  p_source text,
+  p_author_user_id uuid,
+  p_author text,
+  p_message text
+) returns text
+language sql
+immutable
+as $$
+  select string_agg(octet_length(v)::text || ':' || v, '|' order by i)
+  from unnest(array[
+    coalesce(p_prev_hash, ''),
+    coalesce(p_handoff_id::text, ''),
+    coalesce(p_seq::text, ''),
+    coalesce(to_char(p_created_at at time zone 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"'), ''),
+    coalesce(p_source, ''),
+    coalesce(p_author_user_id::text, ''),
+    coalesce(p_author, ''),
+    coalesce(p_message, '')
+  ]) with ordinality as t(v, i);
+$$;
+
+create or replace function public.handoff_updates_chain()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_prev text;
+  v_seq bigint;
+begin
+  -- Serialize appends per handoff so seq/prev_hash can't fork
+  perform pg_advisory_xact_lock(hashtext(new.handoff_id::text));
+
+  select audit_head_hash, audit_seq
+    into v_prev, v_seq
+    from handoffs
+   where id = new.handoff_id
+   for update;
+
+  new.created_at := coalesce(new.created_at, now());
+  new.seq := coalesce(v_seq, 0) + 1;
+  new.prev_hash := coalesce(v_prev, repeat('0', 64));
+  new.content_hash := encode(sha256(convert_to(handoff_update_canonical(
+    new.prev_hash, new.handoff_id, new.seq, new.created_at, new.source::text,
+    new.author_user_id, new.author_display_name_snapshot, new.message
+  ), 'UTF8')), 'hex');
+
+  update handoffs
+     set audit_seq = new.seq,
+         audit_head_hash = new.content_hash
+   where id = new.handoff_id;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists handoff_updates_chain on public.handoff_updates;
+create trigger handoff_updates_chain
+  before insert on public.handoff_updates
+  for each row execute function public.handoff_updates_chain();
+
+create or replace function public.handoff_updates_append_only()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'handoff_updates is append-only' using errcode = '42501';
+end;
+$$;
+
+drop trigger if exists handoff_updates_append_only on public.handoff_updates;
+create trigger handoff_updates_append_only
+  before update or delete on public.handoff_updates
+  for each row execute function public.handoff_updates_append_only();
+
+create unique index if not exists handoff_updates_handoff_seq_idx
+  on public.handoff_updates (handoff_id, seq);
+
+-- Backfill existing rows in (created_at, id) order.
+do $$
+declare
+  r record;
+  h record;
+  v_prev text;
+  v_seq bigint;
+  v_hash text;
+begin
+  alter table public.handoff_updates disable trigger handoff_updates_append_only;
+
+  for h in select id from public.handoffs where audit_seq = 0 loop
+    v_prev := repeat('0', 64);
+    v_seq := 0;
+
+    for r in
+      select * from public.handoff_updates
+       where handoff_id = h.id and seq is null
+       order by created_at, id
+    loop
+      v_seq := v_seq + 1;
+      v_hash := encode(sha256(convert_to(public.handoff_update_canonical(
+        v_prev, r.handoff_id, v_seq, r.created_at, r.source::text,
+        r.author_user_id, r.author_display_name_snapshot, r.message
+      ), 'UTF8')), 'hex');
+
+      update public.handoff_updates
+         set seq = v_seq, prev_hash = v_prev, content_hash = v_hash
+       where id = r.id;
+
+      v_prev := v_hash;
+    end loop;
+
+    if v_seq > 0 then
+      update public.handoffs
+         set audit_seq = v_seq, audit_head_hash = v_prev
+       where id = h.id;
+    end if;
+  end loop;
+
+  alter table public.handoff_updates enable trigger handoff_updates_append_only;
+end;
+$$;
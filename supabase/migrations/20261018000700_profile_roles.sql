@@ -0,0 +1,74 @@
+-- Role model: tech | lead | supervisor | admin (see src/lib/roles.ts).
+-- Users can't set their own role; only the service role (admin API) can.
+
+update public.profiles
+   set role = 'tech'
+ where role is null
+    or lower(trim(role)) not in ('tech', 'lead', 'supervisor', 'admin');
+
+update public.profiles set role = lower(trim(role));
+
+alter table public.profiles
+  alter column role set default 'tech',
+  alter column role set not null;
+
+alter table public.profiles
+  drop constraint if exists profiles_role_check;
+alter table public.profiles
+  add constraint profiles_role_check
+  check (role in ('tech', 'lead', 'supervisor', 'admin'));
+
+create or replace function public.guard_profile_role()
+returns trigger
+language plpgsql
+as $$
+begin
+  if coalesce(auth.role(), '') = 'service_role' then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    new.role := 'tech';
+  elsif new.role is distinct from old.role then
+    raise exception 'role can only be changed by an admin' using errcode = '42501';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists profiles_guard_role on public.profiles;
+create trigger profiles_guard_role
+  before insert or update on public.profiles
+  for each row execute function public.guard_profile_role();
+
+-- Admin actions audit (role changes now; admin console later).
+create table if not exists public.admin_audit (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  actor_user_id uuid not null,
+  actor_display_name_snapshot text,
+  action text not null,
+  target_type text not null,
+  target_id text,
+  before jsonb,
+  after jsonb
+);
+
+create index if not exists admin_audit_created_at_idx on public.admin_audit (created_at desc);
+
+alter table public.admin_audit enable row level security;
+
+create or replace function public.admin_audit_append_only()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'admin_audit is append-only' using errcode = '42501';
+end;
+$$;
+
+drop trigger if exists admin_audit_append_only on public.admin_audit;
+create trigger admin_audit_append_only
+  before update or delete on public.admin_audit
+  for each row execute function public.admin_audit_append_only();
@@ -0,0 +1,108 @@
+-- Admin-managed categories / priorities (+ display colors) and user deactivation.
+-- Replaces the cs_category / cs_priority Postgres enums on handoffs with text
+-- columns backed by lookup tables, so values change without a migration.
+-- get_cs_category_enum / get_cs_priority_enum keep their names and shape.
+
+create table if not exists public.cs_categories (
+  value text primary key check (value ~ '^[a-z][a-z0-9_]{1,39}$'),
+  label text not null,
+  color text not null default '#9aa0a6' check (color ~ '^#[0-9a-fA-F]{6}$'),
+  sort_order int not null default 100,
+  active boolean not null default true,
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.cs_priorities (
+  value text primary key check (value ~ '^[a-z][a-z0-9_]{1,39}$'),
+  label text not null,
+  color text not null default '#50ffa0' check (color ~ '^#[0-9a-fA-F]{6}$'),
+  sort_order int not null default 100,
+  active boolean not null default true,
+  updated_at timestamptz not null default now()
+);
+
+-- Seed from the existing enums
+insert into public.cs_categories (value, label, sort_order)
+select e::text, initcap(replace(e::text, '_', ' ')), (row_number() over ()) * 10
+  from unnest(enum_range(null::public.cs_category)) e
+on conflict (value) do nothing;
+
+-- Every enum value must exist before the FK below; the original palette for
+-- the ones it knows, the table default for anything else
+insert into public.cs_priorities (value, label, color, sort_order)
+select e::text,
+       initcap(replace(e::text, '_', ' ')),
+       case e::text
+         when 'low' then '#50ffa0'
+         when 'medium' then '#ffbe3c'
+         when 'high' then '#ff5050'
+         else '#50ffa0'
+       end,
+       (row_number() over ()) * 10
+  from unnest(enum_range(null::public.cs_priority)) e
+on conflict (value) do nothing;
+
+alter table public.handoffs
+  alter column category type text using category::text,
+  alter column priority type text using priority::text;
+
+alter table public.handoffs
+  drop constraint if exists handoffs_category_fkey,
+  drop constraint if exists handoffs_priority_fkey;
+alter table public.handoffs
+  add constraint handoffs_category_fkey foreign key (category) references public.cs_categories (value) on update cascade,
+  add constraint handoffs_priority_fkey foreign key (priority) references public.cs_priorities (value) on update cascade;
+
+create or replace function public.get_cs_category_enum()
+returns text[]
+language sql
+stable
+as $$
+  select coalesce(array_agg(value order by sort_order, value), '{}')
+    from public.cs_categories
+   where active;
+$$;
+
+create or replace function public.get_cs_priority_enum()
+returns text[]
+language sql
+stable
+as $$
+  select coalesce(array_agg(value order by sort_order, value), '{}')
+    from public.cs_priorities
+   where active;
+$$;
+
+-- Everyone signed in can read options (colors on feed); only service role writes.
+alter table public.cs_categories enable row level security;
+alter table public.cs_priorities enable row level security;
+
+drop policy if exists cs_categories_read on public.cs_categories;
+create policy cs_categories_read on public.cs_categories for select to authenticated using (true);
+drop policy if exists cs_priorities_read on public.cs_priorities;
+create policy cs_priorities_read on public.cs_priorities for select to authenticated using (true);
+
+-- Deactivated users keep their history but can't act.
+alter table public.profiles
+  add column if not exists active boolean not null default true;
+
+-- Role and active flag are admin-only (extends 20261018000700_profile_roles).
+create or replace function public.guard_profile_role()
+returns trigger
+language plpgsql
+as $$
+begin
+  if coalesce(auth.role(), '') = 'service_role' then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    new.role := 'tech';
+    new.active := true;
+  elsif new.role is distinct from old.role or new.active is distinct from old.active then
+    raise exception 'role and active can only be changed by an admin' using errcode = '42501';
+  end if;
+
+  return new;
+end;
+$$;
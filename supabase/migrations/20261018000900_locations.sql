@@ -0,0 +1,45 @@
+-- Managed location registry. handoffs.location_code was free text ("ICU",
+-- "icu", "Icu 3"); it now references locations.code.
+
+create table if not exists public.locations (
+  code text primary key check (code ~ '^[A-Z0-9][A-Z0-9_-]{0,15}$'),
+  name text not null,
+  building text,
+  floor text,
+  active boolean not null default true,
+  sort_order int not null default 100,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- Normalize existing codes: uppercase, alphanumerics only ("Icu 3" -> "ICU3")
+update public.handoffs
+   set location_code = coalesce(
+         nullif(left(upper(regexp_replace(trim(location_code), '[^A-Za-z0-9_-]+', '', 'g')), 16), ''),
+         'CS'
+       )
+ where location_code is not null;
+
+insert into public.locations (code, name, sort_order)
+values ('CS', 'Central Supply', 10)
+on conflict (code) do nothing;
+
+-- Keep every code already in use so the foreign key holds; admins rename later.
+insert into public.locations (code, name)
+select distinct location_code, location_code
+  from public.handoffs
+ where location_code is not null
+on conflict (code) do nothing;
+
+alter table public.handoffs
+  drop constraint if exists handoffs_location_code_fkey;
+alter table public.handoffs
+  add constraint handoffs_location_code_fkey
+  foreign key (location_code) references public.locations (code) on update cascade;
+
+create index if not exists handoffs_location_code_idx on public.handoffs (location_code);
+
+alter table public.locations enable row level security;
+
+drop policy if exists locations_read on public.locations;
+create policy locations_read on public.locations for select to authenticated using (true);
@@ -0,0 +1,29 @@
+-- Admin-defined handoff templates per category. Templates prefill /create;
+-- is_preset ones also appear as one-tap quick-create buttons.
+
+create table if not exists public.handoff_templates (
+  id uuid primary key default gen_random_uuid(),
+  name text not null check (char_length(name) between 2 and 40),
+  category text not null references public.cs_categories (value) on update cascade,
+  summary text not null check (char_length(summary) between 5 and 500),
+  priority text references public.cs_priorities (value) on update cascade,
+  location_code text references public.locations (code) on update cascade,
+  is_preset boolean not null default false,
+  sort_order int not null default 100,
+  active boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists handoff_templates_category_idx
+  on public.handoff_templates (category, sort_order);
+
+-- Provenance on the handoff (nullable; set when created from a template)
+alter table public.handoffs
+  add column if not exists template_id uuid references public.handoff_templates (id) on delete set null;
+
+alter table public.handoff_templates enable row level security;
+
+drop policy if exists handoff_templates_read on public.handoff_templates;
+create policy handoff_templates_read on public.handoff_templates
+  for select to authenticated using (true);
@@ -0,0 +1,22 @@
+-- Category-specific structured fields.
+-- cs_categories.fields: schema (array of {key, label, type, required, ...});
+-- handoffs.details: typed values keyed by field key (see src/lib/handoffs/fields.ts).
+
+alter table public.cs_categories
+  add column if not exists fields jsonb not null default '[]'::jsonb;
+
+alter table public.cs_categories
+  drop constraint if exists cs_categories_fields_array;
+alter table public.cs_categories
+  add constraint cs_categories_fields_array check (jsonb_typeof(fields) = 'array');
+
+alter table public.handoffs
+  add column if not exists details jsonb not null default '{}'::jsonb;
+
+alter table public.handoffs
+  drop constraint if exists handoffs_details_object;
+alter table public.handoffs
+  add constraint handoffs_details_object check (jsonb_typeof(details) = 'object');
+
+-- Lets the feed filter on field values later (details @> '{"vendor":"Stryker"}')
+create index if not exists handoffs_details_gin on public.handoffs using gin (details jsonb_path_ops);
@@ -0,0 +1,45 @@
+-- Supply item catalog (SKU, description, unit of measure, default location,
+-- optional par level). A handoff can point at one item with a quantity.
+
+create table if not exists public.supply_items (
+  id uuid primary key default gen_random_uuid(),
+  sku text not null unique check (sku ~ '^[A-Z0-9][A-Z0-9._/-]{0,39}$'),
+  description text not null check (char_length(description) between 2 and 200),
+  uom text not null default 'EA' check (uom ~ '^[A-Z]{1,8}$'),
+  default_location_code text references public.locations (code) on update cascade,
+  par_level int check (par_level is null or par_level >= 0),
+  active boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.handoffs
+  add column if not exists item_id uuid references public.supply_items (id),
+  add column if not exists item_qty int;
+
+alter table public.handoffs
+  drop constraint if exists handoffs_item_qty_check;
+alter table public.handoffs
+  add constraint handoffs_item_qty_check
+  check ((item_id is null and item_qty is null) or (item_id is not null and item_qty > 0));
+
+create index if not exists handoffs_item_idx on public.handoffs (item_id, created_at desc)
+  where item_id is not null;
+
+-- Per-item history rollup (which items keep running short)
+create or replace view public.supply_item_stats
+with (security_invoker = true) as
+select i.id as item_id,
+       count(h.id) filter (where h.created_at >= now() - interval '30 days') as handoffs_30d,
+       count(h.id) filter (where h.created_at >= now() - interval '90 days') as handoffs_90d,
+       count(h.id) filter (where h.status <> 'resolved') as open_count,
+       coalesce(sum(h.item_qty) filter (where h.created_at >= now() - interval '90 days'), 0) as qty_90d,
+       max(h.created_at) as last_handoff_at
+  from public.supply_items i
+  left join public.handoffs h on h.item_id = i.id
+ group by i.id;
+
+alter table public.supply_items enable row level security;
+
+drop policy if exists supply_items_read on public.supply_items;
+create policy supply_items_read on public.supply_items for select to authenticated using (true);
@@ -0,0 +1,57 @@
+-- Image/PDF attachments on handoff_updates.
+--
+-- Bytes live in the attachment store (Supabase Storage bucket
+-- "handoff-attachments" in prod, local filesystem in dev); this table holds
+-- the metadata. The API sniffs the type from the bytes, enforces the limits
+-- below and strips EXIF/XMP from images before anything is stored, so
+-- sha256 is the hash of the sanitized file. Rows are append-only like the
+-- updates they hang off.
+
+create table if not exists public.handoff_attachments (
+  id uuid primary key default gen_random_uuid(),
+  handoff_id uuid not null references public.handoffs (id),
+  update_id uuid not null references public.handoff_updates (id),
+  storage_backend text not null check (storage_backend in ('supabase', 'local')),
+  storage_key text not null unique,
+  filename text not null check (char_length(filename) between 1 and 200),
+  content_type text not null
+    check (content_type in ('image/jpeg', 'image/png', 'image/webp', 'application/pdf')),
+  size_bytes int not null check (size_bytes > 0 and size_bytes <= 10485760),
+  sha256 text not null check (sha256 ~ '^[0-9a-f]{64}$'),
+  uploaded_by uuid references auth.users (id),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists handoff_attachments_update_idx on public.handoff_attachments (update_id);
+create index if not exists handoff_attachments_handoff_idx on public.handoff_attachments (handoff_id, created_at);
+
+create or replace function public.handoff_attachments_append_only()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'handoff_attachments is append-only' using errcode = '42501';
+end;
+$$;
+
+drop trigger if exists handoff_attachments_append_only on public.handoff_attachments;
+create trigger handoff_attachments_append_only
+  before update or delete on public.handoff_attachments
+  for each row execute function public.handoff_attachments_append_only();
+
+alter table public.handoff_attachments enable row level security;
+
+drop policy if exists handoff_attachments_read on public.handoff_attachments;
+create policy handoff_attachments_read on public.handoff_attachments
+  for select to authenticated using (true);
+
+-- Private bucket: downloads go through /api/handoff/attachment with the service role.
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values (
+  'handoff-attachments',
+  'handoff-attachments',
+  false,
+  10485760,
+  array['image/jpeg', 'image/png', 'image/webp', 'application/pdf']
+)
+on conflict (id) do nothing;
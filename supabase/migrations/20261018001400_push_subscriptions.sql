@@ -0,0 +1,27 @@
+-- Web Push subscriptions, one row per browser/device.
+--
+-- Written by /api/push/subscribe (service role) and keyed by endpoint, so
+-- re-subscribing the same browser under another user moves it. The sender
+-- deletes rows the push service reports as gone (404/410) and counts other
+-- failures.
+
+create table if not exists public.push_subscriptions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  endpoint text not null unique check (endpoint ~ '^https://'),
+  p256dh text not null,
+  auth text not null,
+  user_agent text,
+  created_at timestamptz not null default now(),
+  last_success_at timestamptz,
+  failure_count int not null default 0
+);
+
+create index if not exists push_subscriptions_user_idx on public.push_subscriptions (user_id);
+
+alter table public.push_subscriptions enable row level security;
+
+-- Users can see their own devices; all writes go through the API
+drop policy if exists push_subscriptions_own on public.push_subscriptions;
+create policy push_subscriptions_own on public.push_subscriptions
+  for select to authenticated using (user_id = auth.uid());
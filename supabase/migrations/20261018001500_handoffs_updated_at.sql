@@ -0,0 +1,36 @@
+-- Change cursor for the feed's realtime resync.
+--
+-- updated_at moves on every write to a handoff row: status changes, reopen,
+-- and each appended update (the hash-chain trigger bumps audit_seq). After a
+-- dropped realtime connection the feed re-reads rows with updated_at past
+-- its cursor instead of reloading the whole table.
+
+alter table public.handoffs
+  add column if not exists updated_at timestamptz;
+
+update public.handoffs
+   set updated_at = greatest(created_at, coalesce(last_update_at, created_at), coalesce(reopened_at, created_at))
+ where updated_at is null;
+
+alter table public.handoffs
+  alter column updated_at set default now(),
+  alter column updated_at set not null;
+
+create or replace function public.handoffs_touch_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  -- clock_timestamp() sits closer to commit than now() in long transactions;
+  -- the feed also re-reads a short overlap window behind its cursor
+  new.updated_at := clock_timestamp();
+  return new;
+end;
+$$;
+
+drop trigger if exists handoffs_touch_updated_at on public.handoffs;
+create trigger handoffs_touch_updated_at
+  before update on public.handoffs
+  for each row execute function public.handoffs_touch_updated_at();
+
+create index if not exists handoffs_updated_at_idx on public.handoffs (updated_at);
@@ -0,0 +1,36 @@
+-- Keyset pagination for the feed on (last_update_at, created_at, id).
+--
+-- last_update_at becomes non-null (defaults to the insert time) so the key is
+-- total and row comparison works. handoff_feed() applies only the "after this
+-- cursor" predicate for one half of the feed (open or resolved); callers add
+-- order/limit/filters through PostgREST. It is a plain SQL function (no
+-- security definer) so it inlines into the caller's query and RLS applies.
+
+update public.handoffs set last_update_at = created_at where last_update_at is null;
+
+alter table public.handoffs
+  alter column last_update_at set default now(),
+  alter column last_update_at set not null;
+
+create index if not exists handoffs_feed_idx
+  on public.handoffs ((status = 'resolved'), last_update_at desc, created_at desc, id desc);
+
+create or replace function public.handoff_feed(
+  p_resolved boolean,
+  p_before_last timestamptz default null,
+  p_before_created timestamptz default null,
+  p_before_id uuid default null
+) returns setof public.handoffs
+language sql
+stable
+as $$
+  select *
+    from public.handoffs h
+   where (h.status = 'resolved') = p_resolved
+     and (
+       p_before_id is null
+       or (h.last_update_at, h.created_at, h.id) < (p_before_last, p_before_created, p_before_id)
+     );
+$$;
+
+grant execute on function public.handoff_feed(boolean, timestamptz, timestamptz, uuid) to authenticated;
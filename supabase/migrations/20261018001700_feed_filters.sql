@@ -0,0 +1,48 @@
+-- Feed filters: created-during-shift support for handoff_feed().
+--
+-- Category, priority, location and status filters are plain PostgREST
+-- filters on top of the RPC. The shift a handoff was created in depends on
+-- the viewer's local time, so it's a parameter: handoff_shift() maps a
+-- timestamp to AM (07-15), PM (15-23) or NOC (23-07) in the given zone.
+-- Keep the hours in sync with SHIFT_START_HOURS in src/lib/shifts.ts.
+
+create or replace function public.handoff_shift(p_at timestamptz, p_tz text default 'UTC')
+returns text
+language sql
+stable
+as $$
+  select case
+    when extract(hour from p_at at time zone p_tz) >= 23
+      or extract(hour from p_at at time zone p_tz) < 7 then 'NOC'
+    when extract(hour from p_at at time zone p_tz) < 15 then 'AM'
+    else 'PM'
+  end;
+$$;
+
+-- The old 4-argument signature would make the call ambiguous
+drop function if exists public.handoff_feed(boolean, timestamptz, timestamptz, uuid);
+
+create or replace function public.handoff_feed(
+  p_resolved boolean,
+  p_before_last timestamptz default null,
+  p_before_created timestamptz default null,
+  p_before_id uuid default null,
+  p_shifts text[] default null,
+  p_tz text default 'UTC'
+) returns setof public.handoffs
+language sql
+stable
+as $$
+  select *
+    from public.handoffs h
+   where (h.status = 'resolved') = p_resolved
+     and (
+       p_before_id is null
+       or (h.last_update_at, h.created_at, h.id) < (p_before_last, p_before_created, p_before_id)
+     )
+     and (p_shifts is null or public.handoff_shift(h.created_at, p_tz) = any (p_shifts));
+$$;
+
+grant execute on function public.handoff_shift(timestamptz, text) to authenticated;
+grant execute on function public.handoff_feed(boolean, timestamptz, timestamptz, uuid, text[], text)
+  to authenticated;
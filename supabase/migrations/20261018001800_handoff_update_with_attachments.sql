@@ -0,0 +1,52 @@
+-- Write an app update and its attachment rows in one transaction.
+--
+-- /api/handoff/update used to insert the update, then the attachments. If
+-- the second insert failed the route answered 500, the offline queue
+-- replayed it, and the replay hit the "same client id" dedupe, so the files
+-- were lost without an error. As one function call, either both land or
+-- neither does. Service role only: the route has already checked
+-- permissions, screened PHI and stored the bytes.
+
+create or replace function public.add_handoff_update(
+  p_id uuid,
+  p_handoff_id uuid,
+  p_author_user_id uuid,
+  p_author_display_name text,
+  p_message text,
+  p_attachments jsonb default '[]'::jsonb
+) returns uuid
+language plpgsql
+as $$
+declare
+  v_id uuid;
+begin
+  insert into public.handoff_updates (
+    id, handoff_id, author_user_id, author_display_name_snapshot, source, message
+  )
+  values (
+    coalesce(p_id, gen_random_uuid()), p_handoff_id, p_author_user_id, p_author_display_name, 'app', p_message
+  )
+  returning id into v_id;
+
+  insert into public.handoff_attachments (
+    id, handoff_id, update_id, storage_backend, storage_key, filename,
+    content_type, size_bytes, sha256, uploaded_by
+  )
+  select a.id, p_handoff_id, v_id, a.storage_backend, a.storage_key, a.filename,
+         a.content_type, a.size_bytes, a.sha256, p_author_user_id
+    from jsonb_to_recordset(coalesce(p_attachments, '[]'::jsonb)) as a (
+      id uuid,
+      storage_backend text,
+      storage_key text,
+      filename text,
+      content_type text,
+      size_bytes int,
+      sha256 text
+    );
+
+  return v_id;
+end;
+$$;
+
+revoke all on function public.add_handoff_update(uuid, uuid, uuid, text, text, jsonb) from public, anon, authenticated;
+grant execute on function public.add_handoff_update(uuid, uuid, uuid, text, text, jsonb) to service_role;
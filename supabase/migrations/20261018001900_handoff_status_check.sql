@@ -0,0 +1,24 @@
+-- Legacy statuses and a CHECK on the three canonical ones.
+--
+-- Before the status state machine the resolve route wrote status = 'closed'.
+-- Those rows were shown as open (normStatus maps unknown values to "open"),
+-- handoff_feed() paged them in the open stream, and the status filter
+-- (status in ('open', ...)) dropped them. NULL-status rows matched neither
+-- feed stream. 'closed' becomes 'resolved'. NULL becomes 'open', which is
+-- how every screen already showed those rows.
+
+alter table public.handoffs disable trigger handoffs_guard_status;
+
+update public.handoffs set status = 'resolved' where status::text = 'closed';
+update public.handoffs set status = 'open' where status is null;
+
+alter table public.handoffs enable trigger handoffs_guard_status;
+
+alter table public.handoffs
+  alter column status set default 'open',
+  alter column status set not null;
+
+alter table public.handoffs drop constraint if exists handoffs_status_check;
+alter table public.handoffs
+  add constraint handoffs_status_check
+  check (status::text in ('open', 'needs_followup', 'resolved'));
@@ -0,0 +1,52 @@
+-- Status change and its audit row in one transaction.
+--
+-- transitionHandoff() used to compare-and-set the status, then insert the
+-- "SYSTEM: RESOLVED ..." handoff_updates row. If the insert failed the status
+-- had already moved with nothing in the audit trail. The server still checks
+-- the state machine and builds the message; this applies both writes or
+-- neither. Returns false when the status no longer equals p_from (a racing
+-- writer won), writing nothing. Service role only.
+--
+-- p_patch carries the extra columns a transition may set (resolve: code and
+-- note; reopen: reopened_at, cleared resolution). Other keys are ignored.
+
+create or replace function public.transition_handoff(
+  p_handoff_id uuid,
+  p_from public.handoffs.status%type,
+  p_to public.handoffs.status%type,
+  p_author_user_id uuid,
+  p_message text,
+  p_patch jsonb default '{}'::jsonb
+) returns boolean
+language plpgsql
+as $$
+declare
+  v_patch jsonb := coalesce(p_patch, '{}'::jsonb);
+begin
+  update public.handoffs h
+     set status = p_to,
+         last_update_at = now(),
+         resolution_code = case when v_patch ? 'resolution_code'
+           then (v_patch->>'resolution_code')::public.cs_resolution_code else h.resolution_code end,
+         resolution_note = case when v_patch ? 'resolution_note'
+           then v_patch->>'resolution_note' else h.resolution_note end,
+         reopened_at = case when v_patch ? 'reopened_at'
+           then (v_patch->>'reopened_at')::timestamptz else h.reopened_at end
+   where h.id = p_handoff_id
+     and h.status = p_from;
+
+  if not found then
+    return false;
+  end if;
+
+  insert into public.handoff_updates (
+    handoff_id, author_user_id, author_display_name_snapshot, source, message
+  )
+  values (p_handoff_id, p_author_user_id, 'system', 'system', p_message);
+
+  return true;
+end;
+$$;
+
+revoke all on function public.transition_handoff(uuid, public.handoffs.status%type, public.handoffs.status%type, uuid, text, jsonb) from public, anon, authenticated;
+grant execute on function public.transition_handoff(uuid, public.handoffs.status%type, public.handoffs.status%type, uuid, text, jsonb) to service_role;
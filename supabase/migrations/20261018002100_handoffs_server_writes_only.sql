@@ -0,0 +1,28 @@
+-- Handoffs and their updates are written only through the server routes.
+--
+-- The routes screen summaries and messages for PHI (lib/phi) before writing
+-- with the service role. The original schema still let any signed-in client
+-- insert into handoffs / handoff_updates with the anon key, which skipped
+-- that screening entirely. Clients keep read access (feed, detail page,
+-- realtime); writes lose both the policies and the table privileges, so a
+-- FOR ALL policy left behind can't reopen them. The service role bypasses
+-- RLS and keeps its grants.
+
+do $$
+declare
+  p record;
+begin
+  for p in
+    select tablename, policyname
+      from pg_policies
+     where schemaname = 'public'
+       and tablename in ('handoffs', 'handoff_updates')
+       and cmd in ('INSERT', 'UPDATE', 'DELETE')
+  loop
+    execute format('drop policy %I on public.%I', p.policyname, p.tablename);
+  end loop;
+end;
+$$;
+
+revoke insert, update, delete on public.handoffs from anon, authenticated;
+revoke insert, update, delete on public.handoff_updates from anon, authenticated;